@@ -0,0 +1,151 @@
+import { performance } from 'perf_hooks';
+import {
+  AdditiveEffect,
+  PercentageEffect,
+  MultiplicativeEffect,
+  ClampEffect,
+  ConditionalEffect
+} from './core/effects';
+import { Entity } from './core/Entity';
+import { EntityRegistry } from './core/EntityRegistry';
+import { ManualClock } from './core/Clock';
+import { createSimulationContext } from './core/SimulationContext';
+import { StatType } from './core/types';
+
+/**
+ * Stat cache benchmark
+ *
+ * Builds thousands of entities with a realistic mix of effects, then runs
+ * rounds in which a few entities change and every entity's stats are read.
+ * Each scenario runs twice: once forcing a full recalculation on every read
+ * (as if nothing were cached) and once relying on dependency-based
+ * invalidation and per-stat recalculation.
+ *
+ * Usage: npm run benchmark -- [entities] [rounds]
+ */
+
+interface Scenario {
+  readonly name: string;
+  readonly changedPerRound: number; // Entities whose base stats change each round
+  readonly timeDependentShare: number; // Share of entities with a time-dependent effect
+  readonly buffsPerEntity?: number; // Extra flat buffs spread over other stats
+  readonly entityCount?: number; // Overrides the entity count from the command line
+}
+
+const STATS: StatType[] = ['health', 'attack', 'defense', 'speed'];
+const BUFFED_STATS: StatType[] = ['strength', 'agility', 'intellect', 'stamina', 'spirit', 'armor', 'resistance', 'luck'];
+
+function createEntities(registry: EntityRegistry, count: number, scenario: Scenario): Entity[] {
+  const entities: Entity[] = [];
+  for (let i = 0; i < count; i++) {
+    const entity = registry.createEntity(`bench-${i}`, { health: 100 + i % 50, attack: 20, defense: 10, speed: 5 });
+    entity.addEffect(new AdditiveEffect(`bench-sword-${i}`, 'Sword', 'attack', 10));
+    entity.addEffect(new AdditiveEffect(`bench-armor-${i}`, 'Armor', 'defense', 8));
+    entity.addEffect(new PercentageEffect(`bench-blessing-${i}`, 'Blessing', 'health', 0.2));
+    entity.addEffect(new PercentageEffect(`bench-haste-${i}`, 'Haste', 'speed', 0.3));
+    entity.addEffect(new MultiplicativeEffect(`bench-rage-${i}`, 'Rage', 'attack', 1.5));
+    entity.addEffect(new ClampEffect(`bench-cap-${i}`, 'Speed Cap', 'speed', 0, 10));
+    entity.addEffect(new ConditionalEffect(
+      `bench-last-stand-${i}`,
+      'Last Stand',
+      (context) => (context.baseStats.health ?? 0) < 110,
+      new AdditiveEffect(`bench-last-stand-bonus-${i}`, 'Last Stand Bonus', 'defense', 15),
+      true,
+      0,
+      [],
+      undefined,
+      ['health']
+    ));
+    for (let buff = 0; buff < (scenario.buffsPerEntity ?? 0); buff++) {
+      entity.addEffect(new AdditiveEffect(`bench-buff-${i}-${buff}`, 'Buff', BUFFED_STATS[buff % BUFFED_STATS.length], 1));
+    }
+    if (i < count * scenario.timeDependentShare) {
+      entity.addEffect(new ConditionalEffect(
+        `bench-flicker-${i}`,
+        'Flicker',
+        (context) => Math.floor(context.timestamp / 100) % 2 === 0,
+        new AdditiveEffect(`bench-flicker-bonus-${i}`, 'Flicker Bonus', 'speed', 2),
+        true,
+        0,
+        [],
+        undefined,
+        [],
+        true
+      ));
+    }
+    entities.push(entity);
+  }
+  return entities;
+}
+
+function runRounds(entities: Entity[], clock: ManualClock, scenario: Scenario, rounds: number, forceRecalculation: boolean): number {
+  let checksum = 0;
+  const start = performance.now();
+
+  for (let round = 0; round < rounds; round++) {
+    clock.advance(16);
+    for (let i = 0; i < scenario.changedPerRound; i++) {
+      const entity = entities[(round * scenario.changedPerRound + i) % entities.length];
+      entity.setBaseStat('health', 100 + (round + i) % 20);
+    }
+    for (const entity of entities) {
+      if (forceRecalculation) entity.invalidateStats();
+      for (const statType of STATS) checksum += entity.getStat(statType);
+    }
+  }
+
+  const elapsed = performance.now() - start;
+  if (!Number.isFinite(checksum)) throw new Error('Benchmark produced invalid stats');
+  return elapsed;
+}
+
+function runScenario(scenario: Scenario, defaultEntityCount: number, rounds: number): void {
+  const entityCount = scenario.entityCount ?? defaultEntityCount;
+  const results = [true, false].map(forceRecalculation => {
+    const clock = new ManualClock();
+    const registry = new EntityRegistry(createSimulationContext({ clock }));
+    const entities = createEntities(registry, entityCount, scenario);
+    const elapsed = runRounds(entities, clock, scenario, rounds, forceRecalculation);
+    registry.dispose();
+    return elapsed;
+  });
+
+  const [uncached, cached] = results;
+  const reads = entityCount * rounds;
+  console.log(`\n${scenario.name} — ${entityCount} entities`);
+  console.log(`  recalculate every read: ${uncached.toFixed(1)}ms (${(uncached * 1000 / reads).toFixed(2)}µs per entity read)`);
+  console.log(`  dependency-based cache: ${cached.toFixed(1)}ms (${(cached * 1000 / reads).toFixed(2)}µs per entity read)`);
+  console.log(`  speedup: ${(uncached / cached).toFixed(1)}x`);
+}
+
+function main(): void {
+  const entityCount = Number(process.argv[2] ?? 2000);
+  const rounds = Number(process.argv[3] ?? 20);
+  if (!(entityCount > 0) || !(rounds > 0)) {
+    throw new Error('Usage: npm run benchmark -- [entities] [rounds]');
+  }
+
+  console.log(`📊 Stat cache benchmark: ${entityCount} entities, ${rounds} rounds`);
+  console.log('='.repeat(60));
+
+  const scenarios: Scenario[] = [
+    { name: 'Idle (nothing changes)', changedPerRound: 0, timeDependentShare: 0 },
+    { name: 'Few changes (1% of entities per round)', changedPerRound: Math.ceil(entityCount / 100), timeDependentShare: 0 },
+    { name: 'Few changes, 10% of entities with time-dependent effects', changedPerRound: Math.ceil(entityCount / 100), timeDependentShare: 0.1 },
+    { name: 'Every entity changes every round', changedPerRound: entityCount, timeDependentShare: 0 },
+    {
+      name: 'Every entity changes every round, 400 buffs per entity',
+      changedPerRound: Math.ceil(entityCount / 20),
+      timeDependentShare: 0,
+      buffsPerEntity: 400,
+      entityCount: Math.ceil(entityCount / 20)
+    }
+  ];
+  for (const scenario of scenarios) {
+    runScenario(scenario, entityCount, rounds);
+  }
+
+  console.log('\n' + '='.repeat(60));
+}
+
+main();
@@ -22,9 +22,10 @@ export abstract class BaseActiveEffect extends BaseEffect implements ActiveEffec
     priority: number,
     statTypes: StatType[],
     stackabilityRules: StatStackability[],
-    public readonly supportedPurposes: string[]
+    public readonly supportedPurposes: string[],
+    tags: string[] = []
   ) {
-    super(id, name, priority, statTypes, stackabilityRules);
+    super(id, name, priority, statTypes, stackabilityRules, tags);
   }
 
   abstract apply(context: EffectContext, stats: Map<StatType, StatValue>): void;
@@ -86,8 +87,8 @@ export class BaseStatValueProvider implements ValueProvider {
     public readonly name: string,
     public readonly priority: number,
     public readonly supportedPurposes: string[],
-    private readonly statType: StatType,
-    private readonly multiplier: number = 1.0
+    public readonly statType: StatType,
+    public readonly multiplier: number = 1.0
   ) {}
 
   canHandlePurpose(purpose: string): boolean {
@@ -122,7 +123,8 @@ export class ActiveEffectUtils {
     supportedPurposes: string[],
     valueCalculator: (purpose: string, context: ValueRequestContext) => StatValue | undefined,
     priority: number = 0,
-    stackabilityRules: StatStackability[] = []
+    stackabilityRules: StatStackability[] = [],
+    tags: string[] = []
   ): BaseActiveEffect {
     return new (class extends BaseActiveEffect {
       apply(context: EffectContext, stats: Map<StatType, StatValue>): void {
@@ -136,7 +138,7 @@ export class ActiveEffectUtils {
       provideValue(purpose: string, context: ValueRequestContext): StatValue | undefined {
         return valueCalculator(purpose, context);
       }
-    })(id, name, priority, statTypes, stackabilityRules, supportedPurposes);
+    })(id, name, priority, statTypes, stackabilityRules, supportedPurposes, tags);
   }
 
   /**
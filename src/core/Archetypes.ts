@@ -0,0 +1,209 @@
+import {
+  EntityId,
+  EffectId,
+  BaseStats,
+  StatType,
+  Effect,
+  Gear,
+  BoundEventConfig,
+  ResourceDefinition
+} from './types';
+import { DerivedStatSet, DerivedStatFormula, DerivedStatDefinition } from './DerivedStats';
+
+/**
+ * Derived stat in an archetype: an expression, or a formula with the stats it reads
+ */
+export type ArchetypeDerivedStat = DerivedStatFormula | Omit<DerivedStatDefinition, 'statType'>;
+
+/**
+ * Settings contributed by an archetype, or by overrides when spawning
+ */
+export interface ArchetypeLayer {
+  readonly baseStats?: BaseStats;
+  readonly effects?: Effect[]; // Replace inherited effects with the same id
+  readonly removeEffects?: EffectId[]; // Inherited effects to leave out
+  readonly gear?: Record<string, Gear | null>; // slot -> gear; null leaves an inherited slot empty
+  readonly boundEvents?: BoundEventConfig[]; // Replace inherited configs for the same stat
+  readonly derivedStats?: Record<StatType, ArchetypeDerivedStat>;
+  readonly resources?: ResourceDefinition[]; // Replace inherited resources for the same stat
+}
+
+/**
+ * Named entity template
+ */
+export interface ArchetypeDefinition extends ArchetypeLayer {
+  readonly name: string;
+  readonly extends?: string | string[]; // Parents, applied in order before this archetype
+}
+
+/**
+ * Overrides for one entity spawned from an archetype
+ */
+export interface SpawnOptions extends ArchetypeLayer {
+  readonly id?: EntityId; // Default: the archetype name and a counter, e.g. `goblin-3`
+}
+
+/**
+ * Archetype with its inheritance applied
+ */
+export interface ResolvedArchetype {
+  readonly name: string;
+  readonly lineage: string[]; // Archetypes applied, most general first
+  readonly baseStats: BaseStats;
+  readonly effects: Effect[];
+  readonly gear: Map<string, Gear>; // slot -> gear
+  readonly boundEvents: BoundEventConfig[];
+  readonly resources: ResourceDefinition[];
+  readonly derivedStats?: DerivedStatSet; // Shared by every entity spawned without derived stat overrides
+}
+
+interface MergedLayers {
+  readonly lineage: string[];
+  readonly baseStats: BaseStats;
+  readonly effects: Map<EffectId, Effect>;
+  readonly gear: Map<string, Gear>;
+  readonly boundEvents: Map<StatType, BoundEventConfig>;
+  readonly derivedStats: Map<StatType, ArchetypeDerivedStat>;
+  readonly resources: Map<StatType, ResourceDefinition>;
+}
+
+/**
+ * Registry of entity archetypes
+ *
+ * Archetypes inherit from one or more parents. Parents are applied in the
+ * order listed, then the archetype itself, so later settings win: base stats
+ * by name, effects by id, gear by slot, bound event configs, derived stats
+ * and resources by stat. An ancestor shared by several parents is applied once.
+ */
+export class ArchetypeRegistry {
+  private readonly _definitions: Map<string, ArchetypeDefinition> = new Map();
+  private readonly _resolved: Map<string, ResolvedArchetype> = new Map();
+
+  /**
+   * Define (or redefine) an archetype
+   * @throws Error if a parent is not defined or the archetype would inherit from itself
+   */
+  define(definition: ArchetypeDefinition): this {
+    for (const parent of parentsOf(definition)) {
+      if (parent !== definition.name && !this._definitions.has(parent)) {
+        throw new Error(`Archetype ${definition.name} extends unknown archetype ${parent}`);
+      }
+    }
+
+    const previous = this._definitions.get(definition.name);
+    this._definitions.set(definition.name, definition);
+    try {
+      this.merge(definition.name, [], new Set());
+    } catch (error) {
+      if (previous) this._definitions.set(definition.name, previous);
+      else this._definitions.delete(definition.name);
+      throw error;
+    }
+
+    // Descendants see the new definition
+    this._resolved.clear();
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this._definitions.has(name);
+  }
+
+  get(name: string): ArchetypeDefinition | undefined {
+    return this._definitions.get(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this._definitions.keys());
+  }
+
+  /**
+   * Apply an archetype's inheritance
+   * @param name - The archetype
+   * @param overrides - Settings applied on top (e.g. for one spawned entity)
+   * @throws Error if the archetype is not defined
+   */
+  resolve(name: string, overrides?: ArchetypeLayer): ResolvedArchetype {
+    const cached = this._resolved.get(name);
+    const resolved = cached ?? this.build(name, this.merge(name, [], new Set()));
+    if (!cached) this._resolved.set(name, resolved);
+    if (!overrides) return resolved;
+
+    const merged = this.merge(name, [], new Set());
+    applyLayer(merged, overrides);
+    const withOverrides = this.build(name, merged);
+    return overrides.derivedStats ? withOverrides : { ...withOverrides, derivedStats: resolved.derivedStats };
+  }
+
+  private merge(name: string, visiting: string[], applied: Set<string>, merged?: MergedLayers): MergedLayers {
+    const definition = this._definitions.get(name);
+    if (!definition) {
+      throw new Error(`Unknown archetype: ${name}`);
+    }
+    if (visiting.includes(name)) {
+      throw new Error(`Archetype inherits from itself: ${[...visiting, name].join(' → ')}`);
+    }
+
+    const layers: MergedLayers = merged ?? {
+      lineage: [],
+      baseStats: {},
+      effects: new Map(),
+      gear: new Map(),
+      boundEvents: new Map(),
+      derivedStats: new Map(),
+      resources: new Map()
+    };
+    for (const parent of parentsOf(definition)) {
+      this.merge(parent, [...visiting, name], applied, layers);
+    }
+
+    if (!applied.has(name)) {
+      applied.add(name);
+      layers.lineage.push(name);
+      applyLayer(layers, definition);
+    }
+    return layers;
+  }
+
+  private build(name: string, merged: MergedLayers): ResolvedArchetype {
+    let derivedStats: DerivedStatSet | undefined;
+    if (merged.derivedStats.size > 0) {
+      derivedStats = new DerivedStatSet();
+      for (const [statType, derived] of merged.derivedStats) {
+        if (typeof derived === 'object') derivedStats.define(statType, derived.formula, derived.reads);
+        else derivedStats.define(statType, derived);
+      }
+    }
+
+    return {
+      name,
+      lineage: [...merged.lineage],
+      baseStats: { ...merged.baseStats },
+      effects: Array.from(merged.effects.values()),
+      gear: new Map(merged.gear),
+      boundEvents: Array.from(merged.boundEvents.values()),
+      resources: Array.from(merged.resources.values()),
+      derivedStats
+    };
+  }
+}
+
+function parentsOf(definition: ArchetypeDefinition): string[] {
+  if (definition.extends === undefined) return [];
+  return typeof definition.extends === 'string' ? [definition.extends] : [...definition.extends];
+}
+
+function applyLayer(merged: MergedLayers, layer: ArchetypeLayer): void {
+  Object.assign(merged.baseStats, layer.baseStats);
+  layer.removeEffects?.forEach(effectId => merged.effects.delete(effectId));
+  layer.effects?.forEach(effect => merged.effects.set(effect.id, effect));
+  for (const [slot, gear] of Object.entries(layer.gear ?? {})) {
+    if (gear) merged.gear.set(slot, gear);
+    else merged.gear.delete(slot);
+  }
+  layer.boundEvents?.forEach(config => merged.boundEvents.set(config.statType, config));
+  layer.resources?.forEach(resource => merged.resources.set(resource.statType, resource));
+  for (const [statType, derived] of Object.entries(layer.derivedStats ?? {})) {
+    merged.derivedStats.set(statType, derived);
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Source of the current simulation time in milliseconds
+ *
+ * Entities, managers and frames read time from the clock of their simulation
+ * context, so a simulation can run in real time, be stepped by hand or be
+ * driven by game ticks.
+ */
+export interface Clock {
+  now(): number;
+}
+
+/**
+ * Clock following wall-clock time that can be paused and sped up
+ */
+export class RealTimeClock implements Clock {
+  private _origin: number = Date.now(); // Wall-clock time of the last rate change
+  private _offset: number; // Simulation time at the last rate change
+  private _timeScale: number = 1;
+  private _paused: boolean = false;
+
+  constructor(startTime: number = Date.now()) {
+    this._offset = startTime;
+  }
+
+  now(): number {
+    if (this._paused) return this._offset;
+    return this._offset + (Date.now() - this._origin) * this._timeScale;
+  }
+
+  get paused(): boolean {
+    return this._paused;
+  }
+
+  get timeScale(): number {
+    return this._timeScale;
+  }
+
+  /**
+   * Stop time until resume is called
+   */
+  pause(): void {
+    if (this._paused) return;
+    this.rebase();
+    this._paused = true;
+  }
+
+  /**
+   * Continue from the time the clock was paused at
+   */
+  resume(): void {
+    if (!this._paused) return;
+    this._origin = Date.now();
+    this._paused = false;
+  }
+
+  /**
+   * Run faster (e.g. 2 to fast-forward) or slower than wall-clock time
+   */
+  setTimeScale(timeScale: number): void {
+    if (!(timeScale >= 0)) {
+      throw new Error(`Time scale must be a non-negative number, got ${timeScale}`);
+    }
+    this.rebase();
+    this._timeScale = timeScale;
+  }
+
+  private rebase(): void {
+    this._offset = this.now();
+    this._origin = Date.now();
+  }
+}
+
+/**
+ * Clock that only moves when told to, for tests and replays
+ */
+export class ManualClock implements Clock {
+  private _time: number;
+
+  constructor(startTime: number = 0) {
+    this._time = startTime;
+  }
+
+  now(): number {
+    return this._time;
+  }
+
+  /**
+   * Move time forward
+   */
+  advance(milliseconds: number): number {
+    if (!(milliseconds >= 0)) {
+      throw new Error(`Cannot advance a clock by ${milliseconds}ms`);
+    }
+    this._time += milliseconds;
+    return this._time;
+  }
+
+  /**
+   * Jump to a specific time (e.g. a recorded timestamp)
+   */
+  set(time: number): void {
+    this._time = time;
+  }
+}
+
+/**
+ * Clock driven by game ticks of a fixed length
+ */
+export class TickClock implements Clock {
+  private _tick: number = 0;
+
+  constructor(
+    public readonly tickDuration: number = 1000 / 60, // Milliseconds per tick
+    public readonly startTime: number = 0
+  ) {
+    if (!(tickDuration > 0)) {
+      throw new Error(`Tick duration must be positive, got ${tickDuration}`);
+    }
+  }
+
+  now(): number {
+    return this.startTime + this._tick * this.tickDuration;
+  }
+
+  get currentTick(): number {
+    return this._tick;
+  }
+
+  /**
+   * Advance by a number of ticks
+   * @returns The new tick number
+   */
+  tick(count: number = 1): number {
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error(`Cannot advance a clock by ${count} ticks`);
+    }
+    this._tick += count;
+    return this._tick;
+  }
+}
+
+/**
+ * Global real-time clock used by the default simulation context
+ */
+export const realTimeClock = new RealTimeClock();
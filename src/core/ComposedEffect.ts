@@ -6,11 +6,23 @@ import {
   StatValue,
   StatMap,
   StatStackability,
+  StackingRule,
   EffectApplicability,
   EffectImpact,
   EffectTarget,
-  EffectApplication
+  EffectApplication,
+  StatModifier,
+  ModifierStage
 } from './types';
+import {
+  AdditiveImpact,
+  MultiplicativeImpact,
+  PercentageImpact,
+  AdditiveApplication,
+  MultiplicativeApplication,
+  PercentageApplication,
+  SetValueApplication
+} from './EffectComponents';
 
 /**
  * Composed effect that uses composition to separate concerns
@@ -20,8 +32,14 @@ import {
  * - Impact: How much should it change?
  * - Target: What should it change?
  * - Application: How should the change be applied?
+ *
+ * Fixed, multiplicative and percentage impacts applied additively, fixed
+ * percentages and fixed overrides contribute to the modifier stages like the
+ * basic effects; other combinations are applied after the staged modifiers.
  */
 export class ComposedEffect implements Effect {
+  readonly getModifiers?: (context: EffectContext) => StatModifier[];
+
   constructor(
     public readonly id: EffectId,
     public readonly name: string,
@@ -31,8 +49,19 @@ export class ComposedEffect implements Effect {
     private readonly applicability: EffectApplicability,
     private readonly impact: EffectImpact,
     private readonly target: EffectTarget,
-    private readonly application: EffectApplication
-  ) {}
+    private readonly application: EffectApplication,
+    public readonly tags: string[] = [],
+    public readonly stacking?: StackingRule,
+    public readonly reads?: StatType[], // Stats the components read besides statTypes (any stat when not set)
+    public readonly timeDependent: boolean = false // Uses time or chance, so cached stats expire when the clock moves
+  ) {
+    const modifierFor = stagedModifier(impact, application);
+    if (modifierFor) {
+      this.getModifiers = context => this.applicability.isApplicable(context)
+        ? this.target.getTargets(context).map(modifierFor)
+        : [];
+    }
+  }
 
   /**
    * Apply this effect to modify stats
@@ -92,6 +121,35 @@ export class ComposedEffect implements Effect {
   }
 }
 
+/**
+ * The stage modifier an impact and application amount to, if they amount to one
+ */
+function stagedModifier(impact: EffectImpact, application: EffectApplication): ((statType: StatType) => StatModifier) | undefined {
+  if (impact instanceof AdditiveImpact) {
+    const value = impact.value;
+    if (application instanceof AdditiveApplication) {
+      return statType => ({ statType, stage: ModifierStage.BASE_ADD, value });
+    }
+    if (application instanceof PercentageApplication) {
+      return statType => ({ statType, stage: ModifierStage.ADDITIVE_PERCENT, value });
+    }
+    if (application instanceof SetValueApplication) {
+      const override = application.baseValue + value;
+      return statType => ({ statType, stage: ModifierStage.OVERRIDE, value: override });
+    }
+  }
+  if (impact instanceof MultiplicativeImpact &&
+      (application instanceof AdditiveApplication || application instanceof MultiplicativeApplication)) {
+    const value = impact.factor;
+    return statType => ({ statType, stage: ModifierStage.MULTIPLICATIVE, value });
+  }
+  if (impact instanceof PercentageImpact && application instanceof AdditiveApplication) {
+    const value = impact.percentage;
+    return statType => ({ statType, stage: ModifierStage.ADDITIVE_PERCENT, value });
+  }
+  return undefined;
+}
+
 /**
  * Builder for creating composed effects
  */
@@ -105,6 +163,10 @@ export class ComposedEffectBuilder {
   private _impact?: EffectImpact;
   private _target?: EffectTarget;
   private _application?: EffectApplication;
+  private _tags: string[] = [];
+  private _stacking?: StackingRule;
+  private _reads?: StatType[];
+  private _timeDependent: boolean = false;
 
   constructor(id: EffectId, name: string) {
     this._id = id;
@@ -146,6 +208,26 @@ export class ComposedEffectBuilder {
     return this;
   }
 
+  withTags(tags: string[]): this {
+    this._tags = tags;
+    return this;
+  }
+
+  withStacking(stacking: StackingRule): this {
+    this._stacking = stacking;
+    return this;
+  }
+
+  withReads(reads: StatType[] | undefined): this {
+    this._reads = reads;
+    return this;
+  }
+
+  withTimeDependence(timeDependent: boolean = true): this {
+    this._timeDependent = timeDependent;
+    return this;
+  }
+
   build(): ComposedEffect {
     if (!this._applicability) {
       throw new Error('Applicability is required');
@@ -169,7 +251,11 @@ export class ComposedEffectBuilder {
       this._applicability,
       this._impact,
       this._target,
-      this._application
+      this._application,
+      this._tags,
+      this._stacking,
+      this._reads,
+      this._timeDependent
     );
   }
 }
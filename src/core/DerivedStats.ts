@@ -0,0 +1,160 @@
+import { StatType, StatValue, StatMap } from './types';
+import { StatExpression } from './StatExpression';
+
+/**
+ * Formula for a derived stat: an expression over other stats, or a function
+ */
+export type DerivedStatFormula = string | ((stats: StatMap) => StatValue);
+
+/**
+ * A stat calculated from other stats (e.g. `critChance` from `agility`)
+ */
+export interface DerivedStatDefinition {
+  readonly statType: StatType;
+  readonly formula: DerivedStatFormula;
+  readonly reads: StatType[]; // Stats the formula reads
+}
+
+/**
+ * Error raised when derived stats depend on each other in a loop
+ */
+export class DerivedStatCycleError extends Error {
+  constructor(public readonly cycle: StatType[]) {
+    super(`Derived stats depend on each other: ${cycle.join(' → ')}`);
+    this.name = 'DerivedStatCycleError';
+  }
+}
+
+/**
+ * Derived stat definitions shared by every entity of one kind
+ *
+ * Derived stats are calculated after effects: their formulas see the final
+ * values of the stats they read, and the result is the starting value that
+ * effects targeting the derived stat modify. Derived stats that read other
+ * derived stats are calculated after them; loops are rejected when defined.
+ * Base values for a derived stat are ignored.
+ */
+export class DerivedStatSet {
+  private readonly _definitions: Map<StatType, DerivedStatDefinition & { readonly evaluate: (stats: StatMap) => StatValue }> = new Map();
+  private _levels?: StatType[][];
+  private _version: number = 0;
+
+  /**
+   * Define (or redefine) a derived stat
+   * @param statType - The derived stat
+   * @param formula - Expression such as `'agility * 0.01'`, or a function of the current stats
+   * @param reads - Stats a function formula reads (found automatically for expressions)
+   * @throws DerivedStatCycleError if the stat would depend on itself
+   * @throws StatExpressionError if the expression is invalid
+   */
+  define(statType: StatType, formula: DerivedStatFormula, reads: StatType[] = []): this {
+    const expression = typeof formula === 'string' ? StatExpression.compile(formula, { expectedType: 'number' }) : undefined;
+    const definition = {
+      statType,
+      formula,
+      reads: expression ? [...expression.statReferences] : [...reads],
+      evaluate: expression ? expression.toStatFunction() : formula as (stats: StatMap) => StatValue
+    };
+
+    const previous = this._definitions.get(statType);
+    this._definitions.set(statType, definition);
+    try {
+      this._levels = this.sortLevels();
+    } catch (error) {
+      if (previous) this._definitions.set(statType, previous);
+      else this._definitions.delete(statType);
+      throw error;
+    }
+    this._version++;
+    return this;
+  }
+
+  /**
+   * Stop deriving a stat
+   */
+  remove(statType: StatType): boolean {
+    const removed = this._definitions.delete(statType);
+    if (removed) {
+      this._levels = undefined;
+      this._version++;
+    }
+    return removed;
+  }
+
+  has(statType: StatType): boolean {
+    return this._definitions.has(statType);
+  }
+
+  get(statType: StatType): DerivedStatDefinition | undefined {
+    const definition = this._definitions.get(statType);
+    return definition && { statType, formula: definition.formula, reads: [...definition.reads] };
+  }
+
+  getDefinitions(): DerivedStatDefinition[] {
+    return Array.from(this._definitions.keys()).map(statType => this.get(statType)!);
+  }
+
+  get size(): number {
+    return this._definitions.size;
+  }
+
+  /**
+   * Changes whenever a definition is added, replaced or removed
+   */
+  get version(): number {
+    return this._version;
+  }
+
+  /**
+   * Derived stats grouped by calculation order
+   * @returns Stats that only read regular stats first, then stats that read those, and so on
+   */
+  getLevels(): StatType[][] {
+    this._levels = this._levels ?? this.sortLevels();
+    return this._levels.map(level => [...level]);
+  }
+
+  /**
+   * Calculate a derived stat's formula
+   * @param statType - The derived stat
+   * @param stats - Values of the stats it reads
+   */
+  evaluate(statType: StatType, stats: StatMap): StatValue {
+    const definition = this._definitions.get(statType);
+    if (!definition) {
+      throw new Error(`No derived stat defined for ${statType}`);
+    }
+    const value = definition.evaluate(stats);
+    return Number.isFinite(value) ? value : 0;
+  }
+
+  private sortLevels(): StatType[][] {
+    const levelOf = new Map<StatType, number>();
+    const visiting: StatType[] = [];
+
+    const visit = (statType: StatType): number => {
+      const known = levelOf.get(statType);
+      if (known !== undefined) return known;
+      const definition = this._definitions.get(statType);
+      if (!definition) return 0; // Regular stat
+
+      const loopStart = visiting.indexOf(statType);
+      if (loopStart >= 0) {
+        throw new DerivedStatCycleError([...visiting.slice(loopStart), statType]);
+      }
+      visiting.push(statType);
+      const level = 1 + Math.max(0, ...definition.reads.map(visit));
+      visiting.pop();
+
+      levelOf.set(statType, level);
+      return level;
+    };
+
+    const levels: StatType[][] = [];
+    for (const statType of this._definitions.keys()) {
+      const level = visit(statType);
+      (levels[level - 1] = levels[level - 1] ?? []).push(statType);
+    }
+    return levels.filter(level => level !== undefined);
+  }
+}
@@ -17,8 +17,9 @@ import {
   DEFAULT_BOUND_THRESHOLDS
 } from './types';
 import { Entity } from './Entity';
-import { eventSystem } from './EventSystem';
 import { StatBoundCalculator } from './StatBoundCalculator';
+import { StatExpression } from './StatExpression';
+import { realTimeClock } from './Clock';
 
 /**
  * Base implementation of EffectApplicator
@@ -57,7 +58,8 @@ export abstract class BaseEffectApplicator implements EffectApplicator {
       effectStack: entity.getEffects(),
       currentStats: new Map(stats),
       baseStats: entity.baseStats,
-      timestamp: Date.now()
+      timestamp: entity.context.clock.now(),
+      rngManager: entity.context.rngManager
     };
   }
   
@@ -96,6 +98,9 @@ export abstract class BaseEffectApplicator implements EffectApplicator {
    * Check if an effect can be added considering stackability rules
    */
   protected canAddEffect(entity: Entity, effect: Effect): boolean {
+    // Re-applying a stacking effect adds a stack; the entity enforces its limit
+    if (effect.stacking && entity.hasEffect(effect.id)) return true;
+    
     const existingEffects = entity.getEffects();
     
     // Check stackability for each stat type this effect modifies
@@ -182,6 +187,45 @@ export class StatThresholdApplicator extends BaseEffectApplicator {
   }
 }
 
+/**
+ * Generic effect applicator for conditions written as stat expressions
+ */
+export class ExpressionApplicator extends BaseEffectApplicator {
+  constructor(
+    id: string,
+    name: string,
+    effectsToAdd: Effect[],
+    effectsToRemove: EffectId[],
+    condition: StatExpression | string // e.g. "health / maxHealth < 0.25"
+  ) {
+    const expression = typeof condition === 'string'
+      ? StatExpression.compile(condition, { expectedType: 'boolean' })
+      : condition;
+    const conditions: EffectCondition[] = [
+      {
+        eventType: EventType.STAT_CHANGED,
+        predicate: (event, context) => expression.evaluateBoolean(context.currentStats),
+        description: expression.source
+      }
+    ];
+    
+    super(id, name, conditions, effectsToAdd, effectsToRemove);
+  }
+  
+  handleEvent(event: Event, entityId: EntityId): boolean {
+    return false;
+  }
+  
+  handleEventWithEntity(event: Event, entity: Entity): boolean {
+    const context = this.getEntityContext(entity);
+    if (!this.checkConditions(event, context)) {
+      return false;
+    }
+    
+    return this.addEffects(entity);
+  }
+}
+
 /**
  * Generic effect applicator for percentage-based thresholds
  */
@@ -273,7 +317,7 @@ export class CooldownEffectApplicator extends BaseEffectApplicator {
   }
   
   handleEventWithEntity(event: Event, entity: Entity): boolean {
-    const now = Date.now();
+    const now = entity.context.clock.now();
     
     // Check if any effects are on cooldown
     if (this.isOnCooldown(entity.id, now)) {
@@ -355,12 +399,18 @@ export class CooldownEffectApplicator extends BaseEffectApplicator {
   
   /**
    * Get cooldown status for an entity
+   * @param entity - The entity, or its id (the id alone reads real time unless currentTime is given)
+   * @param currentTime - Current timestamp (defaults to the entity's clock)
    */
-  getCooldownStatus(entityId: EntityId, currentTime: number = Date.now()): {
+  getCooldownStatus(
+    entity: Entity | EntityId,
+    currentTime: number = typeof entity === 'string' ? realTimeClock.now() : entity.context.clock.now()
+  ): {
     isOnCooldown: boolean;
     remainingTime: number;
     activeCooldowns: Array<{ effectId: EffectId; remainingTime: number }>;
   } {
+    const entityId = typeof entity === 'string' ? entity : entity.id;
     const entityTimings = this._entityTimings.get(entityId);
     if (!entityTimings) {
       return {
@@ -435,10 +485,6 @@ export class EffectApplicatorManager {
   private readonly _applicators: Map<string, EffectApplicator> = new Map();
   private readonly _eventSubscriptions: Map<EventType, Set<EffectApplicator>> = new Map();
   
-  constructor() {
-    this.setupEventHandling();
-  }
-  
   /**
    * Register an effect applicator
    */
@@ -496,6 +542,7 @@ export class EffectApplicatorManager {
   
   /**
    * Handle an event for a specific entity
+   * (events are routed here automatically for entities owned by an EntityRegistry)
    */
   handleEventForEntity(event: Event, entity: Entity): boolean {
     const applicators = this.getApplicatorsForEvent(event.type);
@@ -521,7 +568,7 @@ export class EffectApplicatorManager {
   /**
    * Check for expired effects on an entity (called during frame generation)
    */
-  checkExpiredEffectsForEntity(entity: Entity, currentTime: number = Date.now()): boolean {
+  checkExpiredEffectsForEntity(entity: Entity, currentTime: number = entity.context.clock.now()): boolean {
     let anyChanges = false;
     
     // Check entity's own expired effects
@@ -544,31 +591,19 @@ export class EffectApplicatorManager {
   
   /**
    * Check for expired effects across all entities (batch operation)
+   * @param currentTime - Current timestamp (defaults to each entity's clock)
    */
-  checkExpiredEffectsForEntities(entities: Entity[], currentTime: number = Date.now()): boolean {
+  checkExpiredEffectsForEntities(entities: Entity[], currentTime?: number): boolean {
     let anyChanges = false;
     
     for (const entity of entities) {
-      if (this.checkExpiredEffectsForEntity(entity, currentTime)) {
+      if (this.checkExpiredEffectsForEntity(entity, currentTime ?? entity.context.clock.now())) {
         anyChanges = true;
       }
     }
     
     return anyChanges;
   }
-  
-  /**
-   * Setup event handling
-   */
-  private setupEventHandling(): void {
-    // Subscribe to all relevant events
-    Object.values(EventType).forEach(eventType => {
-      eventSystem.on(eventType, (event) => {
-        // This would need to be connected to entity management
-        // For now, we'll handle it in the examples
-      });
-    });
-  }
 }
 
 /**
@@ -13,6 +13,8 @@ import {
   DEFAULT_BOUND_THRESHOLDS
 } from './types';
 import { StatBoundCalculator } from './StatBoundCalculator';
+import { RNGManager, RNGGenerator, rngManager, isWeightedGenerator, isGaussianGenerator } from './RNG';
+import { StatExpression } from './StatExpression';
 
 // ===== Applicability Components =====
 
@@ -97,13 +99,63 @@ export class BoundStateApplicable implements EffectApplicability {
   }
 }
 
+/**
+ * Applicable when a boolean stat expression holds (e.g. "health / maxHealth < 0.25")
+ */
+export class ExpressionApplicable implements EffectApplicability {
+  public readonly expression: StatExpression;
+
+  constructor(expression: StatExpression | string) {
+    this.expression = typeof expression === 'string'
+      ? StatExpression.compile(expression, { expectedType: 'boolean' })
+      : expression;
+  }
+
+  isApplicable(context: EffectContext): boolean {
+    return this.expression.evaluateBoolean(context.currentStats);
+  }
+}
+
+/**
+ * Applicable when every child condition is applicable
+ */
+export class AllApplicable implements EffectApplicability {
+  constructor(private readonly conditions: EffectApplicability[]) {}
+
+  isApplicable(context: EffectContext): boolean {
+    return this.conditions.every(condition => condition.isApplicable(context));
+  }
+}
+
+/**
+ * Applicable when any child condition is applicable
+ */
+export class AnyApplicable implements EffectApplicability {
+  constructor(private readonly conditions: EffectApplicability[]) {}
+
+  isApplicable(context: EffectContext): boolean {
+    return this.conditions.some(condition => condition.isApplicable(context));
+  }
+}
+
+/**
+ * Applicable when the child condition is not applicable
+ */
+export class NotApplicable implements EffectApplicability {
+  constructor(private readonly condition: EffectApplicability) {}
+
+  isApplicable(context: EffectContext): boolean {
+    return !this.condition.isApplicable(context);
+  }
+}
+
 // ===== Impact Components =====
 
 /**
  * Fixed additive impact
  */
 export class AdditiveImpact implements EffectImpact {
-  constructor(private readonly value: StatValue) {}
+  constructor(public readonly value: StatValue) {}
 
   calculateImpact(context: EffectContext, statType: StatType): StatValue {
     return this.value;
@@ -114,7 +166,7 @@ export class AdditiveImpact implements EffectImpact {
  * Fixed multiplicative impact
  */
 export class MultiplicativeImpact implements EffectImpact {
-  constructor(private readonly factor: StatValue) {}
+  constructor(public readonly factor: StatValue) {}
 
   calculateImpact(context: EffectContext, statType: StatType): StatValue {
     const current = context.currentStats.get(statType) ?? 0;
@@ -126,7 +178,7 @@ export class MultiplicativeImpact implements EffectImpact {
  * Percentage-based impact
  */
 export class PercentageImpact implements EffectImpact {
-  constructor(private readonly percentage: StatValue) {}
+  constructor(public readonly percentage: StatValue) {}
 
   calculateImpact(context: EffectContext, statType: StatType): StatValue {
     const current = context.currentStats.get(statType) ?? 0;
@@ -166,6 +218,25 @@ export class StatBasedImpact implements EffectImpact {
   }
 }
 
+/**
+ * Impact computed from a stat expression; `value` refers to the target stat
+ */
+export class ExpressionImpact implements EffectImpact {
+  public readonly expression: StatExpression;
+
+  constructor(expression: StatExpression | string) {
+    this.expression = typeof expression === 'string'
+      ? StatExpression.compile(expression, { expectedType: 'number', variables: ['value'] })
+      : expression;
+  }
+
+  calculateImpact(context: EffectContext, statType: StatType): StatValue {
+    return this.expression.evaluateNumber(context.currentStats, {
+      value: context.currentStats.get(statType) ?? 0
+    });
+  }
+}
+
 /**
  * Function-based impact
  */
@@ -279,7 +350,7 @@ export class MultiplicativeApplication implements EffectApplication {
  * Set value application (sets to specific value)
  */
 export class SetValueApplication implements EffectApplication {
-  constructor(private readonly baseValue: StatValue) {}
+  constructor(public readonly baseValue: StatValue) {}
 
   applyImpact(context: EffectContext, stats: StatMap, statType: StatType, impact: StatValue): void {
     stats.set(statType, this.baseValue + impact);
@@ -325,18 +396,43 @@ export class FunctionBasedApplication implements EffectApplication {
 
 // ===== RNG-Specific Components =====
 
+/**
+ * Resolve the RNG manager for an evaluation (the entity's simulation context, or the global one)
+ */
+function resolveRNGManager(context: EffectContext): RNGManager {
+  return context.rngManager ?? rngManager;
+}
+
+/**
+ * Pick one of several weighted choices with the context's `weighted` generator, or with `rng` when there is none
+ */
+function pickWeighted<C extends { readonly weight: number }>(context: EffectContext, rng: RNGGenerator, choices: C[]): C | undefined {
+  const weightedRNG = resolveRNGManager(context).getGenerator('weighted');
+  if (isWeightedGenerator(weightedRNG)) {
+    return weightedRNG.weightedChoice(choices.map(choice => ({ value: choice, weight: choice.weight })));
+  }
+
+  const totalWeight = choices.reduce((sum, choice) => sum + choice.weight, 0);
+  let randomValue = rng.random() * totalWeight;
+  for (const choice of choices) {
+    randomValue -= choice.weight;
+    if (randomValue <= 0) return choice;
+  }
+  return undefined;
+}
+
 /**
  * RNG-based applicability (chance-based)
  */
 export class RNGApplicable implements EffectApplicability {
   constructor(
     private readonly probability: number,
-    private readonly rng: any = null // Will be injected from context
+    private readonly rng: RNGGenerator | null = null // Falls back to the context's RNG manager
   ) {}
 
   isApplicable(context: EffectContext): boolean {
-    // Get RNG from instance or use default
-    const rng = this.rng || require('./RNG').rngManager.getDefaultGenerator();
+    // Get RNG from instance or use the context default
+    const rng = this.rng ?? resolveRNGManager(context).getDefaultGenerator();
     return rng.chance(this.probability);
   }
 }
@@ -349,15 +445,15 @@ export class RandomImpact implements EffectImpact {
     private readonly range: { min: number; max: number },
     private readonly distribution: 'uniform' | 'gaussian' = 'uniform',
     private readonly gaussianParams?: { mean: number; standardDeviation: number },
-    private readonly rng: any = null
+    private readonly rng: RNGGenerator | null = null
   ) {}
 
   calculateImpact(context: EffectContext, statType: StatType): StatValue {
-    const rng = this.rng || null || require('./RNG').rngManager.getDefaultGenerator();
+    const rng = this.rng ?? resolveRNGManager(context).getDefaultGenerator();
     
     if (this.distribution === 'gaussian' && this.gaussianParams) {
-      const gaussianRNG = require('./RNG').rngManager.getGenerator('gaussian');
-      if (gaussianRNG && typeof gaussianRNG.gaussianInRange === 'function') {
+      const gaussianRNG = resolveRNGManager(context).getGenerator('gaussian');
+      if (isGaussianGenerator(gaussianRNG)) {
         return gaussianRNG.gaussianInRange(this.range, this.gaussianParams);
       }
     }
@@ -372,35 +468,17 @@ export class RandomImpact implements EffectImpact {
 export class WeightedRandomImpact implements EffectImpact {
   constructor(
     private readonly choices: Array<{ value: { statType: StatType; value: StatValue }; weight: number }>,
-    private readonly rng: any = null
+    private readonly rng: RNGGenerator | null = null
   ) {}
 
   calculateImpact(context: EffectContext, statType: StatType): StatValue {
-    const rng = this.rng || null || require('./RNG').rngManager.getDefaultGenerator();
+    const rng = this.rng ?? resolveRNGManager(context).getDefaultGenerator();
     
     // Find the choice that matches the target stat type
     const relevantChoices = this.choices.filter(choice => choice.value.statType === statType);
     if (relevantChoices.length === 0) return 0;
     
-    const weightedRNG = require('./RNG').rngManager.getGenerator('weighted');
-    let selectedChoice;
-    
-    if (weightedRNG && typeof weightedRNG.weightedChoice === 'function') {
-      selectedChoice = weightedRNG.weightedChoice(relevantChoices);
-    } else {
-      // Fallback to simple random selection
-      const totalWeight = relevantChoices.reduce((sum, choice) => sum + choice.weight, 0);
-      let randomValue = rng.random() * totalWeight;
-      
-      for (const choice of relevantChoices) {
-        randomValue -= choice.weight;
-        if (randomValue <= 0) {
-          selectedChoice = choice;
-          break;
-        }
-      }
-    }
-    
+    const selectedChoice = pickWeighted(context, rng, relevantChoices);
     return selectedChoice ? selectedChoice.value.value : 0;
   }
 }
@@ -426,31 +504,12 @@ export class ConditionalRandomImpact implements EffectImpact {
 export class RNGTarget implements EffectTarget {
   constructor(
     private readonly choices: Array<{ statTypes: StatType[]; weight: number }>,
-    private readonly rng: any = null
+    private readonly rng: RNGGenerator | null = null
   ) {}
 
   getTargets(context: EffectContext): StatType[] {
-    const rng = this.rng || null || require('./RNG').rngManager.getDefaultGenerator();
-    
-    const weightedRNG = require('./RNG').rngManager.getGenerator('weighted');
-    let selectedChoice;
-    
-    if (weightedRNG && typeof weightedRNG.weightedChoice === 'function') {
-      selectedChoice = weightedRNG.weightedChoice(this.choices);
-    } else {
-      // Fallback to simple random selection
-      const totalWeight = this.choices.reduce((sum, choice) => sum + choice.weight, 0);
-      let randomValue = rng.random() * totalWeight;
-      
-      for (const choice of this.choices) {
-        randomValue -= choice.weight;
-        if (randomValue <= 0) {
-          selectedChoice = choice;
-          break;
-        }
-      }
-    }
-    
+    const rng = this.rng ?? resolveRNGManager(context).getDefaultGenerator();
+    const selectedChoice = pickWeighted(context, rng, this.choices);
     return selectedChoice ? selectedChoice.statTypes : [];
   }
 }
@@ -462,18 +521,18 @@ export class ChanceBasedApplication implements EffectApplication {
   constructor(
     private readonly probability: number,
     private readonly baseApplication: EffectApplication,
-    private readonly rng: any = null
+    private readonly rng: RNGGenerator | null = null
   ) {}
 
   applyImpact(context: EffectContext, stats: StatMap, statType: StatType, impact: StatValue): void {
-    const rng = this.rng || null || require('./RNG').rngManager.getDefaultGenerator();
+    const rng = this.rng ?? resolveRNGManager(context).getDefaultGenerator();
     if (rng.chance(this.probability)) {
       this.baseApplication.applyImpact(context, stats, statType, impact);
     }
   }
 
   reverseImpact(context: EffectContext, stats: StatMap, statType: StatType, impact: StatValue): void {
-    const rng = this.rng || null || require('./RNG').rngManager.getDefaultGenerator();
+    const rng = this.rng ?? resolveRNGManager(context).getDefaultGenerator();
     if (rng.chance(this.probability)) {
       this.baseApplication.reverseImpact(context, stats, statType, impact);
     }
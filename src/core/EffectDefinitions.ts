@@ -0,0 +1,748 @@
+import {
+  EffectApplicability,
+  EffectImpact,
+  EffectTarget,
+  EffectApplication,
+  StatType,
+  StatStackability,
+  StatBoundConfig,
+  BoundThresholdConfig,
+  BoundFunctionSource,
+  StackPolicy,
+  StackingRule,
+  DEFAULT_BOUND_THRESHOLDS
+} from './types';
+import { ComposedEffect } from './ComposedEffect';
+import {
+  AlwaysApplicable,
+  StatThresholdApplicable,
+  BoundStateApplicable,
+  RNGApplicable,
+  ExpressionApplicable,
+  AllApplicable,
+  AnyApplicable,
+  NotApplicable,
+  AdditiveImpact,
+  MultiplicativeImpact,
+  PercentageImpact,
+  StatBasedImpact,
+  RandomImpact,
+  ExpressionImpact,
+  SingleStatTarget,
+  MultipleStatTarget,
+  RNGTarget,
+  AdditiveApplication,
+  MultiplicativeApplication,
+  PercentageApplication,
+  SetValueApplication,
+  ChanceBasedApplication
+} from './EffectComponents';
+import { StatBoundCalculator } from './StatBoundCalculator';
+import { StatExpression, StatExpressionError, StatExpressionOptions } from './StatExpression';
+
+// ===== Definition Schema =====
+
+export type ComparisonOperator = '>' | '<' | '>=' | '<=' | '==' | '!=';
+
+/**
+ * Declarative bound (fixed values or references to other stats)
+ */
+export interface BoundDefinition {
+  readonly min?: number | BoundFunctionSource;
+  readonly max?: number | BoundFunctionSource;
+  readonly clampToBounds?: boolean;
+}
+
+/**
+ * When an effect applies (mirrors the applicability components)
+ */
+export type ApplicabilityDefinition =
+  | { readonly type: 'always' }
+  | { readonly type: 'stat_threshold'; readonly stat: StatType; readonly operator: ComparisonOperator; readonly threshold: number }
+  | { readonly type: 'bound_state'; readonly stat: StatType; readonly bounds: BoundDefinition; readonly states: string[]; readonly thresholds?: BoundThresholdConfig }
+  | { readonly type: 'chance'; readonly probability: number }
+  | { readonly type: 'expression'; readonly expression: string }
+  | { readonly type: 'all'; readonly of: ApplicabilityDefinition[] }
+  | { readonly type: 'any'; readonly of: ApplicabilityDefinition[] }
+  | { readonly type: 'not'; readonly of: ApplicabilityDefinition };
+
+/**
+ * How much an effect changes a stat (mirrors the impact components)
+ */
+export type ImpactDefinition =
+  | { readonly type: 'additive'; readonly value: number }
+  | { readonly type: 'multiplicative'; readonly factor: number }
+  | { readonly type: 'percentage'; readonly percentage: number }
+  | { readonly type: 'stat_based'; readonly stat: StatType; readonly multiplier?: number }
+  | { readonly type: 'random'; readonly min: number; readonly max: number; readonly distribution?: 'uniform' | 'gaussian'; readonly mean?: number; readonly standardDeviation?: number }
+  | { readonly type: 'expression'; readonly expression: string }; // `value` is the target stat's current value
+
+/**
+ * Which stats an effect changes (mirrors the target components)
+ */
+export type TargetDefinition =
+  | { readonly type: 'single'; readonly stat: StatType }
+  | { readonly type: 'multiple'; readonly stats: StatType[] }
+  | { readonly type: 'random'; readonly choices: Array<{ readonly stats: StatType[]; readonly weight: number }> };
+
+/**
+ * How the impact is applied (mirrors the application components)
+ */
+export type ApplicationDefinition =
+  | { readonly type: 'additive' }
+  | { readonly type: 'multiplicative' }
+  | { readonly type: 'percentage' }
+  | { readonly type: 'set_value'; readonly baseValue: number }
+  | { readonly type: 'chance'; readonly probability: number; readonly application: ApplicationDefinition };
+
+/**
+ * Declarative definition of a composed effect
+ */
+export interface EffectDefinition {
+  readonly id: string;
+  readonly name: string;
+  readonly priority?: number;
+  readonly stackable?: boolean; // Applies to every targeted stat (default: true)
+  readonly tags?: string[];
+  readonly stacking?: { readonly policy: `${StackPolicy}`; readonly maxStacks?: number };
+  readonly applicability?: ApplicabilityDefinition; // Default: always
+  readonly impact: ImpactDefinition;
+  readonly target: TargetDefinition;
+  readonly application: ApplicationDefinition;
+}
+
+/**
+ * Document holding several effect definitions
+ */
+export interface EffectDefinitionDocument {
+  readonly effects: EffectDefinition[];
+}
+
+/**
+ * Options for validating and loading definitions
+ */
+export interface EffectDefinitionOptions {
+  readonly knownStats?: Iterable<StatType>; // Reject references to any other stat
+}
+
+/**
+ * A single problem found while validating a definition
+ */
+export interface EffectDefinitionIssue {
+  readonly path: string;
+  readonly message: string;
+}
+
+/**
+ * Error raised for invalid effect definitions, listing every issue found
+ */
+export class EffectDefinitionError extends Error {
+  constructor(public readonly issues: EffectDefinitionIssue[]) {
+    super(`Invalid effect definition:\n${issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n')}`);
+    this.name = 'EffectDefinitionError';
+  }
+}
+
+/**
+ * Composed effect built from a declarative definition
+ */
+export class DefinedEffect extends ComposedEffect {
+  constructor(
+    public readonly definition: EffectDefinition,
+    statTypes: StatType[],
+    stackabilityRules: StatStackability[],
+    applicability: EffectApplicability,
+    impact: EffectImpact,
+    target: EffectTarget,
+    application: EffectApplication
+  ) {
+    super(
+      definition.id,
+      definition.name,
+      definition.priority ?? 0,
+      statTypes,
+      stackabilityRules,
+      applicability,
+      impact,
+      target,
+      application,
+      definition.tags ?? [],
+      definition.stacking as StackingRule | undefined,
+      definitionReads(definition),
+      usesChance(definition)
+    );
+  }
+}
+
+/**
+ * Stats a definition reads, or undefined when it cannot be known
+ */
+function definitionReads(definition: EffectDefinition): StatType[] | undefined {
+  const reads = applicabilityReads(definition.applicability);
+  switch (definition.impact.type) {
+    case 'stat_based':
+      return reads && [...reads, definition.impact.stat];
+    case 'expression':
+      return reads && [...reads, ...StatExpression.compile(definition.impact.expression, { variables: ['value'] }).statReferences];
+    default:
+      return reads;
+  }
+}
+
+/**
+ * Stats an applicability definition reads, or undefined when it cannot be known
+ */
+function applicabilityReads(definition: ApplicabilityDefinition | undefined): StatType[] | undefined {
+  if (!definition) return [];
+  switch (definition.type) {
+    case 'always':
+    case 'chance':
+      return [];
+    case 'stat_threshold':
+      return [definition.stat];
+    case 'bound_state': {
+      // Bounds that reference other stats read them too
+      const { min, max } = definition.bounds;
+      return typeof (min ?? 0) === 'number' && typeof (max ?? 0) === 'number' ? [definition.stat] : undefined;
+    }
+    case 'expression':
+      return [...StatExpression.compile(definition.expression).statReferences];
+    case 'all':
+    case 'any': {
+      const reads = definition.of.map(applicabilityReads);
+      return reads.every(stats => stats !== undefined) ? Array.from(new Set(reads.flat() as StatType[])) : undefined;
+    }
+    case 'not':
+      return applicabilityReads(definition.of);
+  }
+}
+
+/**
+ * Whether a definition rolls dice when it is checked or applied
+ */
+function usesChance(definition: EffectDefinition): boolean {
+  const applicabilityUsesChance = (applicability: ApplicabilityDefinition | undefined): boolean => {
+    if (!applicability) return false;
+    switch (applicability.type) {
+      case 'chance': return true;
+      case 'all':
+      case 'any': return applicability.of.some(applicabilityUsesChance);
+      case 'not': return applicabilityUsesChance(applicability.of);
+      default: return false;
+    }
+  };
+  return applicabilityUsesChance(definition.applicability)
+    || definition.impact.type === 'random'
+    || definition.target.type === 'random'
+    || definition.application.type === 'chance';
+}
+
+// ===== Validation =====
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['>', '<', '>=', '<=', '==', '!='];
+const THRESHOLD_NAMES: (keyof BoundThresholdConfig)[] = ['critical', 'low', 'high', 'full', 'empty'];
+
+class DefinitionValidator {
+  readonly issues: EffectDefinitionIssue[] = [];
+  private readonly _knownStats?: Set<StatType>;
+
+  constructor(options: EffectDefinitionOptions) {
+    this._knownStats = options.knownStats ? new Set(options.knownStats) : undefined;
+  }
+
+  fail(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+
+  object(value: unknown, path: string): value is Record<string, any> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.fail(path, `expected an object, got ${describe(value)}`);
+      return false;
+    }
+    return true;
+  }
+
+  string(value: unknown, path: string): boolean {
+    if (typeof value !== 'string' || value.length === 0) {
+      this.fail(path, `expected a non-empty string, got ${describe(value)}`);
+      return false;
+    }
+    return true;
+  }
+
+  number(value: unknown, path: string): boolean {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(path, `expected a number, got ${describe(value)}`);
+      return false;
+    }
+    return true;
+  }
+
+  probability(value: unknown, path: string): void {
+    if (this.number(value, path) && ((value as number) < 0 || (value as number) > 1)) {
+      this.fail(path, `expected a probability between 0 and 1, got ${value}`);
+    }
+  }
+
+  optionalNumber(value: unknown, path: string): void {
+    if (value !== undefined) this.number(value, path);
+  }
+
+  optionalPositiveInteger(value: unknown, path: string): void {
+    if (value !== undefined && (!Number.isInteger(value) || (value as number) < 1)) {
+      this.fail(path, `expected a positive integer, got ${describe(value)}`);
+    }
+  }
+
+  optionalBoolean(value: unknown, path: string): void {
+    if (value !== undefined && typeof value !== 'boolean') {
+      this.fail(path, `expected a boolean, got ${describe(value)}`);
+    }
+  }
+
+  stat(value: unknown, path: string): void {
+    if (this.string(value, path) && this._knownStats && !this._knownStats.has(value as StatType)) {
+      this.fail(path, `unknown stat ${describe(value)}`);
+    }
+  }
+
+  statArray(value: unknown, path: string): void {
+    if (!Array.isArray(value) || value.length === 0) {
+      this.fail(path, `expected a non-empty array of stats, got ${describe(value)}`);
+      return;
+    }
+    value.forEach((item, index) => this.stat(item, `${path}[${index}]`));
+  }
+
+  stringArray(value: unknown, path: string): boolean {
+    if (!Array.isArray(value) || value.length === 0) {
+      this.fail(path, `expected a non-empty array of strings, got ${describe(value)}`);
+      return false;
+    }
+    value.forEach((item, index) => this.string(item, `${path}[${index}]`));
+    return true;
+  }
+
+  expression(value: unknown, path: string, options: StatExpressionOptions): void {
+    if (!this.string(value, path)) return;
+    try {
+      StatExpression.compile(value as string, { ...options, knownStats: this._knownStats });
+    } catch (error) {
+      if (!(error instanceof StatExpressionError)) throw error;
+      this.fail(path, `${error.reason} at position ${error.position} in ${JSON.stringify(value)}`);
+    }
+  }
+
+  oneOf<T>(value: unknown, allowed: readonly T[], path: string): void {
+    if (!allowed.includes(value as T)) {
+      this.fail(path, `expected one of ${allowed.map(item => JSON.stringify(item)).join(', ')}, got ${describe(value)}`);
+    }
+  }
+
+  tagged(value: unknown, path: string, allowed: readonly string[]): Record<string, any> | undefined {
+    if (!this.object(value, path)) return undefined;
+    if (!allowed.includes(value.type)) {
+      this.fail(`${path}.type`, `expected one of ${allowed.map(item => `"${item}"`).join(', ')}, got ${describe(value.type)}`);
+      return undefined;
+    }
+    return value;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'nothing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
+
+// ===== Loader =====
+
+/**
+ * Validates declarative effect definitions and builds composed effects from them
+ */
+export class EffectDefinitionLoader {
+  /**
+   * Validate a single definition
+   * @returns Every issue found (empty when valid)
+   */
+  static validate(definition: unknown, path: string = '$', options: EffectDefinitionOptions = {}): EffectDefinitionIssue[] {
+    const validator = new DefinitionValidator(options);
+    this.validateDefinition(validator, definition, path);
+    return validator.issues;
+  }
+
+  /**
+   * Validate a document of definitions
+   * @returns Every issue found (empty when valid)
+   */
+  static validateDocument(document: unknown, options: EffectDefinitionOptions = {}): EffectDefinitionIssue[] {
+    const validator = new DefinitionValidator(options);
+    const definitions = this.extractDefinitions(validator, document);
+    if (!definitions) return validator.issues;
+
+    const seenIds = new Map<string, number>();
+    definitions.forEach((definition, index) => {
+      const path = Array.isArray(document) ? `$[${index}]` : `$.effects[${index}]`;
+      const id = this.validateDefinition(validator, definition, path)?.id;
+      if (typeof id === 'string') {
+        if (seenIds.has(id)) {
+          validator.fail(`${path}.id`, `duplicate id "${id}" (first defined at index ${seenIds.get(id)})`);
+        } else {
+          seenIds.set(id, index);
+        }
+      }
+    });
+
+    return validator.issues;
+  }
+
+  /**
+   * Build an effect from a single definition
+   * @throws EffectDefinitionError if the definition is invalid
+   */
+  static loadEffect(definition: unknown, options: EffectDefinitionOptions = {}): DefinedEffect {
+    const issues = this.validate(definition, '$', options);
+    if (issues.length > 0) {
+      throw new EffectDefinitionError(issues);
+    }
+    return this.build(definition as EffectDefinition);
+  }
+
+  /**
+   * Build effects from a document (`{ effects: [...] }` or a bare array)
+   * @throws EffectDefinitionError if any definition is invalid
+   */
+  static load(document: unknown, options: EffectDefinitionOptions = {}): DefinedEffect[] {
+    const issues = this.validateDocument(document, options);
+    if (issues.length > 0) {
+      throw new EffectDefinitionError(issues);
+    }
+
+    const definitions = Array.isArray(document) ? document : (document as EffectDefinitionDocument).effects;
+    return definitions.map(definition => this.build(definition));
+  }
+
+  /**
+   * Parse and build effects from JSON or YAML text
+   * @param text - The document text
+   * @param format - Text format
+   * @param parser - Parser for formats other than JSON (e.g. `parse` from the `yaml` package)
+   * @param options - Validation options
+   * @throws EffectDefinitionError if the text cannot be parsed or is invalid
+   */
+  static loadFromText(
+    text: string,
+    format: 'json' | 'yaml' = 'json',
+    parser?: (text: string) => unknown,
+    options: EffectDefinitionOptions = {}
+  ): DefinedEffect[] {
+    let document: unknown;
+
+    if (parser) {
+      document = this.parseWith(parser, text);
+    } else if (format === 'json') {
+      document = this.parseWith(JSON.parse, text);
+    } else {
+      throw new Error('YAML documents require a parser, e.g. loadFromText(text, "yaml", YAML.parse)');
+    }
+
+    return this.load(document, options);
+  }
+
+  private static parseWith(parser: (text: string) => unknown, text: string): unknown {
+    try {
+      return parser(text);
+    } catch (error) {
+      throw new EffectDefinitionError([{ path: '$', message: `could not parse document: ${(error as Error).message}` }]);
+    }
+  }
+
+  private static extractDefinitions(validator: DefinitionValidator, document: unknown): unknown[] | undefined {
+    if (Array.isArray(document)) return document;
+    if (!validator.object(document, '$')) return undefined;
+    if (!Array.isArray(document.effects)) {
+      validator.fail('$.effects', `expected an array of effect definitions, got ${describe(document.effects)}`);
+      return undefined;
+    }
+    return document.effects;
+  }
+
+  private static validateDefinition(validator: DefinitionValidator, definition: unknown, path: string): Record<string, any> | undefined {
+    if (!validator.object(definition, path)) return undefined;
+
+    validator.string(definition.id, `${path}.id`);
+    validator.string(definition.name, `${path}.name`);
+    validator.optionalNumber(definition.priority, `${path}.priority`);
+    validator.optionalBoolean(definition.stackable, `${path}.stackable`);
+    if (definition.tags !== undefined) validator.stringArray(definition.tags, `${path}.tags`);
+    if (definition.stacking !== undefined && validator.object(definition.stacking, `${path}.stacking`)) {
+      validator.oneOf(definition.stacking.policy, Object.values(StackPolicy), `${path}.stacking.policy`);
+      validator.optionalPositiveInteger(definition.stacking.maxStacks, `${path}.stacking.maxStacks`);
+    }
+
+    if (definition.applicability !== undefined) {
+      this.validateApplicability(validator, definition.applicability, `${path}.applicability`);
+    }
+    this.validateImpact(validator, definition.impact, `${path}.impact`);
+    this.validateTarget(validator, definition.target, `${path}.target`);
+    this.validateApplication(validator, definition.application, `${path}.application`);
+    return definition;
+  }
+
+  private static validateApplicability(validator: DefinitionValidator, value: unknown, path: string): void {
+    const definition = validator.tagged(value, path, ['always', 'stat_threshold', 'bound_state', 'chance', 'expression', 'all', 'any', 'not']);
+    if (!definition) return;
+
+    switch (definition.type) {
+      case 'stat_threshold':
+        validator.stat(definition.stat, `${path}.stat`);
+        validator.oneOf(definition.operator, COMPARISON_OPERATORS, `${path}.operator`);
+        validator.number(definition.threshold, `${path}.threshold`);
+        break;
+      case 'bound_state':
+        validator.stat(definition.stat, `${path}.stat`);
+        this.validateBounds(validator, definition.bounds, `${path}.bounds`);
+        validator.stringArray(definition.states, `${path}.states`);
+        if (definition.thresholds !== undefined && validator.object(definition.thresholds, `${path}.thresholds`)) {
+          for (const [name, threshold] of Object.entries(definition.thresholds)) {
+            if (THRESHOLD_NAMES.includes(name as keyof BoundThresholdConfig)) {
+              validator.number(threshold, `${path}.thresholds.${name}`);
+            } else {
+              validator.fail(`${path}.thresholds.${name}`, `unknown threshold, expected one of ${THRESHOLD_NAMES.map(item => `"${item}"`).join(', ')}`);
+            }
+          }
+        }
+        break;
+      case 'chance':
+        validator.probability(definition.probability, `${path}.probability`);
+        break;
+      case 'expression':
+        validator.expression(definition.expression, `${path}.expression`, { expectedType: 'boolean' });
+        break;
+      case 'all':
+      case 'any':
+        if (!Array.isArray(definition.of) || definition.of.length === 0) {
+          validator.fail(`${path}.of`, `expected a non-empty array, got ${describe(definition.of)}`);
+        } else {
+          definition.of.forEach((child: unknown, index: number) =>
+            this.validateApplicability(validator, child, `${path}.of[${index}]`)
+          );
+        }
+        break;
+      case 'not':
+        this.validateApplicability(validator, definition.of, `${path}.of`);
+        break;
+    }
+  }
+
+  private static validateBounds(validator: DefinitionValidator, value: unknown, path: string): void {
+    if (!validator.object(value, path)) return;
+
+    for (const key of ['min', 'max']) {
+      const bound = value[key];
+      if (bound === undefined || typeof bound === 'number') continue;
+      if (!validator.object(bound, `${path}.${key}`)) continue;
+      if (bound.kind === 'expression') {
+        validator.expression(bound.expression, `${path}.${key}.expression`, { expectedType: 'number' });
+      } else {
+        validator.oneOf(bound.kind, ['stat', 'expression'], `${path}.${key}.kind`);
+        validator.stat(bound.statType, `${path}.${key}.statType`);
+        validator.number(bound.fallback, `${path}.${key}.fallback`);
+      }
+    }
+    validator.optionalBoolean(value.clampToBounds, `${path}.clampToBounds`);
+  }
+
+  private static validateImpact(validator: DefinitionValidator, value: unknown, path: string): void {
+    const definition = validator.tagged(value, path, ['additive', 'multiplicative', 'percentage', 'stat_based', 'random', 'expression']);
+    if (!definition) return;
+
+    switch (definition.type) {
+      case 'additive':
+        validator.number(definition.value, `${path}.value`);
+        break;
+      case 'multiplicative':
+        validator.number(definition.factor, `${path}.factor`);
+        break;
+      case 'percentage':
+        validator.number(definition.percentage, `${path}.percentage`);
+        break;
+      case 'stat_based':
+        validator.stat(definition.stat, `${path}.stat`);
+        validator.optionalNumber(definition.multiplier, `${path}.multiplier`);
+        break;
+      case 'random':
+        if (validator.number(definition.min, `${path}.min`) && validator.number(definition.max, `${path}.max`)
+            && definition.min > definition.max) {
+          validator.fail(`${path}.max`, `must be at least min (${definition.min}), got ${definition.max}`);
+        }
+        if (definition.distribution !== undefined) {
+          validator.oneOf(definition.distribution, ['uniform', 'gaussian'], `${path}.distribution`);
+        }
+        if (definition.distribution === 'gaussian') {
+          validator.number(definition.mean, `${path}.mean`);
+          validator.number(definition.standardDeviation, `${path}.standardDeviation`);
+        }
+        break;
+      case 'expression':
+        validator.expression(definition.expression, `${path}.expression`, { expectedType: 'number', variables: ['value'] });
+        break;
+    }
+  }
+
+  private static validateTarget(validator: DefinitionValidator, value: unknown, path: string): void {
+    const definition = validator.tagged(value, path, ['single', 'multiple', 'random']);
+    if (!definition) return;
+
+    switch (definition.type) {
+      case 'single':
+        validator.stat(definition.stat, `${path}.stat`);
+        break;
+      case 'multiple':
+        validator.statArray(definition.stats, `${path}.stats`);
+        break;
+      case 'random':
+        if (!Array.isArray(definition.choices) || definition.choices.length === 0) {
+          validator.fail(`${path}.choices`, `expected a non-empty array, got ${describe(definition.choices)}`);
+          break;
+        }
+        definition.choices.forEach((choice: unknown, index: number) => {
+          const choicePath = `${path}.choices[${index}]`;
+          if (validator.object(choice, choicePath)) {
+            validator.statArray(choice.stats, `${choicePath}.stats`);
+            validator.number(choice.weight, `${choicePath}.weight`);
+          }
+        });
+        break;
+    }
+  }
+
+  private static validateApplication(validator: DefinitionValidator, value: unknown, path: string): void {
+    const definition = validator.tagged(value, path, ['additive', 'multiplicative', 'percentage', 'set_value', 'chance']);
+    if (!definition) return;
+
+    switch (definition.type) {
+      case 'set_value':
+        validator.number(definition.baseValue, `${path}.baseValue`);
+        break;
+      case 'chance':
+        validator.probability(definition.probability, `${path}.probability`);
+        this.validateApplication(validator, definition.application, `${path}.application`);
+        break;
+    }
+  }
+
+  // ===== Building =====
+
+  private static build(definition: EffectDefinition): DefinedEffect {
+    const statTypes = this.targetStatTypes(definition.target);
+    const stackable = definition.stackable ?? true;
+
+    return new DefinedEffect(
+      definition,
+      statTypes,
+      statTypes.map(statType => ({ statType, stackable })),
+      this.buildApplicability(definition.applicability ?? { type: 'always' }),
+      this.buildImpact(definition.impact),
+      this.buildTarget(definition.target),
+      this.buildApplication(definition.application)
+    );
+  }
+
+  private static targetStatTypes(target: TargetDefinition): StatType[] {
+    switch (target.type) {
+      case 'single': return [target.stat];
+      case 'multiple': return [...target.stats];
+      case 'random': return Array.from(new Set(target.choices.flatMap(choice => choice.stats)));
+    }
+  }
+
+  private static buildApplicability(definition: ApplicabilityDefinition): EffectApplicability {
+    switch (definition.type) {
+      case 'always':
+        return new AlwaysApplicable();
+      case 'stat_threshold':
+        return new StatThresholdApplicable(definition.stat, definition.operator, definition.threshold);
+      case 'bound_state':
+        return new BoundStateApplicable(
+          definition.stat,
+          this.buildBounds(definition.bounds),
+          definition.states,
+          definition.thresholds ?? DEFAULT_BOUND_THRESHOLDS
+        );
+      case 'chance':
+        return new RNGApplicable(definition.probability);
+      case 'expression':
+        return new ExpressionApplicable(definition.expression);
+      case 'all':
+        return new AllApplicable(definition.of.map(child => this.buildApplicability(child)));
+      case 'any':
+        return new AnyApplicable(definition.of.map(child => this.buildApplicability(child)));
+      case 'not':
+        return new NotApplicable(this.buildApplicability(definition.of));
+    }
+  }
+
+  private static buildBounds(definition: BoundDefinition): StatBoundConfig {
+    const toBound = (bound: number | BoundFunctionSource | undefined) =>
+      bound === undefined || typeof bound === 'number' ? bound : StatBoundCalculator.createBoundFunction(bound);
+
+    return {
+      min: toBound(definition.min),
+      max: toBound(definition.max),
+      clampToBounds: definition.clampToBounds
+    };
+  }
+
+  private static buildImpact(definition: ImpactDefinition): EffectImpact {
+    switch (definition.type) {
+      case 'additive':
+        return new AdditiveImpact(definition.value);
+      case 'multiplicative':
+        return new MultiplicativeImpact(definition.factor);
+      case 'percentage':
+        return new PercentageImpact(definition.percentage);
+      case 'stat_based':
+        return new StatBasedImpact(definition.stat, definition.multiplier ?? 1.0);
+      case 'random':
+        return definition.distribution === 'gaussian'
+          ? new RandomImpact(
+              { min: definition.min, max: definition.max },
+              'gaussian',
+              { mean: definition.mean!, standardDeviation: definition.standardDeviation! }
+            )
+          : new RandomImpact({ min: definition.min, max: definition.max });
+      case 'expression':
+        return new ExpressionImpact(definition.expression);
+    }
+  }
+
+  private static buildTarget(definition: TargetDefinition): EffectTarget {
+    switch (definition.type) {
+      case 'single':
+        return new SingleStatTarget(definition.stat);
+      case 'multiple':
+        return new MultipleStatTarget(definition.stats);
+      case 'random':
+        return new RNGTarget(definition.choices.map(choice => ({ statTypes: choice.stats, weight: choice.weight })));
+    }
+  }
+
+  private static buildApplication(definition: ApplicationDefinition): EffectApplication {
+    switch (definition.type) {
+      case 'additive':
+        return new AdditiveApplication();
+      case 'multiplicative':
+        return new MultiplicativeApplication();
+      case 'percentage':
+        return new PercentageApplication();
+      case 'set_value':
+        return new SetValueApplication(definition.baseValue);
+      case 'chance':
+        return new ChanceBasedApplication(definition.probability, this.buildApplication(definition.application));
+    }
+  }
+}
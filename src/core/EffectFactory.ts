@@ -237,6 +237,7 @@ export class EffectFactory {
       .withStatTypes(effect.statTypes)
       .withStackabilityRules(effect.stackabilityRules)
       .withApplicability(new StatThresholdApplicable(statType, operator, threshold))
+      .withReads(effect.reads && [statType, ...effect.reads])
       .withImpact(new FunctionBasedImpact((context, statType) => 0))
       .withTarget(new MultipleStatTarget(effect.statTypes))
       .withApplication(new FunctionBasedApplication(
@@ -338,6 +339,7 @@ export class EffectFactory {
       .withStackabilityRules([{ statType, stackable }])
       .withApplicability(new AlwaysApplicable())
       .withImpact(new RandomImpact({ min: minValue, max: maxValue }, 'uniform', undefined, rng))
+      .withTimeDependence()
       .withTarget(new SingleStatTarget(statType))
       .withApplication(new AdditiveApplication())
       .build();
@@ -363,6 +365,7 @@ export class EffectFactory {
       .withStackabilityRules([{ statType, stackable }])
       .withApplicability(new AlwaysApplicable())
       .withImpact(new RandomImpact(range, 'gaussian', { mean, standardDeviation }, rng))
+      .withTimeDependence()
       .withTarget(new SingleStatTarget(statType))
       .withApplication(new AdditiveApplication())
       .build();
@@ -392,6 +395,7 @@ export class EffectFactory {
       }))
       .withTarget(new SingleStatTarget(statType))
       .withApplication(new ChanceBasedApplication(probability, new SetValueApplication(0), rng))
+      .withTimeDependence()
       .build();
   }
 
@@ -414,6 +418,7 @@ export class EffectFactory {
       .withStackabilityRules(statTypes.map(statType => ({ statType, stackable })))
       .withApplicability(new AlwaysApplicable())
       .withImpact(new WeightedRandomImpact(choices, rng))
+      .withTimeDependence()
       .withTarget(new MultipleStatTarget(statTypes))
       .withApplication(new AdditiveApplication())
       .build();
@@ -435,6 +440,7 @@ export class EffectFactory {
       .withStatTypes(baseEffect.statTypes)
       .withStackabilityRules(baseEffect.stackabilityRules)
       .withApplicability(new RNGApplicable(probability, rng))
+      .withTimeDependence()
       .withImpact(new FunctionBasedImpact((context, statType) => 0))
       .withTarget(new MultipleStatTarget(baseEffect.statTypes))
       .withApplication(new FunctionBasedApplication(
@@ -468,6 +474,7 @@ export class EffectFactory {
       .withStatTypes(allStatTypes)
       .withStackabilityRules(allStatTypes.map(statType => ({ statType, stackable: true })))
       .withApplicability(new RNGApplicable(triggerProbability, rng))
+      .withTimeDependence()
       .withImpact(new FunctionBasedImpact((context, statType) => 0))
       .withTarget(new MultipleStatTarget(allStatTypes))
       .withApplication(new FunctionBasedApplication(
@@ -8,10 +8,14 @@ import {
   EffectId,
   EffectContext,
   EventType,
+  EffectTags,
   Event,
   StatsCacheEntry,
   EffectCacheEntry,
   EffectTiming,
+  EffectStack,
+  StackPolicy,
+  StackChangeReason,
   ValueProvider,
   ValueRequestContext,
   ValueRequestResult,
@@ -22,13 +26,74 @@ import {
   InteractionNotifier,
   StatBoundConfig,
   StatBoundResult,
+  StatExplanation,
+  StatTraceStatus,
   BoundEventConfig,
   BoundEventData,
   BoundThresholdConfig,
-  DEFAULT_BOUND_THRESHOLDS
+  DEFAULT_BOUND_THRESHOLDS,
+  ResourceDefinition,
+  ResourceState
 } from './types';
 import { StatBoundCalculator } from './StatBoundCalculator';
-import { eventSystem } from './EventSystem';
+import { StatDependencyGraph } from './StatDependencyGraph';
+import { DerivedStatSet } from './DerivedStats';
+import { StatSchema, StatSchemaError } from './StatSchema';
+import { matchesSuppressionRule } from './effects';
+import { SimulationContext, defaultSimulationContext } from './SimulationContext';
+import type { PeriodicProgress } from './PeriodicEffects';
+import {
+  EntityDocument,
+  SerializedEffect,
+  SerializationRegistry,
+  SerializationError,
+  ENTITY_DOCUMENT_SCHEMA,
+  ENTITY_DOCUMENT_VERSION,
+  defaultSerializationRegistry,
+  validateEntityDocument,
+  serializeBoundEventConfig,
+  deserializeBoundEventConfig
+} from './Serialization';
+
+/**
+ * Resource registered on an entity, with what its current value was last adjusted to
+ */
+interface ResourceTracking {
+  readonly definition: ResourceDefinition;
+  lastMax?: StatValue; // Maximum the current value was last clamped or scaled to
+  lastRegenAt: number;
+}
+
+/**
+ * Saved entity state (see `Entity.saveState`)
+ *
+ * Effects, gear and providers are kept by reference; everything else is copied.
+ */
+export interface EntityState {
+  readonly baseStats: Readonly<BaseStats>;
+  readonly effects: ReadonlyMap<EffectId, Effect>;
+  readonly effectTimings: ReadonlyMap<EffectId, EffectTiming>;
+  readonly effectStacks: ReadonlyMap<EffectId, readonly EffectStack[]>;
+  readonly valueProviders: ReadonlyMap<string, ValueProvider>;
+  readonly equippedGear: ReadonlyMap<string, Gear>;
+  readonly gearEffectSlots: ReadonlyMap<EffectId, string>;
+  readonly suppressedEffects: ReadonlyMap<EffectId, EffectId>;
+  readonly interactionModifiers: ReadonlyMap<string, InteractionModifier>;
+  readonly stateAdjusters: ReadonlyMap<string, StateAdjuster>;
+  readonly interactionNotifiers: ReadonlyMap<string, InteractionNotifier>;
+  readonly boundEventConfigs: ReadonlyMap<StatType, BoundEventConfig>;
+  readonly resources: ReadonlyMap<StatType, Readonly<ResourceTracking>>;
+  readonly derivedStats?: DerivedStatSet;
+}
+
+/**
+ * Entity state saved when a transaction begins, restored on rollback
+ */
+interface TransactionSnapshot {
+  readonly state: EntityState;
+  readonly periodicProgress: Map<EffectId, PeriodicProgress>; // Scheduler progress of the entity's periodic effects
+  readonly queuedEvents: number; // Events queued before the transaction began
+}
 
 /**
  * Core Entity class for managing stats and effects
@@ -38,72 +103,297 @@ export class Entity {
   private readonly _baseStats: BaseStats;
   private readonly _effects: Map<EffectId, Effect> = new Map();
   private readonly _effectTimings: Map<EffectId, EffectTiming> = new Map();
-  private readonly _statsCache: Map<string, StatsCacheEntry> = new Map();
+  private readonly _effectStacks: Map<EffectId, EffectStack[]> = new Map(); // stacking effect -> applications, oldest first
+  private _statsCache?: StatsCacheEntry; // Last calculated stats
+  private _statsDirty: boolean = false; // base stats or effects changed since the last calculation
+  private readonly _dirtyStats: Set<StatType> = new Set(); // stats known to be affected by those changes
+  private _statDependencies?: StatDependencyGraph; // built from the effects in the last calculation
   private readonly _effectCache: Map<EffectId, EffectCacheEntry> = new Map();
   private readonly _valueProviders: Map<string, ValueProvider> = new Map();
   private readonly _equippedGear: Map<string, Gear> = new Map(); // slot -> gear
+  private readonly _gearEffectSlots: Map<EffectId, string> = new Map(); // passive effect -> gear slot
+  private readonly _suppressedEffects: Map<EffectId, EffectId> = new Map(); // suppressed effect -> suppressor
   private readonly _interactionModifiers: Map<string, InteractionModifier> = new Map();
   private readonly _stateAdjusters: Map<string, StateAdjuster> = new Map();
   private readonly _interactionNotifiers: Map<string, InteractionNotifier> = new Map();
   private readonly _boundEventConfigs: Map<StatType, BoundEventConfig> = new Map();
   private readonly _previousBoundStates: Map<StatType, string> = new Map();
   private readonly _previousBoundRatios: Map<StatType, number> = new Map();
-  private _lastCalculationTime: number = 0;
+  private readonly _resources: Map<StatType, ResourceTracking> = new Map(); // current stat -> resource
+  private readonly _transactions: TransactionSnapshot[] = []; // open transactions, outermost first
+  private readonly _queuedEvents: Event[] = []; // events held back until the outermost transaction commits
+  private readonly _context: SimulationContext;
+  private _derivedStats?: DerivedStatSet;
+  private _derivedStatsVersion?: number; // version of the derived stats the cached stats were calculated with
+  private _schemaVersion?: number; // version of the stat schema the cached stats were calculated with
   
-  constructor(id: EntityId, baseStats: BaseStats) {
+  /**
+   * @throws StatSchemaError if the context's stat schema rejects a base stat
+   */
+  constructor(
+    id: EntityId,
+    baseStats: BaseStats,
+    context: SimulationContext = defaultSimulationContext,
+    derivedStats?: DerivedStatSet
+  ) {
     this._id = id;
     this._baseStats = { ...baseStats };
+    this._context = context;
+    this._derivedStats = derivedStats;
+    context.statSchema?.validate(baseStats, statType => this.isDerivedStat(statType));
   }
   
   get id(): EntityId {
     return this._id;
   }
   
+  /**
+   * Simulation context this entity emits events into
+   */
+  get context(): SimulationContext {
+    return this._context;
+  }
+  
   get baseStats(): BaseStats {
     return { ...this._baseStats };
   }
   
+  /**
+   * Derived stat definitions this entity calculates, usually shared with others of its kind
+   */
+  get derivedStats(): DerivedStatSet | undefined {
+    return this._derivedStats;
+  }
+  
+  /**
+   * Stat schema from the simulation context, if any
+   */
+  get statSchema(): StatSchema | undefined {
+    return this._context.statSchema;
+  }
+  
+  /**
+   * Use different derived stat definitions (or none)
+   */
+  setDerivedStats(derivedStats: DerivedStatSet | undefined): void {
+    this._derivedStats = derivedStats;
+    this.invalidateCache();
+  }
+  
   /**
    * Get current stats with all effects applied
    */
   getCurrentStats(): StatMap {
-    const cacheKey = this.getCacheKey();
-    const cached = this._statsCache.get(cacheKey);
+    // Definitions can change while entities share them
+    if (this._derivedStatsVersion !== this._derivedStats?.version || this._schemaVersion !== this.statSchema?.version) {
+      this.invalidateCache();
+    }
+    
+    const cached = this._statsCache;
     
-    if (cached && this.isCacheValid(cached)) {
+    if (cached && !this._statsDirty && this.isCacheValid(cached)) {
       return new Map(cached.stats);
     }
     
-    return this.calculateStats();
+    const stats = this.calculateStats();
+    return this._resources.size > 0 ? this.followResourceMaximums(stats) : stats;
   }
   
   /**
    * Calculate stats from base values and active effects
+   * 
+   * When earlier results are cached, only the stats whose inputs changed and
+   * the stats derived from them (see StatDependencyGraph) are recalculated,
+   * by running just the effects that modify them or the stats they read.
    */
   private calculateStats(): StatMap {
-    const stats = new Map<StatType, StatValue>();
+    const baseStats = this.getBaseStatMap();
+    const createContext = (current: StatMap) => this.createEffectContext(current);
     
-    // Start with base stats
-    for (const [statType, value] of Object.entries(this._baseStats)) {
-      stats.set(statType, value);
-    }
-    
-    // Apply effects in priority order
+    // Run unsuppressed effects through the context's staged pipeline
     const sortedEffects = this.getSortedActiveEffects();
-    const context = this.createEffectContext(stats);
+    const suppressed = this.findSuppressedEffects(sortedEffects);
+    const effects = sortedEffects.filter(effect => !suppressed.has(effect.id));
+    
+    const changed = this.getChangedStats(effects);
+    const graph = this._statDependencies!;
+    const affected = changed ? graph.getAffectedStats(changed) : undefined;
+    const required = affected ? graph.getRequiredStats(affected) : undefined;
     
-    for (const effect of sortedEffects) {
-      if (effect.isActive(context)) {
-        effect.apply(context, stats);
+    let stats: StatMap;
+    if (affected && required) {
+      const partial = this._context.statPipeline.calculate(
+        baseStats,
+        effects.filter(effect => effect.statTypes.some(statType => required.has(statType))),
+        createContext,
+        this._derivedStats,
+        this.statSchema
+      );
+      stats = new Map(this._statsCache!.stats);
+      for (const statType of affected) {
+        if (partial.has(statType)) {
+          stats.set(statType, partial.get(statType)!);
+        } else {
+          stats.delete(statType);
+        }
       }
+    } else {
+      stats = this._context.statPipeline.calculate(baseStats, effects, createContext, this._derivedStats, this.statSchema);
     }
     
     // Cache the result
-    this.cacheStats(stats, sortedEffects.map(e => e.id));
+    this._derivedStatsVersion = this._derivedStats?.version;
+    this._schemaVersion = this.statSchema?.version;
+    this._statsDirty = false;
+    this._dirtyStats.clear();
+    this.cacheStats(stats, effects.map(e => e.id));
     
     return stats;
   }
   
+  /**
+   * Stats whose inputs changed since the cached calculation
+   * @param effects - The effects being applied now
+   * @returns The changed stats, or undefined when everything must be recalculated
+   */
+  private getChangedStats(effects: Effect[]): Set<StatType> | undefined {
+    const cached = this._statsCache;
+    const previousIds = cached?.effectIds ?? [];
+    if (!this._statDependencies || previousIds.length !== effects.length || previousIds.some((id, index) => id !== effects[index].id)) {
+      this._statDependencies = StatDependencyGraph.fromEffects(effects, this._derivedStats);
+    }
+    if (!cached) return undefined;
+    
+    const changed = new Set(this._dirtyStats);
+    const markChanged = (effect: Effect | undefined) => effect?.statTypes.forEach(statType => changed.add(statType));
+    
+    // Effects that started or stopped applying (removed effects were marked when they were removed)
+    const previous = new Set(previousIds);
+    const current = new Set(effects.map(effect => effect.id));
+    effects.filter(effect => !previous.has(effect.id)).forEach(markChanged);
+    previousIds.filter(id => !current.has(id)).forEach(id => markChanged(this._effects.get(id)));
+    
+    // Time-dependent effects can give a different result at a different time
+    if (cached.timestamp !== this._context.clock.now()) {
+      for (const effect of this._effects.values()) {
+        if (effect.timeDependent) markChanged(effect);
+      }
+    }
+    
+    return changed;
+  }
+  
+  /**
+   * Explain how a stat's current value was calculated
+   * @param statType - The stat to explain
+   * @returns Ordered trace of every effect that touched the stat
+   */
+  explainStat(statType: StatType): StatExplanation {
+    this.checkStatType(statType);
+    const baseStats = this.getBaseStatMap();
+    const activeEffects = this.getSortedActiveEffects();
+    const activeIds = new Set(activeEffects.map(effect => effect.id));
+    const suppressed = this.findSuppressedEffects(activeEffects);
+    const effects = Array.from(this._effects.values()).sort((a, b) => a.priority - b.priority);
+    
+    const skipped = new Map<EffectId, StatTraceStatus>();
+    for (const effect of effects) {
+      if (!activeIds.has(effect.id)) skipped.set(effect.id, 'inactive');
+      else if (suppressed.has(effect.id)) skipped.set(effect.id, 'suppressed');
+    }
+    
+    const explanation = this._context.statPipeline.explain(
+      statType,
+      baseStats,
+      effects,
+      (current) => this.createEffectContext(current),
+      skipped,
+      this._derivedStats,
+      this.statSchema
+    );
+    
+    // Attribute gear passive effects to their gear and suppressed effects to their suppressor
+    return {
+      ...explanation,
+      entries: explanation.entries.map(entry => {
+        const slot = this._gearEffectSlots.get(entry.effectId);
+        const gear = slot !== undefined ? this._equippedGear.get(slot) : undefined;
+        const suppressedBy = entry.status === 'suppressed' ? suppressed.get(entry.effectId) : undefined;
+        return {
+          ...entry,
+          ...(gear && slot !== undefined ? { source: { kind: 'gear' as const, gearId: gear.id, gearName: gear.name, slot } } : {}),
+          ...(suppressedBy !== undefined ? { suppressedBy } : {})
+        };
+      })
+    };
+  }
+  
+  /**
+   * Get effects currently suppressed by cancellation or immunity effects
+   * @returns Map of suppressed effect ID to the ID of the effect suppressing it
+   */
+  getSuppressedEffects(): Map<EffectId, EffectId> {
+    return this.findSuppressedEffects(this.getSortedActiveEffects());
+  }
+  
+  /**
+   * Check if an effect is currently suppressed
+   */
+  isEffectSuppressed(effectId: EffectId): boolean {
+    return this.getSuppressedEffects().has(effectId);
+  }
+  
+  /**
+   * Match effects against the suppression rules of active suppressors
+   */
+  private findSuppressedEffects(activeEffects: Effect[]): Map<EffectId, EffectId> {
+    const suppressed = new Map<EffectId, EffectId>();
+    const suppressors = activeEffects.filter(effect => effect.suppression);
+    if (suppressors.length === 0) return suppressed;
+    
+    for (const effect of this._effects.values()) {
+      if (effect.suppression) continue; // Suppressors are never suppressed
+      const tags = this.getEffectTags(effect.id);
+      const suppressor = suppressors.find(candidate => matchesSuppressionRule(candidate.suppression!, effect, tags));
+      if (suppressor) {
+        suppressed.set(effect.id, suppressor.id);
+      }
+    }
+    
+    return suppressed;
+  }
+  
+  /**
+   * Emit events for effects whose suppression changed
+   */
+  private updateSuppression(): void {
+    if (this.inTransaction) return; // Checked once on commit
+    
+    const current = this.getSuppressedEffects();
+    
+    for (const [effectId, suppressedBy] of current) {
+      if (this._suppressedEffects.get(effectId) === suppressedBy) continue;
+      this._suppressedEffects.set(effectId, suppressedBy);
+      this.emitEvent({
+        type: EventType.EFFECT_SUPPRESSED,
+        timestamp: this._context.clock.now(),
+        data: { entityId: this._id, effectId, suppressedBy }
+      });
+    }
+    
+    for (const effectId of Array.from(this._suppressedEffects.keys())) {
+      if (current.has(effectId)) continue;
+      this._suppressedEffects.delete(effectId);
+      // Removed effects are reported by EFFECT_REMOVED instead
+      if (!this._effects.has(effectId)) continue;
+      this.emitEvent({
+        type: EventType.EFFECT_UNSUPPRESSED,
+        timestamp: this._context.clock.now(),
+        data: { entityId: this._id, effectId }
+      });
+    }
+  }
+  
   /**
    * Get effects sorted by priority (lower priority first)
    */
@@ -123,7 +413,7 @@ export class Entity {
         this._effectCache.set(effectId, {
           effect,
           isActive,
-          timestamp: Date.now()
+          timestamp: this._context.clock.now()
         });
       }
       
@@ -144,15 +434,28 @@ export class Entity {
       effectStack: Array.from(this._effects.values()),
       currentStats: new Map(currentStats),
       baseStats: this.baseStats,
-      timestamp: Date.now()
+      timestamp: this._context.clock.now(),
+      rngManager: this._context.rngManager,
+      effectTags: new Map(Array.from(this._effects.keys(), effectId => [effectId, this.getEffectTags(effectId)])),
+      stackCounts: new Map(Array.from(this._effectStacks, ([effectId, stacks]) => [effectId, stacks.length]))
     };
   }
   
   /**
    * Add an effect to this entity
+   * 
+   * Re-adding an effect that is already present replaces it, unless the effect
+   * has a stacking rule, in which case the rule decides how it stacks.
    */
   addEffect(effect: Effect, duration?: number): void {
-    const now = Date.now();
+    effect.statTypes.forEach(statType => this.checkStatType(statType));
+    const existing = this._effects.get(effect.id);
+    if (existing && effect.stacking) {
+      this.stackEffect(existing, effect, duration);
+      return;
+    }
+    
+    const now = this._context.clock.now();
     this._effects.set(effect.id, effect);
     
     // Track effect timing for cooldown management
@@ -164,30 +467,170 @@ export class Entity {
     };
     this._effectTimings.set(effect.id, timing);
     
-    this.invalidateCache();
+    if (effect.stacking) {
+      this._effectStacks.set(effect.id, [{ appliedAt: now, expiresAt: timing.expiresAt }]);
+    } else {
+      this._effectStacks.delete(effect.id);
+    }
+    
+    this.invalidateEffects(existing ? [existing, effect] : [effect]);
     
     this.emitEvent({
       type: EventType.EFFECT_ADDED,
       timestamp: now,
       data: { entityId: this._id, effect, duration }
     });
+    
+    this.updateSuppression();
+  }
+  
+  /**
+   * Re-apply an effect that is already present according to its stacking rule
+   */
+  private stackEffect(existing: Effect, effect: Effect, duration?: number): void {
+    const rule = effect.stacking!;
+    const now = this._context.clock.now();
+    const expiresAt = duration ? now + duration : undefined;
+    const previous = this.getEffectStacks(effect.id);
+    let stacks: EffectStack[];
+    let reason: StackChangeReason = 'stacked';
+    
+    switch (rule.policy) {
+      case StackPolicy.REFRESH:
+        stacks = [...previous, { appliedAt: now }].map(stack => ({ appliedAt: stack.appliedAt, expiresAt }));
+        break;
+      case StackPolicy.EXTEND: {
+        // Permanent effects stay permanent
+        const current = this._effectTimings.get(effect.id)?.expiresAt;
+        const extended = current === undefined ? undefined : Math.max(current, now) + (duration ?? 0);
+        stacks = [...previous, { appliedAt: now }].map(stack => ({ appliedAt: stack.appliedAt, expiresAt: extended }));
+        break;
+      }
+      case StackPolicy.REPLACE_IF_STRONGER:
+        if (this.getEffectStrength(effect) <= this.getEffectStrength(existing)) {
+          // The weaker application is refused, leaving the stacks as they were
+          this.emitEvent({
+            type: EventType.EFFECT_STACK_CHANGED,
+            timestamp: now,
+            data: {
+              entityId: this._id,
+              effectId: effect.id,
+              stackCount: previous.length,
+              previousStackCount: previous.length,
+              reason: 'rejected',
+              droppedStacks: 0
+            }
+          });
+          return;
+        }
+        this._effects.set(effect.id, effect);
+        this.invalidateEffects([existing]);
+        stacks = [{ appliedAt: now, expiresAt }];
+        reason = 'replaced';
+        break;
+      case StackPolicy.INDEPENDENT:
+        stacks = [...previous, { appliedAt: now, expiresAt }];
+        break;
+    }
+    
+    // Drop the oldest stacks beyond the limit
+    const dropped = rule.maxStacks !== undefined ? Math.max(0, stacks.length - Math.max(1, rule.maxStacks)) : 0;
+    this.setEffectStacks(effect.id, stacks.slice(dropped), reason, dropped);
+  }
+  
+  /**
+   * Store an effect's stacks, keep its timing in line and announce the change
+   */
+  private setEffectStacks(effectId: EffectId, stacks: EffectStack[], reason: StackChangeReason, droppedStacks: number = 0): void {
+    const previousStackCount = this.getStackCount(effectId);
+    this._effectStacks.set(effectId, stacks);
+    
+    // The effect lasts as long as its longest-lived stack; a replacement counts as a new application
+    const appliedAt = reason === 'replaced'
+      ? stacks[0].appliedAt
+      : this._effectTimings.get(effectId)?.appliedAt ?? stacks[0].appliedAt;
+    const expiresAt = stacks.some(stack => stack.expiresAt === undefined)
+      ? undefined
+      : Math.max(...stacks.map(stack => stack.expiresAt!));
+    this._effectTimings.set(effectId, {
+      effectId,
+      appliedAt,
+      duration: expiresAt !== undefined ? expiresAt - appliedAt : undefined,
+      expiresAt
+    });
+    
+    const effect = this._effects.get(effectId);
+    this.invalidateEffects(effect ? [effect] : []);
+    
+    this.emitEvent({
+      type: EventType.EFFECT_STACK_CHANGED,
+      timestamp: this._context.clock.now(),
+      data: {
+        entityId: this._id,
+        effectId,
+        stackCount: stacks.length,
+        previousStackCount,
+        reason,
+        droppedStacks
+      }
+    });
+    
+    this.updateSuppression();
+  }
+  
+  /**
+   * Total change an effect makes to the current stats, used to compare applications
+   */
+  private getEffectStrength(effect: Effect): number {
+    const before = this.getCurrentStats();
+    const after = new Map(before);
+    effect.apply(this.createEffectContext(before), after);
+    
+    let strength = 0;
+    for (const [statType, value] of after) {
+      strength += Math.abs(value - (before.get(statType) ?? 0));
+    }
+    return strength;
+  }
+  
+  /**
+   * Get the number of stacks of an effect (0 if the entity does not have it)
+   */
+  getStackCount(effectId: EffectId): number {
+    if (!this._effects.has(effectId)) return 0;
+    return this._effectStacks.get(effectId)?.length ?? 1;
+  }
+  
+  /**
+   * Get the applications of an effect, oldest first
+   */
+  getEffectStacks(effectId: EffectId): EffectStack[] {
+    const stacks = this._effectStacks.get(effectId);
+    if (stacks) return [...stacks];
+    
+    const timing = this._effectTimings.get(effectId);
+    return timing ? [{ appliedAt: timing.appliedAt, expiresAt: timing.expiresAt }] : [];
   }
   
   /**
    * Remove an effect from this entity
    */
   removeEffect(effectId: EffectId): boolean {
+    const effect = this._effects.get(effectId);
     const removed = this._effects.delete(effectId);
     if (removed) {
-      this._effectCache.delete(effectId);
       this._effectTimings.delete(effectId);
-      this.invalidateCache();
+      this._effectStacks.delete(effectId);
+      this._gearEffectSlots.delete(effectId);
+      this.invalidateEffects([effect!]);
       
       this.emitEvent({
         type: EventType.EFFECT_REMOVED,
-        timestamp: Date.now(),
+        timestamp: this._context.clock.now(),
         data: { entityId: this._id, effectId }
       });
+      
+      this.updateSuppression();
     }
     return removed;
   }
@@ -196,22 +639,28 @@ export class Entity {
    * Get a specific stat value
    */
   getStat(statType: StatType): StatValue {
+    this.checkStatType(statType);
     const stats = this.getCurrentStats();
     return stats.get(statType) ?? 0;
   }
   
   /**
    * Set a base stat value
+   * @throws StatSchemaError if the context's stat schema rejects the value
    */
   setBaseStat(statType: StatType, value: StatValue): void {
+    this.statSchema?.validate({ [statType]: value }, stat => this.isDerivedStat(stat));
+    value = this.clampResourceValue(statType, value);
     this._baseStats[statType] = value;
-    this.invalidateCache();
+    this.invalidateBaseStat(statType);
     
     this.emitEvent({
       type: EventType.STAT_CHANGED,
-      timestamp: Date.now(),
+      timestamp: this._context.clock.now(),
       data: { entityId: this._id, statType, value }
     });
+    
+    this.updateSuppression();
   }
   
   /**
@@ -241,6 +690,53 @@ export class Entity {
     return this._effects.has(effectId);
   }
   
+  /**
+   * Get an effect's tags, including the implied gear tag for gear passive effects
+   */
+  getEffectTags(effectId: EffectId): string[] {
+    const effect = this._effects.get(effectId);
+    if (!effect) return [];
+    
+    const tags = [...(effect.tags ?? [])];
+    if (this._gearEffectSlots.has(effectId) && !tags.includes(EffectTags.GEAR)) {
+      tags.push(EffectTags.GEAR);
+    }
+    return tags;
+  }
+  
+  /**
+   * Get all effects carrying a tag
+   */
+  getEffectsByTag(tag: string): Effect[] {
+    return this.getEffects().filter(effect => this.getEffectTags(effect.id).includes(tag));
+  }
+  
+  /**
+   * Check if any effect carries a tag
+   */
+  hasEffectWithTag(tag: string): boolean {
+    return this.getEffects().some(effect => this.getEffectTags(effect.id).includes(tag));
+  }
+  
+  /**
+   * Remove every effect carrying a tag (e.g. dispel or cleanse)
+   *
+   * Gear passive effects are left in place; unequip the gear to remove them.
+   * @param tag - The tag to remove
+   * @returns Array of removed effect IDs
+   */
+  removeEffectsByTag(tag: string): EffectId[] {
+    const removed = this.getEffectsByTag(tag)
+      .filter(effect => !this._gearEffectSlots.has(effect.id))
+      .map(effect => effect.id);
+    
+    for (const effectId of removed) {
+      this.removeEffect(effectId);
+    }
+    
+    return removed;
+  }
+  
   /**
    * Get effect timing information
    */
@@ -250,14 +746,29 @@ export class Entity {
   
   /**
    * Check for expired effects and remove them
+   * 
+   * Stacks of a stacking effect expire one by one; the effect is removed with its last stack.
+   * Periodic effects apply their remaining ticks and resources regenerate first.
    * @param currentTime - Current timestamp (defaults to now)
    * @returns Array of removed effect IDs
    */
-  checkExpiredEffects(currentTime: number = Date.now()): EffectId[] {
+  checkExpiredEffects(currentTime: number = this._context.clock.now()): EffectId[] {
+    this._context.periodicEffectScheduler.update(this, currentTime);
+    this.regenerateResources(currentTime);
+    
     const expiredEffects: EffectId[] = [];
+    const expiredStacks = new Map<EffectId, EffectStack[]>();
     
     for (const [effectId, timing] of this._effectTimings) {
-      if (timing.expiresAt && currentTime >= timing.expiresAt) {
+      const stacks = this._effectStacks.get(effectId);
+      if (stacks) {
+        const remaining = stacks.filter(stack => !stack.expiresAt || currentTime < stack.expiresAt);
+        if (remaining.length === 0) {
+          expiredEffects.push(effectId);
+        } else if (remaining.length < stacks.length) {
+          expiredStacks.set(effectId, remaining);
+        }
+      } else if (timing.expiresAt && currentTime >= timing.expiresAt) {
         expiredEffects.push(effectId);
       }
     }
@@ -266,6 +777,9 @@ export class Entity {
     for (const effectId of expiredEffects) {
       this.removeEffect(effectId);
     }
+    for (const [effectId, remaining] of expiredStacks) {
+      this.setEffectStacks(effectId, remaining, 'expired');
+    }
     
     return expiredEffects;
   }
@@ -284,8 +798,8 @@ export class Entity {
    * @returns The calculated value and metadata
    */
   requestValue(purpose: string, parameters?: Record<string, any>): ValueRequestResult | undefined {
-    const requestId = `${this._id}-${purpose}-${Date.now()}`;
-    const timestamp = Date.now();
+    const requestId = `${this._id}-${purpose}-${this._context.clock.now()}`;
+    const timestamp = this._context.clock.now();
     
     const context: ValueRequestContext = {
       entityId: this._id,
@@ -315,8 +829,10 @@ export class Entity {
       }
     }
     
-    // Add active effects
+    // Add active effects that are not suppressed
+    const suppressed = this.getSuppressedEffects();
     for (const effect of this._effects.values()) {
+      if (suppressed.has(effect.id)) continue;
       if (this.isActiveEffect(effect) && effect.supportedPurposes?.includes(purpose)) {
         const activeEffect = effect as ActiveEffect;
         if (activeEffect.isActiveForPurpose?.(purpose, context) !== false) {
@@ -369,7 +885,7 @@ export class Entity {
     
     this.emitEvent({
       type: EventType.CUSTOM_EVENT,
-      timestamp: Date.now(),
+      timestamp: this._context.clock.now(),
       data: { 
         type: 'value_provider_registered',
         entityId: this._id,
@@ -388,7 +904,7 @@ export class Entity {
     if (removed) {
       this.emitEvent({
         type: EventType.CUSTOM_EVENT,
-        timestamp: Date.now(),
+        timestamp: this._context.clock.now(),
         data: { 
           type: 'value_provider_unregistered',
           entityId: this._id,
@@ -412,12 +928,13 @@ export class Entity {
       const passiveEffects = gear.getPassiveEffects();
       for (const effect of passiveEffects) {
         this.addEffect(effect);
+        this._gearEffectSlots.set(effect.id, gearSlot);
       }
     }
 
     this.emitEvent({
       type: EventType.GEAR_EQUIPPED,
-      timestamp: Date.now(),
+      timestamp: this._context.clock.now(),
       data: {
         entityId: this._id,
         gearId: gear.id,
@@ -446,7 +963,7 @@ export class Entity {
 
       this.emitEvent({
         type: EventType.GEAR_UNEQUIPPED,
-        timestamp: Date.now(),
+        timestamp: this._context.clock.now(),
         data: {
           entityId: this._id,
           gearId: gear.id,
@@ -489,7 +1006,7 @@ export class Entity {
 
     this.emitEvent({
       type: EventType.CUSTOM_EVENT,
-      timestamp: Date.now(),
+      timestamp: this._context.clock.now(),
       data: {
         type: 'interaction_modifier_registered',
         entityId: this._id,
@@ -508,7 +1025,7 @@ export class Entity {
     if (removed) {
       this.emitEvent({
         type: EventType.CUSTOM_EVENT,
-        timestamp: Date.now(),
+        timestamp: this._context.clock.now(),
         data: {
           type: 'interaction_modifier_unregistered',
           entityId: this._id,
@@ -528,7 +1045,7 @@ export class Entity {
 
     this.emitEvent({
       type: EventType.CUSTOM_EVENT,
-      timestamp: Date.now(),
+      timestamp: this._context.clock.now(),
       data: {
         type: 'state_adjuster_registered',
         entityId: this._id,
@@ -547,7 +1064,7 @@ export class Entity {
     if (removed) {
       this.emitEvent({
         type: EventType.CUSTOM_EVENT,
-        timestamp: Date.now(),
+        timestamp: this._context.clock.now(),
         data: {
           type: 'state_adjuster_unregistered',
           entityId: this._id,
@@ -567,7 +1084,7 @@ export class Entity {
 
     this.emitEvent({
       type: EventType.CUSTOM_EVENT,
-      timestamp: Date.now(),
+      timestamp: this._context.clock.now(),
       data: {
         type: 'interaction_notifier_registered',
         entityId: this._id,
@@ -586,7 +1103,7 @@ export class Entity {
     if (removed) {
       this.emitEvent({
         type: EventType.CUSTOM_EVENT,
-        timestamp: Date.now(),
+        timestamp: this._context.clock.now(),
         data: {
           type: 'interaction_notifier_unregistered',
           entityId: this._id,
@@ -621,66 +1138,638 @@ export class Entity {
 
   /**
    * Set a stat value (for state adjustments)
+   * 
+   * Adjustments routinely overshoot, so resources are clamped to their
+   * current maximum, and with a stat schema the value is rounded and clamped
+   * to the stat's range instead of being rejected.
+   * @throws StatSchemaError if the value is not a number, or the stat is unknown and unknown stats are rejected
    */
   setStat(statType: StatType, value: StatValue): void {
-    this._baseStats[statType] = value;
+    value = this.clampResourceValue(statType, value);
+    const schema = this.statSchema;
+    if (schema) {
+      this.checkStatType(statType);
+      value = schema.normalize(statType, value);
+      const issue = schema.check(statType, value);
+      if (issue) throw new StatSchemaError([issue]);
+    }
     
-    // Clear cache for this stat
-    this._statsCache.clear();
+    const previousValue = this._baseStats[statType];
+    this._baseStats[statType] = value;
+    this.invalidateBaseStat(statType);
     
     this.emitEvent({
       type: EventType.STAT_CHANGED,
-      timestamp: Date.now(),
+      timestamp: this._context.clock.now(),
       data: {
         entityId: this._id,
         statType,
         value,
-        previousValue: this._baseStats[statType]
+        previousValue
       }
     });
     
     // Check and emit bound events
     this.checkAndEmitBoundEvents();
+    
+    this.updateSuppression();
   }
   
+  // ===== Resource Management =====
   
+  /**
+   * Track a stat as a resource with a current value and a maximum
+   * 
+   * The current value is the base stat (it starts full when the entity doesn't
+   * have it yet) and the maximum is a regular stat modified by effects. Writes
+   * to the current value are clamped between the resource's minimum and its
+   * maximum, and when the maximum changes the current value follows it as set
+   * by `onMaxChange`. Unless `boundEvents` is false, a bound event config
+   * between the minimum and maximum is registered for the current stat.
+   * @param definition - The resource
+   */
+  registerResource(definition: ResourceDefinition): void {
+    if (definition.statType === definition.maxStatType) {
+      throw new Error(`Resource ${definition.statType} needs a separate maximum stat`);
+    }
+    
+    this._resources.set(definition.statType, { definition, lastRegenAt: this._context.clock.now() });
+    if (definition.boundEvents !== false) {
+      this.registerBoundEventConfig({
+        ...definition.boundEvents,
+        statType: definition.statType,
+        boundConfig: {
+          min: definition.min ?? 0,
+          max: StatBoundCalculator.createBoundFunction({ kind: 'stat', statType: definition.maxStatType, fallback: 0 }),
+          clampToBounds: true
+        }
+      });
+    }
+    
+    const max = this.getStat(definition.maxStatType);
+    this.setStat(definition.statType, this._baseStats[definition.statType] ?? max);
+    this._resources.get(definition.statType)!.lastMax = this.getStat(definition.maxStatType);
+  }
   
+  /**
+   * Stop tracking a resource; its current value stays as a base stat
+   * @returns true if the stat was a resource
+   */
+  unregisterResource(statType: StatType): boolean {
+    const tracking = this._resources.get(statType);
+    if (!tracking) return false;
+    
+    this._resources.delete(statType);
+    if (tracking.definition.boundEvents !== false) {
+      this.unregisterBoundEventConfig(statType);
+    }
+    return true;
+  }
   
+  /**
+   * Get the definitions of every resource on this entity
+   */
+  getResourceDefinitions(): ResourceDefinition[] {
+    return Array.from(this._resources.values()).map(tracking => tracking.definition);
+  }
   
   /**
-   * Cache management
+   * Get the current value and maximum of a resource
+   */
+  getResource(statType: StatType): ResourceState | undefined {
+    const tracking = this._resources.get(statType);
+    if (!tracking) return undefined;
+    
+    const stats = this.getCurrentStats();
+    const min = tracking.definition.min ?? 0;
+    const current = stats.get(statType) ?? min;
+    const max = stats.get(tracking.definition.maxStatType) ?? 0;
+    return {
+      statType,
+      current,
+      max,
+      ratio: max > min ? Math.min(1, Math.max(0, (current - min) / (max - min))) : 0
+    };
+  }
+  
+  /**
+   * Add to (or, with a negative amount, spend from) a resource
+   * @param statType - The resource
+   * @param amount - Change to the current value
+   * @returns The change actually applied after clamping
+   * @throws Error if the stat is not a resource
+   */
+  adjustResource(statType: StatType, amount: number): number {
+    if (!this._resources.has(statType)) {
+      throw new Error(`${statType} is not a resource on entity ${this._id}`);
+    }
+    
+    const current = this._baseStats[statType] ?? 0;
+    const next = this.clampResourceValue(statType, current + amount);
+    if (next === current) return 0;
+    
+    this.setStat(statType, next);
+    return (this._baseStats[statType] ?? 0) - current;
+  }
+  
+  /**
+   * Regenerate resources for the time passed since they last regenerated
+   * 
+   * Called by `checkExpiredEffects`, so resources regenerate whenever expired
+   * effects are checked. Rates read from a stat use its value at the time of
+   * the call.
+   * @param currentTime - Current timestamp (defaults to now)
+   */
+  regenerateResources(currentTime: number = this._context.clock.now()): void {
+    for (const tracking of Array.from(this._resources.values())) {
+      const elapsed = currentTime - tracking.lastRegenAt;
+      if (elapsed <= 0) continue;
+      tracking.lastRegenAt = currentTime;
+      
+      const rate = tracking.definition.regenPerSecond;
+      const perSecond = typeof rate === 'string' ? this.getStat(rate) : rate ?? 0;
+      if (perSecond !== 0) {
+        this.adjustResource(tracking.definition.statType, perSecond * elapsed / 1000);
+      }
+    }
+  }
+  
+  /**
+   * Clamp a value written to a resource between its minimum and current maximum
+   */
+  private clampResourceValue(statType: StatType, value: StatValue): StatValue {
+    const definition = this._resources.get(statType)?.definition;
+    if (!definition) return value;
+    
+    const min = definition.min ?? 0;
+    return Math.max(min, Math.min(this.getStat(definition.maxStatType), value));
+  }
+  
+  /**
+   * Move resource values after their maximums changed
+   * @param stats - Freshly calculated stats
+   * @returns The stats, recalculated if a current value moved
+   */
+  private followResourceMaximums(stats: StatMap): StatMap {
+    const moved: Array<{ statType: StatType; value: StatValue; previousValue: StatValue }> = [];
+    
+    for (const tracking of this._resources.values()) {
+      const { statType, maxStatType, onMaxChange } = tracking.definition;
+      const max = stats.get(maxStatType) ?? 0;
+      const lastMax = tracking.lastMax;
+      if (lastMax === undefined || lastMax === max) continue;
+      tracking.lastMax = max;
+      
+      const min = tracking.definition.min ?? 0;
+      const current = this._baseStats[statType] ?? min;
+      const next = onMaxChange === 'keepRatio' && lastMax > min
+        ? min + (current - min) * (max - min) / (lastMax - min)
+        : current;
+      const bounded = Math.max(min, Math.min(max, next));
+      const clamped = this.statSchema?.normalize(statType, bounded) ?? bounded;
+      
+      if (clamped !== current) {
+        this._baseStats[statType] = clamped;
+        this.invalidateBaseStat(statType);
+        moved.push({ statType, value: clamped, previousValue: current });
+      }
+    }
+    if (moved.length === 0) return stats;
+    
+    const recalculated = this.calculateStats();
+    for (const change of moved) {
+      this.emitEvent({
+        type: EventType.STAT_CHANGED,
+        timestamp: this._context.clock.now(),
+        data: { entityId: this._id, ...change }
+      });
+    }
+    this.checkAndEmitBoundEvents();
+    return recalculated;
+  }
+  
+  // ===== Transactions =====
+  
+  /**
+   * Apply several changes as one
+   * 
+   * Events are held back and emitted once the changes are done: one
+   * STAT_CHANGED event per stat that ended up different (from its value
+   * before the batch), the other events in order, then a single round of
+   * suppression and bound event checks against the final state. If the
+   * function throws, every change is rolled back, no events are emitted and
+   * the error is rethrown. Batches can be nested; an inner batch that fails
+   * only rolls back its own changes.
+   * @param changes - Function making the changes
+   * @returns What the function returned
+   */
+  batch<T>(changes: () => T): T {
+    this.beginTransaction();
+    let result: T;
+    try {
+      result = changes();
+    } catch (error) {
+      this.rollbackTransaction();
+      throw error;
+    }
+    this.commitTransaction();
+    return result;
+  }
+  
+  /**
+   * Start holding back events and recording state for a rollback
+   * 
+   * Every transaction must end with commitTransaction or rollbackTransaction.
+   * Prefer `batch`, which does this even when changes throw. Periodic effect
+   * progress in the context's scheduler is rolled back with the entity;
+   * other state kept outside the entity (applicator state) is not.
+   */
+  beginTransaction(): void {
+    const periodicProgress = new Map<EffectId, PeriodicProgress>();
+    for (const effectId of this._effects.keys()) {
+      const progress = this._context.periodicEffectScheduler.getProgress(this._id, effectId);
+      if (progress) periodicProgress.set(effectId, progress);
+    }
+    this._transactions.push({ state: this.saveState(), periodicProgress, queuedEvents: this._queuedEvents.length });
+  }
+  
+  /**
+   * Keep the changes made since the matching beginTransaction
+   * 
+   * Committing the outermost transaction emits the consolidated events.
+   * @throws Error if no transaction is open
+   */
+  commitTransaction(): void {
+    const snapshot = this._transactions.pop();
+    if (!snapshot) {
+      throw new Error(`No transaction to commit on entity ${this._id}`);
+    }
+    if (this.inTransaction) return; // The outer transaction emits the events
+    
+    const queued = this._queuedEvents.splice(0);
+    const reportedStats = new Set<StatType>();
+    for (const event of queued) {
+      if (event.type !== EventType.STAT_CHANGED) {
+        this.emitEvent(event);
+        continue;
+      }
+      
+      // One event per stat, from its value before the transaction to its final value
+      const statType: StatType = event.data.statType;
+      const previousValue = snapshot.state.baseStats[statType];
+      const value = this._baseStats[statType];
+      if (reportedStats.has(statType) || value === previousValue) continue;
+      reportedStats.add(statType);
+      this.emitEvent({ ...event, data: { ...event.data, value, previousValue } });
+    }
+    
+    this.updateSuppression();
+    this.checkAndEmitBoundEvents();
+  }
+  
+  /**
+   * Undo the changes made since the matching beginTransaction and drop their events
+   * @throws Error if no transaction is open
+   */
+  rollbackTransaction(): void {
+    const snapshot = this._transactions.pop();
+    if (!snapshot) {
+      throw new Error(`No transaction to roll back on entity ${this._id}`);
+    }
+    
+    this.applyState(snapshot.state);
+    this._queuedEvents.splice(snapshot.queuedEvents);
+    
+    const scheduler = this._context.periodicEffectScheduler;
+    scheduler.clear(this._id);
+    for (const [effectId, progress] of snapshot.periodicProgress) {
+      scheduler.restoreProgress(this._id, effectId, progress);
+    }
+  }
+  
+  /**
+   * Whether a transaction is open (events are being held back)
+   */
+  get inTransaction(): boolean {
+    return this._transactions.length > 0;
+  }
+  
+  /**
+   * Save the entity's state to restore later (e.g. for undo)
+   * 
+   * Covers base stats, effects with their timings and stacks, gear, providers,
+   * interaction hooks, bound event configs, resources and derived stats.
+   */
+  saveState(): EntityState {
+    return {
+      baseStats: { ...this._baseStats },
+      effects: new Map(this._effects),
+      effectTimings: new Map(this._effectTimings),
+      effectStacks: new Map(Array.from(this._effectStacks, ([effectId, stacks]) => [effectId, stacks.map(stack => ({ ...stack }))])),
+      valueProviders: new Map(this._valueProviders),
+      equippedGear: new Map(this._equippedGear),
+      gearEffectSlots: new Map(this._gearEffectSlots),
+      suppressedEffects: new Map(this._suppressedEffects),
+      interactionModifiers: new Map(this._interactionModifiers),
+      stateAdjusters: new Map(this._stateAdjusters),
+      interactionNotifiers: new Map(this._interactionNotifiers),
+      boundEventConfigs: new Map(this._boundEventConfigs),
+      resources: new Map(Array.from(this._resources, ([statType, tracking]) => [statType, { ...tracking }])),
+      derivedStats: this._derivedStats
+    };
+  }
+  
+  /**
+   * Return to a state saved by saveState
+   * 
+   * The change is applied as a batch: stats, effects and gear that differ
+   * are reported with STAT_CHANGED, EFFECT_ADDED/EFFECT_REMOVED and
+   * GEAR_EQUIPPED/GEAR_UNEQUIPPED events, followed by bound events.
+   */
+  restoreState(state: EntityState): void {
+    this.batch(() => {
+      const effectsBefore = new Map(this._effects);
+      const gearBefore = new Map(this._equippedGear);
+      const statsBefore = { ...this._baseStats };
+      this.applyState(state);
+      const timestamp = this._context.clock.now();
+      
+      for (const statType of new Set([...Object.keys(statsBefore), ...Object.keys(this._baseStats)])) {
+        if (statsBefore[statType] === this._baseStats[statType]) continue;
+        this.emitEvent({
+          type: EventType.STAT_CHANGED,
+          timestamp,
+          data: { entityId: this._id, statType, value: this._baseStats[statType], previousValue: statsBefore[statType] }
+        });
+      }
+      for (const [effectId, effect] of effectsBefore) {
+        if (this._effects.get(effectId) === effect) continue;
+        this.emitEvent({ type: EventType.EFFECT_REMOVED, timestamp, data: { entityId: this._id, effectId } });
+      }
+      for (const [effectId, effect] of this._effects) {
+        if (effectsBefore.get(effectId) === effect) continue;
+        const duration = this._effectTimings.get(effectId)?.duration;
+        this.emitEvent({ type: EventType.EFFECT_ADDED, timestamp, data: { entityId: this._id, effect, duration } });
+      }
+      for (const [slot, gear] of gearBefore) {
+        if (this._equippedGear.get(slot) === gear) continue;
+        this.emitEvent({ type: EventType.GEAR_UNEQUIPPED, timestamp, data: { entityId: this._id, gearId: gear.id, gearName: gear.name, slot } });
+      }
+      for (const [slot, gear] of this._equippedGear) {
+        if (gearBefore.get(slot) === gear) continue;
+        this.emitEvent({ type: EventType.GEAR_EQUIPPED, timestamp, data: { entityId: this._id, gearId: gear.id, gearName: gear.name, slot } });
+      }
+    });
+  }
+  
+  private applyState(state: EntityState): void {
+    for (const statType of Object.keys(this._baseStats)) {
+      delete this._baseStats[statType];
+    }
+    Object.assign(this._baseStats, state.baseStats);
+    restoreMap(this._effects, state.effects);
+    restoreMap(this._effectTimings, state.effectTimings);
+    restoreMap(this._effectStacks, new Map(Array.from(state.effectStacks, ([effectId, stacks]) => [effectId, stacks.map(stack => ({ ...stack }))])));
+    restoreMap(this._valueProviders, state.valueProviders);
+    restoreMap(this._equippedGear, state.equippedGear);
+    restoreMap(this._gearEffectSlots, state.gearEffectSlots);
+    restoreMap(this._suppressedEffects, state.suppressedEffects);
+    restoreMap(this._interactionModifiers, state.interactionModifiers);
+    restoreMap(this._stateAdjusters, state.stateAdjusters);
+    restoreMap(this._interactionNotifiers, state.interactionNotifiers);
+    restoreMap(this._boundEventConfigs, state.boundEventConfigs);
+    restoreMap(this._resources, new Map(Array.from(state.resources, ([statType, tracking]) => [statType, { ...tracking }])));
+    this._derivedStats = state.derivedStats;
+    
+    this._statDependencies = undefined;
+    this.invalidateCache();
+  }
+  
+  // ===== Serialization =====
+  
+  /**
+   * Write this entity as a versioned JSON document
+   * @param registry - Codecs for effects, gear and value providers (default: built-in codecs)
+   * @returns The entity document
+   */
+  toJSON(registry?: SerializationRegistry): EntityDocument {
+    // JSON.stringify passes the property key as the first argument
+    const codecs = registry instanceof SerializationRegistry ? registry : defaultSerializationRegistry;
+    
+    const effects: SerializedEffect[] = [];
+    for (const [effectId, effect] of this._effects) {
+      const path = `$.effects[${effects.length}]`;
+      const timing = this._effectTimings.get(effectId);
+      const serializedTiming = timing
+        ? { appliedAt: timing.appliedAt, duration: timing.duration, expiresAt: timing.expiresAt }
+        : undefined;
+      
+      const stacks = this._effectStacks.get(effectId)?.map(stack => ({ ...stack }));
+      const periodic = this._context.periodicEffectScheduler.getProgress(this._id, effectId);
+      
+      const gearSlot = this._gearEffectSlots.get(effectId);
+      if (gearSlot !== undefined) {
+        effects.push({ id: effectId, gearSlot, timing: serializedTiming, stacks, periodic });
+      } else {
+        effects.push({ id: effectId, ...codecs.encodeEffect(effect, path), timing: serializedTiming, stacks, periodic });
+      }
+    }
+    
+    return {
+      $schema: ENTITY_DOCUMENT_SCHEMA,
+      version: ENTITY_DOCUMENT_VERSION,
+      id: this._id,
+      baseStats: { ...this._baseStats },
+      effects,
+      gear: Array.from(this._equippedGear.entries()).map(([slot, gear], index) => ({
+        slot,
+        ...codecs.encodeGear(gear, `$.gear[${index}]`)
+      })),
+      valueProviders: Array.from(this._valueProviders.values()).map((provider, index) =>
+        codecs.encodeValueProvider(provider, `$.valueProviders[${index}]`)
+      ),
+      boundEventConfigs: Array.from(this._boundEventConfigs.values()).map((config, index) =>
+        serializeBoundEventConfig(config, `$.boundEventConfigs[${index}]`)
+      ),
+      ...(this._resources.size > 0 ? {
+        resources: Array.from(this._resources.values()).map(tracking => ({
+          ...tracking.definition,
+          lastMax: tracking.lastMax,
+          lastRegenAt: tracking.lastRegenAt
+        }))
+      } : {})
+    };
+  }
+  
+  /**
+   * Re-create an entity from a document written by toJSON
+   * 
+   * State is restored directly, so no effect, gear or provider events are emitted.
+   * @param data - The entity document (or its JSON text)
+   * @param registry - Codecs for effects, gear and value providers (default: built-in codecs)
+   * @param context - Simulation context for the new entity
+   * @param derivedStats - Derived stat definitions (not part of the document)
+   * @returns The restored entity
+   */
+  static fromJSON(
+    data: EntityDocument | string,
+    registry: SerializationRegistry = defaultSerializationRegistry,
+    context: SimulationContext = defaultSimulationContext,
+    derivedStats?: DerivedStatSet
+  ): Entity {
+    const document = validateEntityDocument(typeof data === 'string' ? JSON.parse(data) : data);
+    const entity = new Entity(document.id, document.baseStats, context, derivedStats);
+    
+    document.gear.forEach((serialized, index) => {
+      const gear = registry.decodeGear(serialized.type, serialized.data, `$.gear[${index}]`);
+      entity._equippedGear.set(serialized.slot, gear);
+    });
+    
+    document.effects.forEach((serialized, index) => {
+      const path = `$.effects[${index}]`;
+      let effect: Effect | undefined;
+      
+      if (serialized.gearSlot !== undefined) {
+        const gear = entity._equippedGear.get(serialized.gearSlot);
+        effect = gear?.getPassiveEffects().find(passive => passive.id === serialized.id);
+        if (!effect) {
+          throw new SerializationError(`Gear in slot "${serialized.gearSlot}" has no passive effect ${serialized.id}`, path);
+        }
+      } else {
+        effect = registry.decodeEffect(serialized.type!, serialized.data ?? {}, path);
+      }
+      
+      entity._effects.set(serialized.id, effect);
+      if (serialized.gearSlot !== undefined) {
+        entity._gearEffectSlots.set(serialized.id, serialized.gearSlot);
+      }
+      if (serialized.timing) {
+        entity._effectTimings.set(serialized.id, { effectId: serialized.id, ...serialized.timing });
+      }
+      if (serialized.stacks) {
+        entity._effectStacks.set(serialized.id, serialized.stacks.map(stack => ({ ...stack })));
+      }
+      if (serialized.periodic) {
+        context.periodicEffectScheduler.restoreProgress(entity.id, serialized.id, serialized.periodic);
+      }
+    });
+    
+    document.valueProviders.forEach((serialized, index) => {
+      const provider = registry.decodeValueProvider(serialized.type, serialized.data, `$.valueProviders[${index}]`);
+      entity._valueProviders.set(provider.id, provider);
+    });
+    
+    for (const serialized of document.boundEventConfigs) {
+      const config = deserializeBoundEventConfig(serialized);
+      entity._boundEventConfigs.set(config.statType, config);
+    }
+    
+    for (const { lastMax, lastRegenAt, ...definition } of document.resources ?? []) {
+      entity._resources.set(definition.statType, { definition, lastMax, lastRegenAt });
+    }
+    
+    entity.getSuppressedEffects().forEach((suppressedBy, effectId) => {
+      entity._suppressedEffects.set(effectId, suppressedBy);
+    });
+    
+    return entity;
+  }
+  
+  /**
+   * Force the next stat read to recalculate
+   * 
+   * Cached stats are dropped automatically when base stats, the effect set or
+   * stack counts change. Call this when an effect depends on something the
+   * entity cannot see, such as another entity or a changed stat pipeline.
    */
-  private getCacheKey(): string {
-    const effectIds = Array.from(this._effects.keys()).sort().join(',');
-    return `${this._id}:${effectIds}`;
+  invalidateStats(): void {
+    this.invalidateCache();
   }
   
+  /**
+   * Cache management
+   * 
+   * Cached stats and effect activity stay valid until one of their inputs
+   * changes. Entries involving time-dependent effects also expire whenever
+   * the clock moves.
+   */
   private isCacheValid(entry: StatsCacheEntry | EffectCacheEntry): boolean {
-    const now = Date.now();
-    const maxAge = 1000; // 1 second cache validity
-    return (now - entry.timestamp) < maxAge;
+    if (entry.timestamp === this._context.clock.now()) return true;
+    if ('effect' in entry) return !entry.effect.timeDependent;
+    return !Array.from(this._effects.values()).some(effect => effect.timeDependent);
   }
   
   private cacheStats(stats: StatMap, effectIds: EffectId[]): void {
-    const cacheKey = this.getCacheKey();
-    this._statsCache.set(cacheKey, {
+    this._statsCache = {
       stats: new Map(stats),
-      timestamp: Date.now(),
+      timestamp: this._context.clock.now(),
       effectIds
-    });
+    };
   }
   
+  /**
+   * Drop every cached result
+   */
   private invalidateCache(): void {
-    this._statsCache.clear();
+    this._statsCache = undefined;
+    this._statsDirty = false;
+    this._dirtyStats.clear();
     this._effectCache.clear();
-    this._lastCalculationTime = Date.now();
   }
   
   /**
-   * Event emission through the event system
+   * Mark the stats of effects that were added, removed, replaced or restacked as changed
+   */
+  private invalidateEffects(effects: Effect[]): void {
+    this._effectCache.clear(); // Activity can depend on the other effects
+    this._statDependencies = undefined;
+    this._statsDirty = true;
+    for (const effect of effects) {
+      effect.statTypes.forEach(statType => this._dirtyStats.add(statType));
+    }
+  }
+  
+  /**
+   * Mark a base stat as changed; effects that don't read it keep their cached activity
+   */
+  private invalidateBaseStat(statType: StatType): void {
+    this._statsDirty = true;
+    this._dirtyStats.add(statType);
+    for (const [effectId, entry] of this._effectCache) {
+      const { reads, statTypes } = entry.effect;
+      if (!reads || reads.includes(statType) || statTypes.includes(statType)) {
+        this._effectCache.delete(effectId);
+      }
+    }
+  }
+  
+  /**
+   * Base stats as a map, starting from the stat schema's defaults
+   */
+  private getBaseStatMap(): StatMap {
+    return new Map<StatType, StatValue>(Object.entries({ ...this.statSchema?.getDefaults(), ...this._baseStats }));
+  }
+  
+  /**
+   * Flag stat names the stat schema doesn't declare; derived stats count as declared
    */
-  private emitEvent(event: Event): void {
-    eventSystem.emit(event);
+  private checkStatType(statType: StatType): void {
+    this.statSchema?.checkStatType(statType, stat => this.isDerivedStat(stat));
+  }
+  
+  private isDerivedStat(statType: StatType): boolean {
+    return this._derivedStats?.has(statType) ?? false;
+  }
+  
+  /**
+   * Emit an event through the context's event system, holding it back while a transaction is open
+   */
+  emitEvent(event: Event): void {
+    if (this.inTransaction) {
+      this._queuedEvents.push(event);
+      return;
+    }
+    this._context.eventSystem.emit(event);
   }
   
   // ===== Stat Bound Methods =====
@@ -830,9 +1919,12 @@ export class Entity {
   
   /**
    * Check and emit bound events for all registered stat types
-   * This should be called whenever stats change
+   * This should be called whenever stats change; inside a transaction the
+   * check waits for the commit
    */
   checkAndEmitBoundEvents(): void {
+    if (this.inTransaction) return;
+    
     const currentStats = this.getCurrentStats();
     
     for (const [statType, config] of this._boundEventConfigs) {
@@ -868,6 +1960,7 @@ export class Entity {
     
     // Create event data
     const eventData: BoundEventData = {
+      entityId: this._id,
       statType,
       boundResult,
       previousRatio,
@@ -885,7 +1978,7 @@ export class Entity {
     if (stateChanged) {
       this.emitEvent({
         type: EventType.BOUND_STATE_CHANGED,
-        timestamp: Date.now(),
+        timestamp: this._context.clock.now(),
         data: eventData
       });
     }
@@ -893,7 +1986,7 @@ export class Entity {
     if (ratioChanged && this.shouldEmitRatioChangeEvent(eventData, config)) {
       this.emitEvent({
         type: EventType.BOUND_RATIO_CHANGED,
-        timestamp: Date.now(),
+        timestamp: this._context.clock.now(),
         data: eventData
       });
     }
@@ -901,7 +1994,7 @@ export class Entity {
     if (this.shouldEmitThresholdCrossedEvent(eventData, config)) {
       this.emitEvent({
         type: EventType.BOUND_THRESHOLD_CROSSED,
-        timestamp: Date.now(),
+        timestamp: this._context.clock.now(),
         data: eventData
       });
     }
@@ -967,3 +2060,8 @@ export class Entity {
     return true;
   }
 }
+
+function restoreMap<K, V>(target: Map<K, V>, source: ReadonlyMap<K, V>): void {
+  target.clear();
+  source.forEach((value, key) => target.set(key, value));
+}
@@ -0,0 +1,420 @@
+import {
+  EntityId,
+  EffectId,
+  StatType,
+  StatValue,
+  Effect,
+  Gear,
+  ValueProvider
+} from './types';
+import type { Entity, EntityState } from './Entity';
+import {
+  SerializationRegistry,
+  SerializationError,
+  defaultSerializationRegistry,
+  isObject
+} from './Serialization';
+
+/**
+ * Schema identifier written into every history document
+ */
+export const HISTORY_DOCUMENT_SCHEMA = 'entity-effects-api/history';
+
+/**
+ * Current history document version
+ */
+export const HISTORY_DOCUMENT_VERSION = 1;
+
+/**
+ * A recorded change to an entity
+ */
+export type EntityCommand =
+  | { readonly kind: 'setBaseStat'; readonly statType: StatType; readonly value: StatValue }
+  | { readonly kind: 'setStat'; readonly statType: StatType; readonly value: StatValue }
+  | { readonly kind: 'addEffect'; readonly effect: Effect; readonly duration?: number }
+  | { readonly kind: 'removeEffect'; readonly effectId: EffectId }
+  | { readonly kind: 'equipGear'; readonly gear: Gear; readonly slot?: string }
+  | { readonly kind: 'unequipGear'; readonly slot: string }
+  | { readonly kind: 'registerValueProvider'; readonly provider: ValueProvider }
+  | { readonly kind: 'unregisterValueProvider'; readonly providerId: string };
+
+/**
+ * Command as written to a history document; effects, gear and providers go through codecs
+ */
+export type SerializedCommand =
+  | Extract<EntityCommand, { kind: 'setBaseStat' | 'setStat' | 'removeEffect' | 'unequipGear' | 'unregisterValueProvider' }>
+  | { readonly kind: 'addEffect'; readonly effect: SerializedObject; readonly duration?: number }
+  | { readonly kind: 'equipGear'; readonly gear: SerializedObject; readonly slot?: string }
+  | { readonly kind: 'registerValueProvider'; readonly provider: SerializedObject };
+
+interface SerializedObject {
+  readonly type: string;
+  readonly data: Record<string, any>;
+}
+
+/**
+ * Versioned JSON document listing the commands applied to an entity
+ */
+export interface HistoryDocument {
+  readonly $schema: string;
+  readonly version: number;
+  readonly entityId: EntityId;
+  readonly commands: SerializedCommand[];
+}
+
+/**
+ * Value of one entry of the entity state before and after a command (undefined when absent)
+ */
+interface EntryChange {
+  readonly before: unknown;
+  readonly after: unknown;
+}
+
+/**
+ * Entries of the entity state a command changed, by state field and key
+ */
+type StateChange = ReadonlyMap<keyof EntityState, ReadonlyMap<unknown, EntryChange>>;
+
+/**
+ * A recorded command with the part of the entity state it changed
+ */
+interface HistoryEntry {
+  readonly command: EntityCommand;
+  readonly change: StateChange;
+}
+
+/**
+ * Undo/redo log for changes made to an entity
+ *
+ * Changes made through the history are recorded as commands along with the
+ * entries of the entity state each one changed (stats, effects, gear,
+ * providers and so on), old and new. Undo puts the old entries back and redo
+ * the new ones, through `Entity.restoreState`, so the history holds only what
+ * its commands changed. Recording a command after undoing discards the undone
+ * commands. Changes made to the entity directly are not recorded; they are
+ * kept when moving through the history unless a command changed the same entry.
+ */
+export class EntityHistory {
+  private readonly _entity: Entity;
+  private readonly _entries: HistoryEntry[] = [];
+  private _position: number = 0; // commands currently applied
+
+  constructor(entity: Entity) {
+    this._entity = entity;
+  }
+
+  /**
+   * Re-create a history by applying an exported document's commands to an entity
+   * @param data - The history document (or its JSON text)
+   * @param entity - Entity to replay onto, usually freshly created
+   * @param registry - Codecs for effects, gear and value providers (default: built-in codecs)
+   * @returns History positioned after the last command
+   */
+  static replay(
+    data: HistoryDocument | string,
+    entity: Entity,
+    registry: SerializationRegistry = defaultSerializationRegistry
+  ): EntityHistory {
+    const document = validateHistoryDocument(typeof data === 'string' ? JSON.parse(data) : data);
+    const history = new EntityHistory(entity);
+    document.commands.forEach((command, index) => history.execute(decodeCommand(command, registry, `$.commands[${index}]`)));
+    return history;
+  }
+
+  get entity(): Entity {
+    return this._entity;
+  }
+
+  /**
+   * Number of commands currently applied (0 before the first)
+   */
+  get position(): number {
+    return this._position;
+  }
+
+  /**
+   * Number of recorded commands, including undone ones
+   */
+  get length(): number {
+    return this._entries.length;
+  }
+
+  canUndo(): boolean {
+    return this._position > 0;
+  }
+
+  canRedo(): boolean {
+    return this._position < this._entries.length;
+  }
+
+  setBaseStat(statType: StatType, value: StatValue): void {
+    this.execute({ kind: 'setBaseStat', statType, value });
+  }
+
+  setStat(statType: StatType, value: StatValue): void {
+    this.execute({ kind: 'setStat', statType, value });
+  }
+
+  addEffect(effect: Effect, duration?: number): void {
+    this.execute({ kind: 'addEffect', effect, duration });
+  }
+
+  removeEffect(effectId: EffectId): void {
+    this.execute({ kind: 'removeEffect', effectId });
+  }
+
+  equipGear(gear: Gear, slot?: string): void {
+    this.execute({ kind: 'equipGear', gear, slot });
+  }
+
+  unequipGear(slot: string): void {
+    this.execute({ kind: 'unequipGear', slot });
+  }
+
+  registerValueProvider(provider: ValueProvider): void {
+    this.execute({ kind: 'registerValueProvider', provider });
+  }
+
+  unregisterValueProvider(providerId: string): void {
+    this.execute({ kind: 'unregisterValueProvider', providerId });
+  }
+
+  /**
+   * Apply a command to the entity and record it
+   *
+   * The command runs as a batch, so a command that throws leaves the entity
+   * and the history unchanged.
+   */
+  execute(command: EntityCommand): void {
+    const before = this._entity.saveState();
+    this._entity.batch(() => applyCommand(this._entity, command));
+
+    this._entries.splice(this._position);
+    this._entries.push({ command, change: diffStates(before, this._entity.saveState()) });
+    this._position++;
+  }
+
+  /**
+   * Take back the last applied command
+   * @returns false if there was nothing to undo
+   */
+  undo(): boolean {
+    if (!this.canUndo()) return false;
+    this.goTo(this._position - 1);
+    return true;
+  }
+
+  /**
+   * Re-apply the last undone command
+   * @returns false if there was nothing to redo
+   */
+  redo(): boolean {
+    if (!this.canRedo()) return false;
+    this.goTo(this._position + 1);
+    return true;
+  }
+
+  /**
+   * Move to the point where a number of commands are applied
+   * @param position - 0 for the state before the first command, up to `length`
+   * @throws Error if the position is outside the history
+   */
+  goTo(position: number): void {
+    if (!Number.isInteger(position) || position < 0 || position > this._entries.length) {
+      throw new Error(`History position must be between 0 and ${this._entries.length}, got ${position}`);
+    }
+    if (position === this._position) return;
+
+    let state = this._entity.saveState();
+    for (let index = this._position - 1; index >= position; index--) {
+      state = applyChange(state, this._entries[index].change, 'before');
+    }
+    for (let index = this._position; index < position; index++) {
+      state = applyChange(state, this._entries[index].change, 'after');
+    }
+    this._entity.restoreState(state);
+    this._position = position;
+  }
+
+  /**
+   * Get recorded commands
+   * @param includeUndone - Also list undone commands that can be redone
+   */
+  getCommands(includeUndone: boolean = false): EntityCommand[] {
+    return this._entries.slice(0, includeUndone ? undefined : this._position).map(entry => entry.command);
+  }
+
+  /**
+   * Write the applied commands as a versioned JSON document
+   * @param registry - Codecs for effects, gear and value providers (default: built-in codecs)
+   */
+  toJSON(registry?: SerializationRegistry): HistoryDocument {
+    // JSON.stringify passes the property key as the first argument
+    const codecs = registry instanceof SerializationRegistry ? registry : defaultSerializationRegistry;
+    return {
+      $schema: HISTORY_DOCUMENT_SCHEMA,
+      version: HISTORY_DOCUMENT_VERSION,
+      entityId: this._entity.id,
+      commands: this.getCommands().map((command, index) => encodeCommand(command, codecs, `$.commands[${index}]`))
+    };
+  }
+}
+
+function applyCommand(entity: Entity, command: EntityCommand): void {
+  switch (command.kind) {
+    case 'setBaseStat':
+      return entity.setBaseStat(command.statType, command.value);
+    case 'setStat':
+      return entity.setStat(command.statType, command.value);
+    case 'addEffect':
+      return entity.addEffect(command.effect, command.duration);
+    case 'removeEffect':
+      entity.removeEffect(command.effectId);
+      return;
+    case 'equipGear':
+      return entity.equipGear(command.gear, command.slot);
+    case 'unequipGear':
+      entity.unequipGear(command.slot);
+      return;
+    case 'registerValueProvider':
+      return entity.registerValueProvider(command.provider);
+    case 'unregisterValueProvider':
+      entity.unregisterValueProvider(command.providerId);
+      return;
+  }
+}
+
+/**
+ * Entries of each state field that differ between two states
+ */
+function diffStates(before: EntityState, after: EntityState): StateChange {
+  const change = new Map<keyof EntityState, Map<unknown, EntryChange>>();
+  for (const field of Object.keys(after) as Array<keyof EntityState>) {
+    const entriesBefore = entriesOf(before, field);
+    const entriesAfter = entriesOf(after, field);
+    const changed = new Map<unknown, EntryChange>();
+    for (const key of new Set([...entriesBefore.keys(), ...entriesAfter.keys()])) {
+      const entry = { before: entriesBefore.get(key), after: entriesAfter.get(key) };
+      if (!sameValue(entry.before, entry.after)) changed.set(key, entry);
+    }
+    if (changed.size > 0) change.set(field, changed);
+  }
+  return change;
+}
+
+/**
+ * Put the old or new entries of a change into a state
+ */
+function applyChange(state: EntityState, change: StateChange, side: keyof EntryChange): EntityState {
+  const result: Record<string, unknown> = { ...state };
+  for (const [field, changed] of change) {
+    const entries = new Map(entriesOf(state, field));
+    for (const [key, entry] of changed) {
+      if (entry[side] === undefined) entries.delete(key);
+      else entries.set(key, entry[side]);
+    }
+    result[field] = field === 'baseStats' ? Object.fromEntries(entries)
+      : field === 'derivedStats' ? entries.get(field)
+      : entries;
+  }
+  return result as unknown as EntityState;
+}
+
+/**
+ * A state field as keyed entries (base stats by stat, derived stats as a single entry)
+ */
+function entriesOf(state: EntityState, field: keyof EntityState): ReadonlyMap<unknown, unknown> {
+  const value = state[field];
+  if (field === 'baseStats') return new Map(Object.entries(value as EntityState['baseStats']));
+  if (field === 'derivedStats') return value === undefined ? new Map() : new Map([[field, value]]);
+  return value as ReadonlyMap<unknown, unknown>;
+}
+
+/**
+ * Compare entries; saved states copy stacks and resource tracking, so those compare by content
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => sameValue(item, b[index]));
+  }
+  if (isObject(a) && isObject(b) && Object.getPrototypeOf(a) === Object.prototype && Object.getPrototypeOf(b) === Object.prototype) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => sameValue(a[key], b[key]));
+  }
+  return false;
+}
+
+function encodeCommand(command: EntityCommand, registry: SerializationRegistry, path: string): SerializedCommand {
+  switch (command.kind) {
+    case 'addEffect':
+      return { ...command, effect: registry.encodeEffect(command.effect, `${path}.effect`) };
+    case 'equipGear':
+      return { ...command, gear: registry.encodeGear(command.gear, `${path}.gear`) };
+    case 'registerValueProvider':
+      return { ...command, provider: registry.encodeValueProvider(command.provider, `${path}.provider`) };
+    default:
+      return command;
+  }
+}
+
+function decodeCommand(command: SerializedCommand, registry: SerializationRegistry, path: string): EntityCommand {
+  switch (command.kind) {
+    case 'addEffect':
+      return { ...command, effect: registry.decodeEffect(command.effect.type, command.effect.data, `${path}.effect`) };
+    case 'equipGear':
+      return { ...command, gear: registry.decodeGear(command.gear.type, command.gear.data, `${path}.gear`) };
+    case 'registerValueProvider':
+      return { ...command, provider: registry.decodeValueProvider(command.provider.type, command.provider.data, `${path}.provider`) };
+    default:
+      return command;
+  }
+}
+
+const COMMAND_FIELDS: Record<EntityCommand['kind'], Record<string, 'string' | 'number' | 'object'>> = {
+  setBaseStat: { statType: 'string', value: 'number' },
+  setStat: { statType: 'string', value: 'number' },
+  addEffect: { effect: 'object' },
+  removeEffect: { effectId: 'string' },
+  equipGear: { gear: 'object' },
+  unequipGear: { slot: 'string' },
+  registerValueProvider: { provider: 'object' },
+  unregisterValueProvider: { providerId: 'string' }
+};
+
+/**
+ * Validate the shape of a history document
+ * @throws SerializationError naming the offending path
+ */
+export function validateHistoryDocument(data: unknown): HistoryDocument {
+  if (!isObject(data)) {
+    throw new SerializationError('Expected an object', '$');
+  }
+  if (data.$schema !== HISTORY_DOCUMENT_SCHEMA) {
+    throw new SerializationError(`Expected "${HISTORY_DOCUMENT_SCHEMA}"`, '$.$schema');
+  }
+  if (typeof data.version !== 'number' || data.version > HISTORY_DOCUMENT_VERSION) {
+    throw new SerializationError(`Unsupported version ${data.version} (latest is ${HISTORY_DOCUMENT_VERSION})`, '$.version');
+  }
+  if (typeof data.entityId !== 'string') {
+    throw new SerializationError('Expected a string', '$.entityId');
+  }
+  if (!Array.isArray(data.commands)) {
+    throw new SerializationError('Expected an array', '$.commands');
+  }
+
+  data.commands.forEach((command: unknown, index: number) => {
+    const path = `$.commands[${index}]`;
+    if (!isObject(command) || !Object.prototype.hasOwnProperty.call(COMMAND_FIELDS, command.kind)) {
+      throw new SerializationError(`Expected a command with kind ${Object.keys(COMMAND_FIELDS).join(', ')}`, path);
+    }
+    for (const [field, type] of Object.entries(COMMAND_FIELDS[command.kind as EntityCommand['kind']])) {
+      const valid = type === 'object' ? isObject(command[field]) && typeof command[field].type === 'string' : typeof command[field] === type;
+      if (!valid) {
+        throw new SerializationError(type === 'object' ? 'Expected an object with a string type' : `Expected a ${type}`, `${path}.${field}`);
+      }
+    }
+  });
+
+  return data as unknown as HistoryDocument;
+}
@@ -0,0 +1,252 @@
+import {
+  EntityId,
+  BaseStats,
+  Event,
+  EventType,
+  EventHandler,
+  DispatchLimitEventData
+} from './types';
+import { Entity } from './Entity';
+import { SimulationContext, defaultSimulationContext } from './SimulationContext';
+import { DerivedStatSet } from './DerivedStats';
+import { ArchetypeRegistry, SpawnOptions } from './Archetypes';
+
+/**
+ * Options for an entity registry
+ */
+export interface EntityRegistryOptions {
+  readonly routeEvents?: boolean; // Dispatch events to effect applicators (default: true)
+  readonly maxDispatchDepth?: number; // Guard against applicators re-triggering each other endlessly (default: 16)
+  readonly archetypes?: ArchetypeRegistry; // Archetypes for spawn (default: a new, empty registry)
+}
+
+/**
+ * Registry that owns a set of entities and routes events to them
+ *
+ * Every event emitted through the context's event system that names an
+ * entity in `event.data.entityId` is dispatched to the context's effect
+ * applicator manager for that entity, so registered applicators fire without
+ * manual wiring.
+ */
+export class EntityRegistry {
+  private readonly _entities: Map<EntityId, Entity> = new Map();
+  private readonly _context: SimulationContext;
+  private readonly _routeEvents: boolean;
+  private readonly _maxDispatchDepth: number;
+  private readonly _archetypes: ArchetypeRegistry;
+  private readonly _spawnCounts: Map<string, number> = new Map();
+  private readonly _routeHandler: EventHandler;
+  private _dispatchDepth: number = 0;
+  private _disposed: boolean = false;
+
+  constructor(context: SimulationContext = defaultSimulationContext, options: EntityRegistryOptions = {}) {
+    this._context = context;
+    this._routeEvents = options.routeEvents ?? true;
+    this._maxDispatchDepth = options.maxDispatchDepth ?? 16;
+    this._archetypes = options.archetypes ?? new ArchetypeRegistry();
+    this._routeHandler = (event) => this.routeEvent(event);
+
+    if (this._routeEvents) {
+      Object.values(EventType).forEach(eventType => {
+        this._context.eventSystem.on(eventType, this._routeHandler);
+      });
+    }
+  }
+
+  /**
+   * Simulation context shared by every entity in this registry
+   */
+  get context(): SimulationContext {
+    return this._context;
+  }
+
+  /**
+   * Archetypes available to spawn
+   */
+  get archetypes(): ArchetypeRegistry {
+    return this._archetypes;
+  }
+
+  /**
+   * Create and register a new entity
+   * @param derivedStats - Derived stat definitions, usually shared by entities of the same kind
+   */
+  createEntity(id: EntityId, baseStats: BaseStats, derivedStats?: DerivedStatSet): Entity {
+    if (this._entities.has(id)) {
+      throw new Error(`Entity already exists: ${id}`);
+    }
+
+    const entity = new Entity(id, baseStats, this._context, derivedStats);
+    this.registerEntity(entity);
+    return entity;
+  }
+
+  /**
+   * Create and register an entity from an archetype
+   * @param archetype - Name of an archetype in this registry's archetypes
+   * @param overrides - Entity id and settings applied on top of the archetype
+   * @returns The new entity, with the archetype's bound events, gear, effects and resources in place
+   * @throws Error if the entity cannot be set up; it is destroyed again, so the id stays free
+   */
+  spawn(archetype: string, overrides: SpawnOptions = {}): Entity {
+    const { id, ...layer } = overrides;
+    const resolved = this._archetypes.resolve(archetype, Object.keys(layer).length > 0 ? layer : undefined);
+    const entity = this.createEntity(id ?? this.nextSpawnId(archetype), resolved.baseStats, resolved.derivedStats);
+
+    try {
+      resolved.boundEvents.forEach(config => entity.registerBoundEventConfig(config));
+      resolved.gear.forEach((gear, slot) => entity.equipGear(gear, slot));
+      resolved.effects.forEach(effect => entity.addEffect(effect));
+      resolved.resources.forEach(resource => entity.registerResource(resource));
+    } catch (error) {
+      this.destroyEntity(entity.id);
+      throw error;
+    }
+    return entity;
+  }
+
+  /**
+   * Register an existing entity with this registry
+   */
+  registerEntity(entity: Entity): void {
+    if (this._entities.has(entity.id)) {
+      throw new Error(`Entity already exists: ${entity.id}`);
+    }
+    if (entity.context !== this._context) {
+      throw new Error(`Entity ${entity.id} belongs to a different simulation context`);
+    }
+
+    this._entities.set(entity.id, entity);
+
+    this._context.eventSystem.emitEvent(EventType.ENTITY_CREATED, {
+      entityId: entity.id,
+      baseStats: entity.baseStats
+    });
+  }
+
+  /**
+   * Destroy an entity and remove it from the registry
+   *
+   * Its periodic effect progress is dropped, so an entity created later with
+   * the same id starts fresh.
+   */
+  destroyEntity(id: EntityId): boolean {
+    const entity = this._entities.get(id);
+    if (!entity) return false;
+
+    this._entities.delete(id);
+    this._context.periodicEffectScheduler.clear(id);
+
+    this._context.eventSystem.emitEvent(EventType.ENTITY_DESTROYED, {
+      entityId: id,
+      effectIds: entity.getEffects().map(effect => effect.id)
+    });
+
+    return true;
+  }
+
+  /**
+   * Get an entity by ID
+   */
+  getEntity(id: EntityId): Entity | undefined {
+    return this._entities.get(id);
+  }
+
+  /**
+   * Check if an entity is registered
+   */
+  hasEntity(id: EntityId): boolean {
+    return this._entities.has(id);
+  }
+
+  /**
+   * Get all registered entities
+   */
+  getAllEntities(): Entity[] {
+    return Array.from(this._entities.values());
+  }
+
+  /**
+   * Get all registered entity IDs
+   */
+  getEntityIds(): EntityId[] {
+    return Array.from(this._entities.keys());
+  }
+
+  /**
+   * Number of registered entities
+   */
+  get size(): number {
+    return this._entities.size;
+  }
+
+  /**
+   * Destroy all entities
+   */
+  clear(): void {
+    for (const id of this.getEntityIds()) {
+      this.destroyEntity(id);
+    }
+  }
+
+  /**
+   * Stop routing events; the registry keeps its entities but no longer listens
+   *
+   * The entities' periodic effect progress is dropped from the context's scheduler.
+   */
+  dispose(): void {
+    if (this._disposed) return;
+    this._disposed = true;
+
+    for (const id of this._entities.keys()) {
+      this._context.periodicEffectScheduler.clear(id);
+    }
+
+    if (this._routeEvents) {
+      Object.values(EventType).forEach(eventType => {
+        this._context.eventSystem.off(eventType, this._routeHandler);
+      });
+    }
+  }
+
+  private nextSpawnId(archetype: string): EntityId {
+    let id: EntityId;
+    do {
+      const count = (this._spawnCounts.get(archetype) ?? 0) + 1;
+      this._spawnCounts.set(archetype, count);
+      id = `${archetype}-${count}`;
+    } while (this._entities.has(id));
+    return id;
+  }
+
+  /**
+   * Dispatch an event to effect applicators for the entity it names
+   *
+   * Past the dispatch depth limit the event is not dispatched and
+   * EVENT_DISPATCH_LIMIT_REACHED is emitted instead.
+   */
+  private routeEvent(event: Event): void {
+    const entityId: EntityId | undefined = event.data?.entityId;
+    if (entityId === undefined || event.type === EventType.EVENT_DISPATCH_LIMIT_REACHED) return;
+
+    const entity = this._entities.get(entityId);
+    if (!entity) return;
+
+    // Applicators add effects, which emit events, which are routed again
+    if (this._dispatchDepth >= this._maxDispatchDepth) {
+      this._context.eventSystem.emitEvent<DispatchLimitEventData>(EventType.EVENT_DISPATCH_LIMIT_REACHED, {
+        entityId,
+        event,
+        maxDispatchDepth: this._maxDispatchDepth
+      });
+      return;
+    }
+
+    this._dispatchDepth++;
+    try {
+      this._context.effectApplicatorManager.handleEventForEntity(event, entity);
+    } finally {
+      this._dispatchDepth--;
+    }
+  }
+}
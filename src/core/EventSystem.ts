@@ -1,4 +1,5 @@
 import { Event, EventType, EventHandler } from './types';
+import { Clock, realTimeClock } from './Clock';
 
 /**
  * Event-driven system for managing entity and effect lifecycle
@@ -8,7 +9,10 @@ export class EventSystem {
   private readonly eventHistory: Event[] = [];
   private readonly maxHistorySize: number = 1000;
   
-  constructor() {
+  /**
+   * @param clock - Clock used to timestamp events emitted through emitEvent
+   */
+  constructor(private readonly clock: Clock = realTimeClock) {
     // Initialize handler sets for all event types
     Object.values(EventType).forEach(type => {
       this.handlers.set(type, new Set());
@@ -60,7 +64,7 @@ export class EventSystem {
   emitEvent<T = any>(type: EventType, data: T): void {
     this.emit({
       type,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       data
     });
   }
@@ -0,0 +1,323 @@
+import {
+  FrameContainer,
+  FrameComparison,
+  FrameComparisonOptions,
+  FramePatch,
+  EntityPatch,
+  FrameEntityData,
+  FrameEffectState,
+  FrameGearState,
+  EntityDifference,
+  StatChange,
+  EffectChange,
+  GearChange,
+  EntityId,
+  EffectId,
+  StatMap,
+  StatValue
+} from './types';
+import { OptimizedFrameContainer, sameEffectState, sameGearState } from './OptimizedFrameSystem';
+
+/**
+ * Compare two frames
+ *
+ * Reports entities added and removed, and for entities in both frames the
+ * stats that changed, appeared or disappeared, effects added, removed or
+ * changed (stack count or expiry), and gear slot changes. Remaining
+ * durations that only shrank by the time between the frames are not changes.
+ * @param frame1 - The earlier frame
+ * @param frame2 - The later frame
+ * @param options.tolerance - Stat and expiry differences up to this are ignored (default: 0)
+ */
+export function compareFrames(
+  frame1: FrameContainer,
+  frame2: FrameContainer,
+  options: FrameComparisonOptions = {}
+): FrameComparison {
+  const tolerance = options.tolerance ?? 0;
+  const entities1 = new Set(frame1.entityIds);
+  const entities2 = new Set(frame2.entityIds);
+  const differences: EntityDifference[] = [];
+
+  for (const entityId of frame1.entityIds) {
+    if (!entities2.has(entityId)) {
+      differences.push({ entityId, type: 'entity_removed', changes: [] });
+      continue;
+    }
+
+    const changes = compareStats(frame1.getEntityStats(entityId), frame2.getEntityStats(entityId), tolerance);
+    if (changes.length > 0) {
+      differences.push({ entityId, type: 'stats_changed', changes });
+    }
+
+    const effectChanges = compareEffects(
+      frame1.getEntityEffectStates(entityId),
+      frame2.getEntityEffectStates(entityId),
+      frame1.timestamp,
+      frame2.timestamp,
+      tolerance
+    );
+    if (effectChanges.length > 0) {
+      differences.push({ entityId, type: 'effects_changed', changes: [], effectChanges });
+    }
+
+    const gearChanges = compareGear(frame1.getEntityGear(entityId), frame2.getEntityGear(entityId));
+    if (gearChanges.length > 0) {
+      differences.push({ entityId, type: 'gear_changed', changes: [], gearChanges });
+    }
+  }
+
+  for (const entityId of frame2.entityIds) {
+    if (!entities1.has(entityId)) {
+      differences.push({ entityId, type: 'entity_added', changes: [] });
+    }
+  }
+
+  return {
+    frame1Id: frame1.frameId,
+    frame2Id: frame2.frameId,
+    timeDifference: frame2.timestamp - frame1.timestamp,
+    differences
+  };
+}
+
+/**
+ * Record the changes that turn one frame into another
+ *
+ * The patch is exact (no tolerance) and plain JSON, and `applyFramePatch`
+ * rebuilds the later frame from the earlier one with it. Both frames should
+ * track the same data.
+ * @param frame1 - The earlier frame
+ * @param frame2 - The later frame
+ */
+export function createFramePatch(frame1: FrameContainer, frame2: FrameContainer): FramePatch {
+  const entities1 = new Set(frame1.entityIds);
+  const entities: Record<EntityId, EntityPatch> = {};
+
+  for (const entityId of frame2.entityIds) {
+    const known = entities1.has(entityId);
+    const patch = diffEntity(
+      known ? frame1.getEntityStats(entityId) : undefined,
+      frame2.getEntityStats(entityId),
+      known ? frame1.getEntityEffectStates(entityId) : undefined,
+      frame2.getEntityEffectStates(entityId),
+      known ? frame1.getEntityGear(entityId) : undefined,
+      frame2.getEntityGear(entityId)
+    );
+    if (!known || Object.keys(patch).length > 0) {
+      entities[entityId] = patch;
+    }
+  }
+
+  const sameEntities = frame1.entityIds.length === frame2.entityIds.length &&
+    frame1.entityIds.every((entityId, index) => entityId === frame2.entityIds[index]);
+  return {
+    baseFrameId: frame1.frameId,
+    frameId: frame2.frameId,
+    timestamp: frame2.timestamp,
+    ...(frame2.metadata && { metadata: frame2.metadata }),
+    ...(!sameEntities && { entityIds: [...frame2.entityIds] }),
+    entities
+  };
+}
+
+/**
+ * Rebuild a frame by applying a patch to the frame it was made from
+ *
+ * The result is a captured frame stored against the base frame.
+ * @throws Error if the patch was made from another frame
+ */
+export function applyFramePatch(frame: OptimizedFrameContainer, patch: FramePatch): OptimizedFrameContainer {
+  if (patch.baseFrameId !== frame.frameId) {
+    throw new Error(`Patch applies to frame ${patch.baseFrameId}, not ${frame.frameId}`);
+  }
+
+  const entities = (patch.entityIds ?? frame.entityIds).map(entityId => {
+    const data = frame.toEntityData(entityId) ?? { entityId };
+    const entityPatch = patch.entities[entityId];
+    return entityPatch ? patchEntity(data, entityPatch) : data;
+  });
+
+  return new OptimizedFrameContainer(
+    patch.frameId,
+    entities,
+    {
+      trackStats: 'all',
+      trackEffects: true,
+      trackContext: false,
+      maxCacheSize: 100,
+      enableLazyEvaluation: false
+    },
+    patch.metadata,
+    patch.timestamp,
+    frame
+  );
+}
+
+function compareStats(stats1: StatMap | undefined, stats2: StatMap | undefined, tolerance: number): StatChange[] {
+  if (!stats1 || !stats2) return [];
+
+  const changes: StatChange[] = [];
+  for (const [statType, oldValue] of stats1) {
+    const newValue = stats2.get(statType);
+    if (newValue === undefined) {
+      changes.push({ statType, kind: 'removed', oldValue, newValue: 0, difference: -oldValue });
+    } else if (Math.abs(newValue - oldValue) > tolerance) {
+      changes.push({ statType, kind: 'changed', oldValue, newValue, difference: newValue - oldValue });
+    }
+  }
+  for (const [statType, newValue] of stats2) {
+    if (!stats1.has(statType)) {
+      changes.push({ statType, kind: 'added', oldValue: 0, newValue, difference: newValue });
+    }
+  }
+  return changes;
+}
+
+function compareEffects(
+  states1: ReadonlyMap<EffectId, FrameEffectState> | undefined,
+  states2: ReadonlyMap<EffectId, FrameEffectState> | undefined,
+  time1: number,
+  time2: number,
+  tolerance: number
+): EffectChange[] {
+  if (!states1 || !states2) return [];
+
+  const changes: EffectChange[] = [];
+  for (const [effectId, state1] of states1) {
+    const state2 = states2.get(effectId);
+    if (!state2) {
+      changes.push({ effectId, kind: 'removed', oldStacks: state1.stacks, oldRemaining: remaining(state1, time1) });
+    } else if (state1.stacks !== state2.stacks || differs(state1.expiresAt, state2.expiresAt, tolerance)) {
+      changes.push({
+        effectId,
+        kind: 'changed',
+        oldStacks: state1.stacks,
+        newStacks: state2.stacks,
+        oldRemaining: remaining(state1, time1),
+        newRemaining: remaining(state2, time2)
+      });
+    }
+  }
+  for (const [effectId, state2] of states2) {
+    if (!states1.has(effectId)) {
+      changes.push({ effectId, kind: 'added', newStacks: state2.stacks, newRemaining: remaining(state2, time2) });
+    }
+  }
+  return changes;
+}
+
+function compareGear(
+  gear1: ReadonlyMap<string, FrameGearState> | undefined,
+  gear2: ReadonlyMap<string, FrameGearState> | undefined
+): GearChange[] {
+  if (!gear1 || !gear2) return [];
+
+  const changes: GearChange[] = [];
+  for (const [slot, oldGear] of gear1) {
+    const newGear = gear2.get(slot);
+    if (!newGear) {
+      changes.push({ slot, kind: 'unequipped', oldGear });
+    } else if (newGear.gearId !== oldGear.gearId) {
+      changes.push({ slot, kind: 'replaced', oldGear, newGear });
+    }
+  }
+  for (const [slot, newGear] of gear2) {
+    if (!gear1.has(slot)) {
+      changes.push({ slot, kind: 'equipped', newGear });
+    }
+  }
+  return changes;
+}
+
+function remaining(state: FrameEffectState, time: number): number | undefined {
+  return state.expiresAt === undefined ? undefined : Math.max(0, state.expiresAt - time);
+}
+
+function differs(a: number | undefined, b: number | undefined, tolerance: number): boolean {
+  if (a === undefined || b === undefined) return a !== b;
+  return Math.abs(a - b) > tolerance;
+}
+
+function diffEntity(
+  stats1: StatMap | undefined,
+  stats2: StatMap | undefined,
+  effects1: ReadonlyMap<EffectId, FrameEffectState> | undefined,
+  effects2: ReadonlyMap<EffectId, FrameEffectState> | undefined,
+  gear1: ReadonlyMap<string, FrameGearState> | undefined,
+  gear2: ReadonlyMap<string, FrameGearState> | undefined
+): EntityPatch {
+  const patch: { -readonly [K in keyof EntityPatch]: EntityPatch[K] } = {};
+
+  const stats = diffEntries(stats1, stats2, (a, b) => a === b);
+  if (stats) patch.stats = stats;
+
+  const effects = diffEntries(effects1, effects2, sameEffectState);
+  if (effects) patch.effects = effects;
+  if (effects2) {
+    const order = Array.from(effects2.keys());
+    const expected = [
+      ...Array.from(effects1?.keys() ?? []).filter(effectId => effects2.has(effectId)),
+      ...order.filter(effectId => !effects1?.has(effectId))
+    ];
+    if (expected.some((effectId, index) => effectId !== order[index])) patch.effectOrder = order;
+  }
+
+  const gear = diffEntries(gear1, gear2, sameGearState);
+  if (gear) patch.gear = gear;
+
+  return patch;
+}
+
+/**
+ * Entries set or changed in the second map, and null for entries it no longer has
+ * @returns undefined when nothing changed (always the entries when there is no first map)
+ */
+function diffEntries<V>(
+  before: ReadonlyMap<string, V> | undefined,
+  after: ReadonlyMap<string, V> | undefined,
+  same: (a: V, b: V) => boolean
+): Record<string, V | null> | undefined {
+  if (!after) return undefined;
+
+  const entries: Record<string, V | null> = {};
+  for (const [key, value] of after) {
+    const previous = before?.get(key);
+    if (previous === undefined || !same(previous, value)) entries[key] = value;
+  }
+  for (const key of before?.keys() ?? []) {
+    if (!after.has(key)) entries[key] = null;
+  }
+  return !before || Object.keys(entries).length > 0 ? entries : undefined;
+}
+
+function patchEntity(data: FrameEntityData, patch: EntityPatch): FrameEntityData {
+  const stats: Record<string, StatValue> = { ...data.stats };
+  for (const [statType, value] of Object.entries(patch.stats ?? {})) {
+    if (value === null) delete stats[statType];
+    else stats[statType] = value;
+  }
+
+  const effects = patchEntries(data.effects?.map(state => [state.effectId, state]), patch.effects);
+  const order = patch.effectOrder ?? Array.from(effects.keys());
+  const gear = patchEntries(data.gear?.map(item => [item.slot, item]), patch.gear);
+
+  return {
+    entityId: data.entityId,
+    ...((data.stats || patch.stats) && { stats }),
+    ...((data.effects || patch.effects) && { effects: order.map(effectId => effects.get(effectId)!) }),
+    ...((data.gear || patch.gear) && { gear: Array.from(gear.values()) })
+  };
+}
+
+function patchEntries<V>(
+  entries: Array<[string, V]> | undefined,
+  changes: Record<string, V | null> | undefined
+): Map<string, V> {
+  const patched = new Map(entries);
+  for (const [key, value] of Object.entries(changes ?? {})) {
+    if (value === null) patched.delete(key);
+    else patched.set(key, value);
+  }
+  return patched;
+}
@@ -0,0 +1,281 @@
+import { FrameEntityData, EntityId, StatType, StatValue } from './types';
+import { SerializationError, isObject } from './Serialization';
+
+/**
+ * Schema identifier written into every frame document
+ */
+export const FRAME_DOCUMENT_SCHEMA = 'entity-effects-api/frames';
+
+/**
+ * Current frame document version
+ */
+export const FRAME_DOCUMENT_VERSION = 1;
+
+/**
+ * Columns of frame CSV files, one row per frame, entity and stat
+ */
+export const FRAME_CSV_COLUMNS = ['snapshotId', 'frameId', 'timestamp', 'entityId', 'statType', 'value'];
+
+/**
+ * A frame as plain JSON
+ */
+export interface SerializedFrame {
+  readonly snapshotId?: string; // Set for frames exported as FrameManager snapshots
+  readonly frameId: string;
+  readonly timestamp: number;
+  readonly metadata?: Record<string, any>;
+  readonly entities: FrameEntityData[];
+}
+
+/**
+ * Versioned JSON document holding frames in order
+ */
+export interface FrameDocument {
+  readonly $schema: string;
+  readonly version: number;
+  readonly frames: SerializedFrame[];
+}
+
+/**
+ * Wrap frames in a versioned document
+ */
+export function createFrameDocument(frames: Iterable<SerializedFrame>): FrameDocument {
+  return {
+    $schema: FRAME_DOCUMENT_SCHEMA,
+    version: FRAME_DOCUMENT_VERSION,
+    frames: Array.from(frames)
+  };
+}
+
+/**
+ * Write frames as CSV with one row per frame, entity and stat
+ *
+ * Only stats are written. An entity without stats gets one row with empty
+ * stat columns, and a frame without entities one row with an empty entity
+ * column, so both are still there when read back.
+ */
+export function writeFramesCSV(frames: Iterable<SerializedFrame>): string {
+  const rows = [FRAME_CSV_COLUMNS.join(',')];
+  for (const frame of frames) {
+    const prefix = [frame.snapshotId ?? '', frame.frameId, String(frame.timestamp)];
+    if (frame.entities.length === 0) {
+      rows.push(toCSVRow([...prefix, '', '', '']));
+    }
+    for (const { entityId, stats } of frame.entities) {
+      const entries = Object.entries(stats ?? {});
+      if (entries.length === 0) {
+        rows.push(toCSVRow([...prefix, entityId, '', '']));
+      }
+      for (const [statType, value] of entries) {
+        rows.push(toCSVRow([...prefix, entityId, statType, String(value)]));
+      }
+    }
+  }
+  return rows.join('\n') + '\n';
+}
+
+/**
+ * Write frames as newline-delimited JSON, one line at a time
+ *
+ * The first line holds the schema and version, then each frame takes one
+ * line. Frames are serialized as the lines are read, so a long recording can
+ * be piped to a file without building the whole text.
+ */
+export function* writeFramesNDJSON(frames: Iterable<SerializedFrame>): IterableIterator<string> {
+  yield JSON.stringify({ $schema: FRAME_DOCUMENT_SCHEMA, version: FRAME_DOCUMENT_VERSION }) + '\n';
+  for (const frame of frames) {
+    yield JSON.stringify(frame) + '\n';
+  }
+}
+
+/**
+ * Read frames written by `writeFramesCSV`
+ * @throws SerializationError naming the offending line
+ */
+export function readFramesCSV(text: string): FrameDocument {
+  const [header, ...rows] = parseCSV(text);
+  if (!header || header.join(',') !== FRAME_CSV_COLUMNS.join(',')) {
+    throw new SerializationError(`Expected the columns ${FRAME_CSV_COLUMNS.join(',')}`, 'line 1');
+  }
+
+  const frames = new Map<string, { frame: SerializedFrame; entities: Map<EntityId, Record<StatType, StatValue> | undefined> }>();
+  rows.forEach((row, index) => {
+    const path = `line ${index + 2}`;
+    if (row.length !== FRAME_CSV_COLUMNS.length) {
+      throw new SerializationError(`Expected ${FRAME_CSV_COLUMNS.length} columns, got ${row.length}`, path);
+    }
+    const [snapshotId, frameId, timestamp, entityId, statType, value] = row;
+    if (!frameId || timestamp === '' || Number.isNaN(Number(timestamp))) {
+      throw new SerializationError('Expected a frameId and a numeric timestamp', path);
+    }
+    if (!entityId && (statType !== '' || value !== '')) {
+      throw new SerializationError(`Expected an entityId for ${statType || 'the value'}`, path);
+    }
+    if (statType !== '' && (value === '' || Number.isNaN(Number(value)))) {
+      throw new SerializationError(`Expected a number for ${statType}, got "${value}"`, path);
+    }
+
+    const key = JSON.stringify([snapshotId, frameId]);
+    const entry = frames.get(key) ?? {
+      frame: { ...(snapshotId && { snapshotId }), frameId, timestamp: Number(timestamp), entities: [] },
+      entities: new Map()
+    };
+    frames.set(key, entry);
+    if (!entityId) return; // A frame without entities
+
+    const stats = entry.entities.get(entityId);
+    if (statType === '') {
+      if (!entry.entities.has(entityId)) entry.entities.set(entityId, undefined);
+    } else {
+      entry.entities.set(entityId, { ...stats, [statType]: Number(value) });
+    }
+  });
+
+  return createFrameDocument(Array.from(frames.values()).map(({ frame, entities }) => ({
+    ...frame,
+    entities: Array.from(entities).map(([entityId, stats]) => ({ entityId, stats: stats ?? {} }))
+  })));
+}
+
+/**
+ * Read frames written by `writeFramesNDJSON`
+ * @param input - The text, or chunks of it in order (e.g. read from a file)
+ * @throws SerializationError naming the offending line, or the frame for malformed frames
+ */
+export function readFramesNDJSON(input: string | Iterable<string>): FrameDocument {
+  const lines: unknown[] = [];
+  let pending = '';
+  let lineNumber = 0;
+  const readLine = (line: string) => {
+    lineNumber++;
+    if (line.trim() === '') return;
+    try {
+      lines.push(JSON.parse(line));
+    } catch (error) {
+      throw new SerializationError((error as Error).message, `line ${lineNumber}`);
+    }
+  };
+
+  for (const chunk of typeof input === 'string' ? [input] : input) {
+    const parts = (pending + chunk).split('\n');
+    pending = parts.pop()!;
+    parts.forEach(readLine);
+  }
+  readLine(pending);
+
+  const [header, ...frames] = lines;
+  return validateFrameDocument({ ...(isObject(header) ? header : {}), frames });
+}
+
+/**
+ * Validate the shape of a frame document
+ * @throws SerializationError naming the offending path
+ */
+export function validateFrameDocument(data: unknown): FrameDocument {
+  if (!isObject(data)) {
+    throw new SerializationError('Expected an object', '$');
+  }
+  if (data.$schema !== FRAME_DOCUMENT_SCHEMA) {
+    throw new SerializationError(`Expected "${FRAME_DOCUMENT_SCHEMA}"`, '$.$schema');
+  }
+  if (typeof data.version !== 'number' || data.version > FRAME_DOCUMENT_VERSION) {
+    throw new SerializationError(`Unsupported version ${data.version} (latest is ${FRAME_DOCUMENT_VERSION})`, '$.version');
+  }
+  if (!Array.isArray(data.frames)) {
+    throw new SerializationError('Expected an array', '$.frames');
+  }
+
+  data.frames.forEach((frame: unknown, index: number) => {
+    const path = `$.frames[${index}]`;
+    if (!isObject(frame) || typeof frame.frameId !== 'string' || typeof frame.timestamp !== 'number') {
+      throw new SerializationError('Expected an object with a string frameId and a numeric timestamp', path);
+    }
+    if (frame.snapshotId !== undefined && typeof frame.snapshotId !== 'string') {
+      throw new SerializationError('Expected a string', `${path}.snapshotId`);
+    }
+    if (!Array.isArray(frame.entities)) {
+      throw new SerializationError('Expected an array', `${path}.entities`);
+    }
+    frame.entities.forEach((entity: unknown, entityIndex: number) => validateEntityData(entity, `${path}.entities[${entityIndex}]`));
+  });
+
+  return data as unknown as FrameDocument;
+}
+
+function validateEntityData(entity: unknown, path: string): void {
+  if (!isObject(entity) || typeof entity.entityId !== 'string') {
+    throw new SerializationError('Expected an object with a string entityId', path);
+  }
+  if (entity.stats !== undefined) {
+    if (!isObject(entity.stats)) {
+      throw new SerializationError('Expected an object', `${path}.stats`);
+    }
+    for (const [statType, value] of Object.entries(entity.stats)) {
+      if (typeof value !== 'number') {
+        throw new SerializationError('Expected a number', `${path}.stats.${statType}`);
+      }
+    }
+  }
+  if (entity.effects !== undefined) {
+    if (!Array.isArray(entity.effects)) {
+      throw new SerializationError('Expected an array', `${path}.effects`);
+    }
+    entity.effects.forEach((effect: unknown, index: number) => {
+      if (!isObject(effect) || typeof effect.effectId !== 'string' || typeof effect.name !== 'string' ||
+          !Array.isArray(effect.tags) || typeof effect.stacks !== 'number') {
+        throw new SerializationError('Expected an object with effectId, name, tags and stacks', `${path}.effects[${index}]`);
+      }
+    });
+  }
+  if (entity.gear !== undefined) {
+    if (!Array.isArray(entity.gear)) {
+      throw new SerializationError('Expected an array', `${path}.gear`);
+    }
+    entity.gear.forEach((gear: unknown, index: number) => {
+      if (!isObject(gear) || ['slot', 'gearId', 'name', 'type'].some(field => typeof gear[field] !== 'string')) {
+        throw new SerializationError('Expected an object with string slot, gearId, name and type', `${path}.gear[${index}]`);
+      }
+    });
+  }
+}
+
+function toCSVRow(fields: string[]): string {
+  return fields.map(field => /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field).join(',');
+}
+
+function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      row.push(field);
+      if (row.length > 1 || row[0] !== '') rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.length > 1 || row[0] !== '') rows.push(row);
+  return rows;
+}
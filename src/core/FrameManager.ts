@@ -2,17 +2,31 @@ import {
   EntityId, 
   StatType, 
   StatValue,
-  EventType
+  EventType,
+  EffectChange,
+  GearChange,
+  FrameComparisonOptions,
+  FramePatch
 } from './types';
 import { Entity } from './Entity';
-import { eventSystem } from './EventSystem';
 import { 
   OptimizedFrameContainer, 
   OptimizedFrameView, 
   FrameFactory,
   FrameConfig 
 } from './OptimizedFrameSystem';
-import { effectApplicatorManager } from './EffectApplicator';
+import { SimulationContext, defaultSimulationContext } from './SimulationContext';
+import { compareFrames, createFramePatch } from './FrameDiff';
+import {
+  SerializedFrame,
+  FrameDocument,
+  createFrameDocument,
+  validateFrameDocument,
+  writeFramesCSV,
+  writeFramesNDJSON,
+  readFramesCSV,
+  readFramesNDJSON
+} from './FrameExport';
 
 /**
  * Transient frame manager with optional snapshotting
@@ -20,11 +34,18 @@ import { effectApplicatorManager } from './EffectApplicator';
 export class FrameManager {
   private readonly _snapshots: Map<string, OptimizedFrameContainer> = new Map();
   private readonly _recentCache: OptimizedFrameContainer[] = [];
+  private _lastSnapshot: OptimizedFrameContainer | undefined; // Parent of the next captured snapshot
   private readonly _frameFactory: FrameFactory;
   private readonly _defaultConfig: FrameConfig;
   private readonly _maxRecentCache: number;
+  private readonly _context: SimulationContext;
   
-  constructor(defaultConfig?: Partial<FrameConfig>, maxRecentCache: number = 5) {
+  constructor(
+    defaultConfig?: Partial<FrameConfig>,
+    maxRecentCache: number = 5,
+    context: SimulationContext = defaultSimulationContext
+  ) {
+    this._context = context;
     this._defaultConfig = {
       trackStats: 'all', // Track all stats by default
       trackEffects: true,
@@ -33,7 +54,7 @@ export class FrameManager {
       enableLazyEvaluation: true,
       ...defaultConfig
     };
-    this._frameFactory = new FrameFactory(this._defaultConfig);
+    this._frameFactory = new FrameFactory(this._defaultConfig, context);
     this._maxRecentCache = maxRecentCache;
   }
   
@@ -45,10 +66,10 @@ export class FrameManager {
     config?: Partial<FrameConfig>,
     metadata?: Record<string, any>
   ): OptimizedFrameContainer {
-    const currentTime = Date.now();
+    const currentTime = this._context.clock.now();
     
     // Check for expired effects before creating frame (performance optimization)
-    effectApplicatorManager.checkExpiredEffectsForEntities(entities, currentTime);
+    this._context.effectApplicatorManager.checkExpiredEffectsForEntities(entities, currentTime);
     
     const container = this._frameFactory.createFrame(entities, config, metadata);
 
@@ -60,6 +81,11 @@ export class FrameManager {
   
   /**
    * Create and explicitly snapshot a frame with an identifier
+   *
+   * Snapshots capture their entities eagerly into frozen structures unless the
+   * config sets `enableLazyEvaluation: true`. Each captured snapshot stores only
+   * the stats that changed since the previous one, with a full copy every
+   * `keyframeInterval` snapshots.
    */
   createSnapshot(
     entities: Entity[], 
@@ -67,10 +93,18 @@ export class FrameManager {
     config?: Partial<FrameConfig>,
     metadata?: Record<string, any>
   ): OptimizedFrameContainer {
-    const container = this._frameFactory.createFrame(entities, config, metadata);
+    const container = this._frameFactory.createFrame(
+      entities,
+      { enableLazyEvaluation: false, ...config },
+      metadata,
+      this._lastSnapshot
+    );
     
     // Store as explicit snapshot
     this._snapshots.set(snapshotId, container);
+    if (container.isFrozen) {
+      this._lastSnapshot = container;
+    }
     
     // Also add to recent cache
     this.addToRecentCache(container);
@@ -100,6 +134,19 @@ export class FrameManager {
     return this._frameFactory.createLightweightFrame(entities, statTypes, metadata);
   }
   
+  /**
+   * Store an existing frame as a snapshot
+   *
+   * Captured frames added this way become the frame the next captured
+   * snapshot stores its changes against.
+   */
+  addSnapshot(snapshotId: string, frame: OptimizedFrameContainer): void {
+    this._snapshots.set(snapshotId, frame);
+    if (frame.isFrozen) {
+      this._lastSnapshot = frame;
+    }
+  }
+  
   /**
    * Get a snapshot by identifier
    */
@@ -131,8 +178,15 @@ export class FrameManager {
   
   /**
    * Remove a snapshot
+   *
+   * Later snapshots that store their changes against it keep it in memory
+   * for as long as they are kept.
    */
   removeSnapshot(snapshotId: string): boolean {
+    const snapshot = this._snapshots.get(snapshotId);
+    if (snapshot && snapshot === this._lastSnapshot) {
+      this._lastSnapshot = undefined;
+    }
     return this._snapshots.delete(snapshotId);
   }
   
@@ -141,83 +195,121 @@ export class FrameManager {
    */
   compareWithSnapshot(
     currentFrame: OptimizedFrameContainer, 
-    snapshotId: string
+    snapshotId: string,
+    options?: FrameComparisonOptions
   ): FrameComparison | undefined {
     const snapshot = this.getSnapshot(snapshotId);
     if (!snapshot) return undefined;
     
-    return this.compareFrameContainers(currentFrame, snapshot);
+    return this.compareFrames(currentFrame, snapshot, options);
   }
   
   /**
    * Compare current frame against the most recent frame
    */
-  compareWithLatest(currentFrame: OptimizedFrameContainer): FrameComparison | undefined {
+  compareWithLatest(currentFrame: OptimizedFrameContainer, options?: FrameComparisonOptions): FrameComparison | undefined {
     const latest = this.getLatestFrame();
     if (!latest) return undefined;
     
-    return this.compareFrameContainers(currentFrame, latest);
+    return this.compareFrames(currentFrame, latest, options);
   }
   
   /**
    * Compare two snapshots
    */
-  compareSnapshots(snapshot1Id: string, snapshot2Id: string): FrameComparison | undefined {
+  compareSnapshots(snapshot1Id: string, snapshot2Id: string, options?: FrameComparisonOptions): FrameComparison | undefined {
     const snapshot1 = this.getSnapshot(snapshot1Id);
     const snapshot2 = this.getSnapshot(snapshot2Id);
     
     if (!snapshot1 || !snapshot2) return undefined;
     
-    return this.compareFrameContainers(snapshot1, snapshot2);
+    return this.compareFrames(snapshot1, snapshot2, options);
   }
   
   /**
-   * Compare two frame containers
+   * Compare two frame containers: stats, effects and gear of every entity (see `compareFrames`)
    */
-  private compareFrameContainers(
+  compareFrames(
     frame1: OptimizedFrameContainer, 
-    frame2: OptimizedFrameContainer
+    frame2: OptimizedFrameContainer,
+    options?: FrameComparisonOptions
   ): FrameComparison {
-    const differences: EntityDifference[] = [];
-    
-    // Compare each entity using lazy evaluation
-    for (const entityId of frame1.entityIds) {
-      if (!frame2.entityIds.includes(entityId)) {
-        differences.push({
-          entityId,
-          type: 'entity_removed',
-          changes: []
-        });
-        continue;
-      }
-      
-      const statChanges = this.compareEntityStatsOptimized(frame1, frame2, entityId);
-      if (statChanges.length > 0) {
-        differences.push({
-          entityId,
-          type: 'stats_changed',
-          changes: statChanges
-        });
-      }
-    }
+    return compareFrames(frame1, frame2, options);
+  }
+  
+  /**
+   * Record the changes from one snapshot to another (see `createFramePatch`)
+   */
+  createSnapshotPatch(snapshot1Id: string, snapshot2Id: string): FramePatch | undefined {
+    const snapshot1 = this.getSnapshot(snapshot1Id);
+    const snapshot2 = this.getSnapshot(snapshot2Id);
     
-    // Check for new entities in frame2
-    for (const entityId of frame2.entityIds) {
-      if (!frame1.entityIds.includes(entityId)) {
-        differences.push({
-          entityId,
-          type: 'entity_added',
-          changes: []
-        });
-      }
-    }
+    if (!snapshot1 || !snapshot2) return undefined;
     
-    return {
-      frame1Id: frame1.frameId,
-      frame2Id: frame2.frameId,
-      timeDifference: frame2.timestamp - frame1.timestamp,
-      differences
-    };
+    return createFramePatch(snapshot1, snapshot2);
+  }
+  
+  /**
+   * Export frames as a versioned JSON document
+   * @param frames - Frames to export (default: every snapshot, with its identifier)
+   */
+  exportFrames(frames?: OptimizedFrameContainer[]): FrameDocument {
+    return createFrameDocument(this.serializeFrames(frames));
+  }
+  
+  /**
+   * Export every snapshot as a versioned JSON document (see `exportFrames`)
+   */
+  toJSON(): FrameDocument {
+    return this.exportFrames();
+  }
+  
+  /**
+   * Export frames as CSV with one row per frame, entity and stat
+   *
+   * Only stats are written; use JSON or NDJSON to keep effects and gear.
+   * @param frames - Frames to export (default: every snapshot, with its identifier)
+   */
+  toCSV(frames?: OptimizedFrameContainer[]): string {
+    return writeFramesCSV(this.serializeFrames(frames));
+  }
+  
+  /**
+   * Export frames as newline-delimited JSON, serializing one frame per line as it is read
+   * @param frames - Frames to export (default: every snapshot, with its identifier)
+   */
+  toNDJSON(frames?: OptimizedFrameContainer[]): IterableIterator<string> {
+    return writeFramesNDJSON(this.serializeFrames(frames));
+  }
+  
+  /**
+   * Create a frame manager holding frames exported by `toJSON`
+   *
+   * Each frame becomes a read-only snapshot under its exported snapshot
+   * identifier, or its frame identifier when it had none, so exported runs
+   * can be compared offline with `compareSnapshots`.
+   * @throws SerializationError if the document is malformed
+   */
+  static fromJSON(data: FrameDocument | string, context?: SimulationContext): FrameManager {
+    const document = validateFrameDocument(typeof data === 'string' ? JSON.parse(data) : data);
+    return FrameManager.fromDocument(document, context);
+  }
+  
+  /**
+   * Create a frame manager holding frames exported by `toCSV` (see `fromJSON`)
+   * @throws SerializationError naming the offending line
+   */
+  static fromCSV(text: string, context?: SimulationContext): FrameManager {
+    return FrameManager.fromDocument(readFramesCSV(text), context);
+  }
+  
+  /**
+   * Create a frame manager holding frames exported by `toNDJSON` (see `fromJSON`)
+   * @param input - The text, or chunks of it in order
+   * @throws SerializationError naming the offending line or frame
+   */
+  static fromNDJSON(input: string | Iterable<string>, context?: SimulationContext): FrameManager {
+    return FrameManager.fromDocument(readFramesNDJSON(input), context);
   }
   
   /**
@@ -239,7 +331,7 @@ export class FrameManager {
     
     let totalEntities = 0;
     const entityCounts = new Map<EntityId, number>();
-    let earliestTime = Date.now();
+    let earliestTime = this._context.clock.now();
     let latestTime = 0;
     
     // Process snapshots
@@ -292,6 +384,7 @@ export class FrameManager {
       frame.clearCaches();
     }
     this._snapshots.clear();
+    this._lastSnapshot = undefined;
   }
   
   /**
@@ -304,27 +397,80 @@ export class FrameManager {
   
   /**
    * Get memory usage statistics
+   *
+   * Memory is estimated in bytes. It covers every frame held in memory,
+   * including removed snapshots that later snapshots are still stored
+   * against, and counts structures shared between frames once.
    */
   getMemoryStats(): { 
     snapshots: number; 
     recentCache: number; 
-    totalMemoryUsage: number; 
-    averageMemoryPerFrame: number 
+    retainedFrames: number; // Distinct frames held, including base frames of snapshots
+    keyframes: number; // Captured frames holding a full copy of their stats
+    deltaFrames: number; // Captured frames holding only stat changes
+    totalMemoryUsage: number; // bytes
+    averageMemoryPerFrame: number // bytes
   } {
     const snapshots = this.getAllSnapshots();
     const recentFrames = this.getRecentFrames();
-    const allFrames = [...snapshots, ...recentFrames];
     
-    const totalMemoryUsage = allFrames.reduce((sum, frame) => sum + frame.getMemoryUsage(), 0);
+    const retained = new Set<OptimizedFrameContainer>();
+    for (const frame of [...snapshots, ...recentFrames]) {
+      for (let current: OptimizedFrameContainer | undefined = frame; current && !retained.has(current); current = current.baseFrame) {
+        retained.add(current);
+      }
+    }
+    
+    const counted = new Set<unknown>();
+    let totalMemoryUsage = 0;
+    let keyframes = 0;
+    let deltaFrames = 0;
+    for (const frame of retained) {
+      totalMemoryUsage += frame.getMemoryUsage(counted);
+      if (frame.isKeyframe) keyframes++;
+      else if (frame.isFrozen) deltaFrames++;
+    }
     
     return {
       snapshots: snapshots.length,
       recentCache: recentFrames.length,
+      retainedFrames: retained.size,
+      keyframes,
+      deltaFrames,
       totalMemoryUsage,
-      averageMemoryPerFrame: allFrames.length > 0 ? totalMemoryUsage / allFrames.length : 0
+      averageMemoryPerFrame: retained.size > 0 ? totalMemoryUsage / retained.size : 0
     };
   }
   
+  /**
+   * Serialize frames, tagging snapshots with their identifiers
+   */
+  private *serializeFrames(frames: OptimizedFrameContainer[] = this.getAllSnapshots()): IterableIterator<SerializedFrame> {
+    const snapshotIds = new Map(Array.from(this._snapshots, ([snapshotId, frame]) => [frame, snapshotId]));
+    for (const frame of frames) {
+      const snapshotId = snapshotIds.get(frame);
+      yield snapshotId === undefined ? frame.toJSON() : { snapshotId, ...frame.toJSON() };
+    }
+  }
+  
+  /**
+   * Build read-only snapshots from an export, each stored against the one before it
+   */
+  private static fromDocument(document: FrameDocument, context?: SimulationContext): FrameManager {
+    const manager = new FrameManager(undefined, undefined, context);
+    for (const frame of document.frames) {
+      manager.addSnapshot(frame.snapshotId ?? frame.frameId, new OptimizedFrameContainer(
+        frame.frameId,
+        frame.entities,
+        { ...manager._defaultConfig, enableLazyEvaluation: false },
+        frame.metadata,
+        frame.timestamp,
+        manager._lastSnapshot
+      ));
+    }
+    return manager;
+  }
+  
   /**
    * Add frame to recent cache with size management
    */
@@ -339,50 +485,6 @@ export class FrameManager {
       }
     }
   }
-  
-  
-  /**
-   * Compare stats between two frames for a specific entity (optimized)
-   */
-  private compareEntityStatsOptimized(
-    frame1: OptimizedFrameContainer, 
-    frame2: OptimizedFrameContainer, 
-    entityId: EntityId
-  ): StatChange[] {
-    const changes: StatChange[] = [];
-    
-    const stats1 = frame1.getEntityStats(entityId);
-    const stats2 = frame2.getEntityStats(entityId);
-    
-    if (!stats1 || !stats2) return changes;
-    
-    // Check for stat changes
-    for (const [statType, value1] of stats1) {
-      const value2 = stats2.get(statType);
-      if (value2 !== undefined && value1 !== value2) {
-        changes.push({
-          statType,
-          oldValue: value1,
-          newValue: value2,
-          difference: value2 - value1
-        });
-      }
-    }
-    
-    // Check for new stats in frame2
-    for (const [statType, value2] of stats2) {
-      if (!stats1.has(statType)) {
-        changes.push({
-          statType,
-          oldValue: 0,
-          newValue: value2,
-          difference: value2
-        });
-      }
-    }
-    
-    return changes;
-  }
 }
 
 /**
@@ -390,6 +492,7 @@ export class FrameManager {
  */
 export interface StatChange {
   readonly statType: string;
+  readonly kind: 'changed' | 'added' | 'removed';
   readonly oldValue: number;
   readonly newValue: number;
   readonly difference: number;
@@ -410,8 +513,10 @@ export interface FrameComparison {
  */
 export interface EntityDifference {
   readonly entityId: EntityId;
-  readonly type: 'entity_added' | 'entity_removed' | 'stats_changed';
+  readonly type: 'entity_added' | 'entity_removed' | 'stats_changed' | 'effects_changed' | 'gear_changed';
   readonly changes: StatChange[];
+  readonly effectChanges?: EffectChange[];
+  readonly gearChanges?: GearChange[];
 }
 
 /**
@@ -0,0 +1,222 @@
+import { EntityId, StatType, StatValue } from './types';
+import { Entity } from './Entity';
+import { OptimizedFrameContainer, FrameFactory, FrameConfig } from './OptimizedFrameSystem';
+import { TickClock } from './Clock';
+import { SimulationContext, defaultSimulationContext } from './SimulationContext';
+
+/**
+ * A frame on a timeline
+ */
+export interface TimelineFrame {
+  readonly frame: OptimizedFrameContainer;
+  readonly timestamp: number;
+  readonly tick?: number; // Clock tick the frame was recorded at, when the context runs on a TickClock
+}
+
+/**
+ * One value of a stat over time
+ */
+export interface StatSample {
+  readonly frameId: string;
+  readonly timestamp: number;
+  readonly tick?: number;
+  readonly value: StatValue;
+}
+
+/**
+ * Frames in time order, for replaying and graphing a simulation
+ *
+ * Recorded frames are captured eagerly, each stored against the one before
+ * it (see `FrameConfig.keyframeInterval`), so a long recording holds little
+ * more than what changed from frame to frame. Queries take timestamps from
+ * the context's clock; with a `TickClock` every frame also carries its tick.
+ */
+export class FrameTimeline {
+  private readonly _frames: TimelineFrame[] = [];
+  private readonly _frameFactory: FrameFactory;
+  private readonly _maxFrames: number;
+  private readonly _context: SimulationContext;
+
+  /**
+   * @param defaultConfig - Config for recorded frames (default: every stat, captured eagerly)
+   * @param maxFrames - The oldest frames are dropped beyond this many (default: no limit)
+   * @param context - Simulation context providing the clock and event system
+   */
+  constructor(
+    defaultConfig?: Partial<FrameConfig>,
+    maxFrames: number = Infinity,
+    context: SimulationContext = defaultSimulationContext
+  ) {
+    if (!(maxFrames >= 1)) {
+      throw new Error(`maxFrames must be at least 1, got ${maxFrames}`);
+    }
+    this._context = context;
+    this._maxFrames = maxFrames;
+    this._frameFactory = new FrameFactory({
+      trackStats: 'all',
+      trackEffects: true,
+      trackContext: false,
+      maxCacheSize: 100,
+      enableLazyEvaluation: false,
+      ...defaultConfig
+    }, context);
+  }
+
+  /**
+   * Number of frames on the timeline
+   */
+  get length(): number {
+    return this._frames.length;
+  }
+
+  /**
+   * Capture entities into a new frame at the current time
+   *
+   * Expired effects are removed first, as when `FrameManager` creates a frame.
+   */
+  record(
+    entities: Entity[],
+    metadata?: Record<string, any>,
+    config?: Partial<FrameConfig>
+  ): TimelineFrame {
+    this._context.effectApplicatorManager.checkExpiredEffectsForEntities(entities, this._context.clock.now());
+
+    const previous = this._frames[this._frames.length - 1];
+    const frame = this._frameFactory.createFrame(entities, config, metadata, previous?.frame);
+    const clock = this._context.clock;
+    return this.add(frame, clock instanceof TickClock ? clock.currentTick : undefined);
+  }
+
+  /**
+   * Put an existing frame on the timeline, after any frames with the same timestamp
+   * @param frame - The frame
+   * @param tick - Clock tick the frame was created at
+   */
+  add(frame: OptimizedFrameContainer, tick?: number): TimelineFrame {
+    const entry: TimelineFrame = { frame, timestamp: frame.timestamp, tick };
+    this._frames.splice(this.indexAfter(frame.timestamp), 0, entry);
+
+    if (this._frames.length > this._maxFrames) {
+      this._frames.shift();
+    }
+    return entry;
+  }
+
+  /**
+   * Get all frames, oldest first
+   */
+  getFrames(): TimelineFrame[] {
+    return [...this._frames];
+  }
+
+  /**
+   * Get the latest frame at or before a time
+   */
+  frameAt(time: number): TimelineFrame | undefined {
+    return this._frames[this.indexAfter(time) - 1];
+  }
+
+  /**
+   * Get the frames from one time to another, both included
+   */
+  framesBetween(from: number, to: number): TimelineFrame[] {
+    return this._frames.slice(this.indexFrom(from), this.indexAfter(to));
+  }
+
+  /**
+   * Find the earliest frame matching a condition
+   * @param predicate - Condition to test each frame with
+   * @param from - Only consider frames at or after this time
+   */
+  firstFrameWhere(predicate: (entry: TimelineFrame) => boolean, from: number = -Infinity): TimelineFrame | undefined {
+    return this.framesBetween(from, Infinity).find(predicate);
+  }
+
+  /**
+   * Value of an entity's stat at a time
+   * @returns The value in the latest frame at or before the time that captured the entity, or undefined
+   */
+  statAt(entityId: EntityId, statType: StatType, time: number): StatValue | undefined {
+    for (let index = this.indexAfter(time) - 1; index >= 0; index--) {
+      const stats = this._frames[index].frame.getEntityStats(entityId);
+      if (stats) return stats.get(statType);
+    }
+    return undefined;
+  }
+
+  /**
+   * Values of an entity's stat over time, one per frame that captured it
+   * @param from - Start time (default: the first frame)
+   * @param to - End time (default: the last frame)
+   */
+  statSeries(entityId: EntityId, statType: StatType, from: number = -Infinity, to: number = Infinity): StatSample[] {
+    const samples: StatSample[] = [];
+    for (const { frame, timestamp, tick } of this.framesBetween(from, to)) {
+      const value = frame.getEntityStats(entityId)?.get(statType);
+      if (value !== undefined) {
+        samples.push({ frameId: frame.frameId, timestamp, tick, value });
+      }
+    }
+    return samples;
+  }
+
+  /**
+   * Values of a stat over time for every entity that has it
+   * @param from - Start time (default: the first frame)
+   * @param to - End time (default: the last frame)
+   */
+  getSeries(statType: StatType, from: number = -Infinity, to: number = Infinity): Map<EntityId, StatSample[]> {
+    const series = new Map<EntityId, StatSample[]>();
+    for (const { frame, timestamp, tick } of this.framesBetween(from, to)) {
+      for (const entityId of frame.entityIds) {
+        const value = frame.getEntityStats(entityId)?.get(statType);
+        if (value === undefined) continue;
+
+        const samples = series.get(entityId) ?? [];
+        samples.push({ frameId: frame.frameId, timestamp, tick, value });
+        series.set(entityId, samples);
+      }
+    }
+    return series;
+  }
+
+  /**
+   * Drop frames before a time
+   * @returns Number of frames dropped
+   */
+  dropBefore(time: number): number {
+    return this._frames.splice(0, this.indexFrom(time)).length;
+  }
+
+  /**
+   * Drop every frame
+   */
+  clear(): void {
+    this._frames.length = 0;
+  }
+
+  /**
+   * Index of the first frame at or after a time
+   */
+  private indexFrom(time: number): number {
+    return this.search(timestamp => timestamp < time);
+  }
+
+  /**
+   * Index of the first frame later than a time
+   */
+  private indexAfter(time: number): number {
+    return this.search(timestamp => timestamp <= time);
+  }
+
+  private search(isBefore: (timestamp: number) => boolean): number {
+    let low = 0;
+    let high = this._frames.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (isBefore(this._frames[middle].timestamp)) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  }
+}
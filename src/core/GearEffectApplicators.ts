@@ -41,47 +41,55 @@ export class GearEffectApplicator extends BaseEffectApplicator {
   }
 
   handleEvent(event: Event, entityId: EntityId): boolean {
+    return false; // Requires the entity instance; see handleEventWithEntity
+  }
+
+  handleEventWithEntity(event: Event, entity: Entity): boolean {
     if (!this.isInterestedIn(event.type)) {
       return false;
     }
 
+    const context = this.getEntityContext(entity);
+    if (!this.checkConditions(event, context)) {
+      return false;
+    }
+
     if (event.type === EventType.GEAR_EQUIPPED) {
-      return this.handleGearEquipped(event, entityId);
+      return this.handleGearEquipped(entity);
     } else if (event.type === EventType.GEAR_UNEQUIPPED) {
-      return this.handleGearUnequipped(event, entityId);
+      return this.handleGearUnequipped(entity);
     }
 
     return false;
   }
 
-  private handleGearEquipped(event: Event, entityId: EntityId): boolean {
+  private handleGearEquipped(entity: Entity): boolean {
     console.log(`🛡️ Gear Effect Applicator: ${this.name} handling gear equipped event`);
     
     let effectsApplied = 0;
     
     // Apply effects from the gear
     for (const effect of this.effectsToAdd) {
-      // This would need to be implemented with a proper entity registry
-      // For now, we'll just log the effect
-      console.log(`   Would apply effect: ${effect.name} to entity ${entityId}`);
-      effectsApplied++;
+      if (this.canAddEffect(entity, effect)) {
+        entity.addEffect(effect);
+        effectsApplied++;
+      }
     }
 
     console.log(`   Applied ${effectsApplied} effects from gear ${this.gearId}`);
     return effectsApplied > 0;
   }
 
-  private handleGearUnequipped(event: Event, entityId: EntityId): boolean {
+  private handleGearUnequipped(entity: Entity): boolean {
     console.log(`🛡️ Gear Effect Applicator: ${this.name} handling gear unequipped event`);
     
     let effectsRemoved = 0;
     
     // Remove effects from the gear
     for (const effectId of this.effectsToRemove) {
-      // This would need to be implemented with a proper entity registry
-      // For now, we'll just log the effect removal
-      console.log(`   Would remove effect: ${effectId} from entity ${entityId}`);
-      effectsRemoved++;
+      if (entity.removeEffect(effectId)) {
+        effectsRemoved++;
+      }
     }
 
     console.log(`   Removed ${effectsRemoved} effects from gear ${this.gearId}`);
@@ -13,7 +13,9 @@ import {
   Event
 } from './types';
 import { Entity } from './Entity';
-import { eventSystem } from './EventSystem';
+import { EventSystem, eventSystem } from './EventSystem';
+import type { SimulationContext } from './SimulationContext';
+import { Clock, realTimeClock } from './Clock';
 
 /**
  * Base class for interaction modifiers
@@ -82,6 +84,16 @@ export class InteractionManager {
   private readonly _stateAdjusters: Map<string, StateAdjuster> = new Map();
   private readonly _notifiers: Map<string, InteractionNotifier> = new Map();
   private readonly _activeInteractions: Map<string, InteractionContext> = new Map();
+  private readonly _eventSystem: EventSystem;
+  private readonly _clock: Clock;
+
+  /**
+   * @param context - Simulation services to emit into (defaults to the global event system)
+   */
+  constructor(context?: Pick<SimulationContext, 'eventSystem'> & Partial<Pick<SimulationContext, 'clock'>>) {
+    this._eventSystem = context?.eventSystem ?? eventSystem;
+    this._clock = context?.clock ?? realTimeClock;
+  }
 
   /**
    * Register an interaction definition
@@ -133,8 +145,8 @@ export class InteractionManager {
     interactionType: string,
     parameters?: Record<string, any>
   ): InteractionResult | undefined {
-    const interactionId = `${interactionType}-${initiator.id}-${target.id}-${Date.now()}`;
-    const startTime = Date.now();
+    const interactionId = `${interactionType}-${initiator.id}-${target.id}-${this._clock.now()}`;
+    const startTime = this._clock.now();
 
     // Find interaction definition
     const definition = Array.from(this._interactionDefinitions.values())
@@ -184,7 +196,7 @@ export class InteractionManager {
     context: InteractionContext,
     definition: InteractionDefinition
   ): InteractionResult {
-    const startTime = Date.now();
+    const startTime = this._clock.now();
     let currentValue: StatValue = 0;
     let originalValue: StatValue = 0;
 
@@ -264,7 +276,7 @@ export class InteractionManager {
     context.phase = InteractionPhase.COMPLETION;
     context.finalValue = currentValue;
 
-    const endTime = Date.now();
+    const endTime = this._clock.now();
     const duration = endTime - startTime;
 
     this.emitInteractionEvent(context, 'interaction_completed', {
@@ -362,10 +374,12 @@ export class InteractionManager {
         const changes = adjuster.adjustState(context, entity.id);
         
         if (changes.size > 0) {
-          // Apply changes to entity
-          for (const [statType, value] of changes) {
-            entity.setStat(statType, value);
-          }
+          // Apply changes to entity as one, so bound events see only the outcome
+          entity.batch(() => {
+            for (const [statType, value] of changes) {
+              entity.setStat(statType, value);
+            }
+          });
           
           // Track changes in context
           if (!context.stateChanges.has(entity.id)) {
@@ -409,11 +423,11 @@ export class InteractionManager {
 
     const mappedEventType = eventTypeMap[eventType] || EventType.CUSTOM_EVENT;
     
-    eventSystem.emitEvent(mappedEventType, {
+    this._eventSystem.emitEvent(mappedEventType, {
       interactionId: context.interactionId,
       interactionType: context.interactionType,
       phase: context.phase,
-      timestamp: Date.now(),
+      timestamp: this._clock.now(),
       ...data
     });
   }
@@ -5,9 +5,14 @@ import {
   StatType, 
   StatValue, 
   StatMap, 
+  BaseStats,
+  Effect,
   EffectId, 
   EffectContext,
-  EventType
+  EventType,
+  FrameEffectState,
+  FrameGearState,
+  FrameEntityData
 } from './types';
 
 /**
@@ -18,14 +23,101 @@ export interface FrameConfig {
   readonly trackEffects: boolean;
   readonly trackContext: boolean;
   readonly maxCacheSize: number;
-  readonly enableLazyEvaluation: boolean;
+  readonly enableLazyEvaluation: boolean; // Read entities on first access; false captures a frozen copy up front
+  readonly keyframeInterval?: number; // Captured frames between full copies of stats when storing changes only (default: 10)
 }
 
 import { Entity } from './Entity';
-import { eventSystem } from './EventSystem';
+import { SimulationContext, defaultSimulationContext } from './SimulationContext';
+import type { SerializedFrame } from './FrameExport';
+
+/**
+ * Default number of captured frames from one full copy of stats to the next
+ */
+export const DEFAULT_KEYFRAME_INTERVAL = 10;
+
+/**
+ * Map that rejects changes once constructed
+ */
+class FrozenMap<K, V> extends Map<K, V> {
+  private readonly _frozen: boolean;
+
+  constructor(entries?: Iterable<readonly [K, V]>) {
+    super(entries);
+    this._frozen = true;
+  }
+
+  set(key: K, value: V): this {
+    if (this._frozen) throw new TypeError('Cannot modify frozen frame data');
+    return super.set(key, value);
+  }
+
+  delete(key: K): boolean {
+    if (this._frozen) throw new TypeError('Cannot modify frozen frame data');
+    return super.delete(key);
+  }
+
+  clear(): void {
+    if (this._frozen) throw new TypeError('Cannot modify frozen frame data');
+    super.clear();
+  }
+}
+
+/**
+ * Stats captured for one entity
+ */
+interface CapturedStats {
+  readonly values: StatMap; // Every stat, or only the stats that changed since the base frame
+  readonly removed?: readonly StatType[]; // Set when the values are changes: stats gone since the base frame
+}
+
+/**
+ * What was read about one entity (or taken from its data) before it is stored
+ */
+interface EntityReading {
+  readonly stats?: StatMap;
+  readonly effectStates?: Map<EffectId, FrameEffectState>;
+  readonly gear?: Map<string, FrameGearState>;
+  readonly effectStack?: readonly Effect[];
+  readonly baseStats?: BaseStats;
+}
+
+/**
+ * Everything captured about one entity when a frame is created eagerly
+ */
+interface CapturedEntity {
+  readonly stats?: CapturedStats;
+  readonly effects?: readonly EffectId[];
+  readonly effectTags?: ReadonlyMap<EffectId, readonly string[]>;
+  readonly effectStates?: ReadonlyMap<EffectId, FrameEffectState>;
+  readonly gear?: ReadonlyMap<string, FrameGearState>;
+  readonly effectStack?: readonly Effect[]; // Context parts; current stats come from `stats`
+  readonly baseStats?: Readonly<BaseStats>;
+}
+
+const NO_STAT_CHANGES: CapturedStats = Object.freeze({
+  values: new FrozenMap<StatType, StatValue>(),
+  removed: Object.freeze([]) as readonly StatType[]
+});
 
 /**
  * High-performance frame container with lazy evaluation and minimal allocations
+ *
+ * Lazy frames keep entity references and read each entity the first time its
+ * data is accessed, so they see changes made between creation and access.
+ * With `enableLazyEvaluation: false` every entity is read when the frame is
+ * created into frozen maps and arrays, and the frame no longer references
+ * the entities.
+ *
+ * A captured frame created with a previous captured frame as its parent
+ * stores only the stats that changed since the parent, and reuses the
+ * parent's effect, tag, gear and context structures when they are unchanged.
+ * Every `keyframeInterval` frames (and whenever there is no usable parent)
+ * the stats are copied in full, which bounds how many frames are read to
+ * rebuild any frame's stats.
+ *
+ * Captured frames can also be built from plain entity data (`FrameEntityData`)
+ * instead of entities, e.g. to rebuild frames from a patch or an export.
  */
 export class OptimizedFrameContainer implements FrameContainer {
   private readonly _frameId: string;
@@ -33,27 +125,64 @@ export class OptimizedFrameContainer implements FrameContainer {
   private readonly _entityIds: EntityId[];
   private readonly _metadata?: Record<string, any>;
   private readonly _config: FrameConfig;
+  private readonly _frozen: boolean;
   
   // Lazy-loaded data (only allocated when accessed)
   private _statsCache: Map<EntityId, StatMap> | undefined;
   private _effectsCache: Map<EntityId, EffectId[]> | undefined;
+  private _effectTagsCache: Map<EntityId, Map<EffectId, string[]>> | undefined;
+  private _effectStatesCache: Map<EntityId, ReadonlyMap<EffectId, FrameEffectState>> | undefined;
+  private _gearCache: Map<EntityId, ReadonlyMap<string, FrameGearState>> | undefined;
   private _contextCache: Map<EntityId, EffectContext> | undefined;
   
   // Entity references for lazy evaluation
   private readonly _entities: Map<EntityId, Entity>;
   
+  // Eagerly captured data
+  private readonly _captured: Map<EntityId, CapturedEntity> | undefined;
+  private readonly _rngManagers: Map<EntityId, EffectContext['rngManager']> | undefined;
+  private readonly _baseFrame: OptimizedFrameContainer | undefined; // Frame the stat changes are relative to
+  private readonly _framesSinceKeyframe: number;
+  
+  /**
+   * @param entities - Entities to read, or entity data (frames built from data are always captured)
+   * @param parent - Previous captured frame to store changes against (ignored by lazy frames)
+   */
   constructor(
     frameId: string,
-    entities: Entity[],
+    entities: Array<Entity | FrameEntityData>,
     config: FrameConfig,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    timestamp: number = defaultSimulationContext.clock.now(),
+    parent?: OptimizedFrameContainer
   ) {
     this._frameId = frameId;
-    this._timestamp = Date.now();
-    this._entityIds = entities.map(e => e.id);
+    this._timestamp = timestamp;
+    this._entityIds = entities.map(entityIdOf);
     this._metadata = metadata;
     this._config = config;
-    this._entities = new Map(entities.map(e => [e.id, e]));
+    this._frozen = config.enableLazyEvaluation === false || !entities.every(isEntity);
+    this._entities = new Map(entities.filter(isEntity).map(e => [e.id, e]));
+    
+    const keyframeInterval = config.keyframeInterval ?? DEFAULT_KEYFRAME_INTERVAL;
+    if (!Number.isInteger(keyframeInterval) || keyframeInterval < 1) {
+      throw new Error(`keyframeInterval must be a whole number of at least 1, got ${keyframeInterval}`);
+    }
+    const previous = this._frozen && parent?._captured ? parent : undefined;
+    this._baseFrame = previous && previous._framesSinceKeyframe + 1 < keyframeInterval ? previous : undefined;
+    this._framesSinceKeyframe = this._baseFrame ? this._baseFrame._framesSinceKeyframe + 1 : 0;
+    
+    if (this._frozen) {
+      this._captured = new Map(entities.map(entity => [
+        entityIdOf(entity),
+        this.capture(entityIdOf(entity), isEntity(entity) ? this.read(entity) : readEntityData(entity), previous)
+      ]));
+      if (config.trackContext) {
+        this._rngManagers = new Map(entities.filter(isEntity).map(entity => [entity.id, entity.context.rngManager]));
+      }
+      this._entities.clear(); // Captured frames never read entities again
+      return;
+    }
     
     // Pre-allocate caches only if needed
     if (config.trackStats) {
@@ -61,6 +190,9 @@ export class OptimizedFrameContainer implements FrameContainer {
     }
     if (config.trackEffects) {
       this._effectsCache = new Map();
+      this._effectTagsCache = new Map();
+      this._effectStatesCache = new Map();
+      this._gearCache = new Map();
     }
     if (config.trackContext) {
       this._contextCache = new Map();
@@ -72,11 +204,27 @@ export class OptimizedFrameContainer implements FrameContainer {
   get entityIds(): EntityId[] { return [...this._entityIds]; }
   get metadata(): Record<string, any> | undefined { return this._metadata; }
   
+  /**
+   * Whether the frame's data was captured at creation and cannot change
+   */
+  get isFrozen(): boolean { return this._frozen; }
+  
+  /**
+   * Whether the frame holds a full copy of its stats (false for frames storing changes and for lazy frames)
+   */
+  get isKeyframe(): boolean { return this._frozen && !this._baseFrame; }
+  
+  /**
+   * Frame this frame's stat changes are relative to
+   */
+  get baseFrame(): OptimizedFrameContainer | undefined { return this._baseFrame; }
+  
   /**
    * Lazy evaluation of entity stats
    */
   getEntityStats(entityId: EntityId): StatMap | undefined {
     if (!this._config.trackStats) return undefined;
+    if (this._captured) return this.capturedStats(entityId);
     
     // Check cache first
     if (this._statsCache!.has(entityId)) {
@@ -97,6 +245,7 @@ export class OptimizedFrameContainer implements FrameContainer {
    */
   getEntityEffects(entityId: EntityId): EffectId[] | undefined {
     if (!this._config.trackEffects) return undefined;
+    if (this._captured) return this._captured.get(entityId)?.effects as EffectId[] | undefined;
     
     // Check cache first
     if (this._effectsCache!.has(entityId)) {
@@ -109,14 +258,71 @@ export class OptimizedFrameContainer implements FrameContainer {
     
     const effects = entity.getEffects().map(e => e.id);
     this._effectsCache!.set(entityId, [...effects]);
+    this._effectTagsCache!.set(entityId, new Map(effects.map(effectId => [effectId, entity.getEffectTags(effectId)])));
     return this._effectsCache!.get(entityId);
   }
   
+  /**
+   * Lazy evaluation of entity effect timings and stacks
+   */
+  getEntityEffectStates(entityId: EntityId): ReadonlyMap<EffectId, FrameEffectState> | undefined {
+    if (!this._config.trackEffects) return undefined;
+    if (this._captured) return this._captured.get(entityId)?.effectStates;
+    
+    if (this._effectStatesCache!.has(entityId)) {
+      return this._effectStatesCache!.get(entityId);
+    }
+    
+    const entity = this._entities.get(entityId);
+    if (!entity) return undefined;
+    
+    this._effectStatesCache!.set(entityId, readEffectStates(entity));
+    return this._effectStatesCache!.get(entityId);
+  }
+  
+  /**
+   * Lazy evaluation of entity gear, by slot
+   */
+  getEntityGear(entityId: EntityId): ReadonlyMap<string, FrameGearState> | undefined {
+    if (!this._config.trackEffects) return undefined;
+    if (this._captured) return this._captured.get(entityId)?.gear;
+    
+    if (this._gearCache!.has(entityId)) {
+      return this._gearCache!.get(entityId);
+    }
+    
+    const entity = this._entities.get(entityId);
+    if (!entity) return undefined;
+    
+    this._gearCache!.set(entityId, readGear(entity));
+    return this._gearCache!.get(entityId);
+  }
+  
+  /**
+   * Tags an effect carried when its entity's effects were captured
+   */
+  getEffectTags(entityId: EntityId, effectId: EffectId): string[] {
+    if (!this.getEntityEffects(entityId)) return [];
+    return [...(this.effectTagsOf(entityId)?.get(effectId) ?? [])];
+  }
+  
   /**
    * Lazy evaluation of entity context
    */
   getEntityContext(entityId: EntityId): EffectContext | undefined {
     if (!this._config.trackContext) return undefined;
+    if (this._captured) {
+      const captured = this._captured.get(entityId);
+      if (!captured) return undefined;
+      return Object.freeze({
+        entityId,
+        effectStack: captured.effectStack as Effect[],
+        currentStats: this.capturedStats(entityId)!,
+        baseStats: captured.baseStats as BaseStats,
+        timestamp: this._timestamp,
+        rngManager: this._rngManagers!.get(entityId)
+      });
+    }
     
     // Check cache first
     if (this._contextCache!.has(entityId)) {
@@ -133,17 +339,48 @@ export class OptimizedFrameContainer implements FrameContainer {
       effectStack: entity.getEffects(),
       currentStats: new Map(stats),
       baseStats: entity.baseStats,
-      timestamp: this._timestamp
+      timestamp: this._timestamp,
+      rngManager: entity.context.rngManager
     };
     
     this._contextCache!.set(entityId, context);
     return this._contextCache!.get(entityId);
   }
   
+  /**
+   * Get an entity's stats, effects and gear as plain values
+   */
+  toEntityData(entityId: EntityId): FrameEntityData | undefined {
+    if (!this._entityIds.includes(entityId)) return undefined;
+    
+    const stats = this.getEntityStats(entityId);
+    const effects = this.getEntityEffectStates(entityId);
+    const gear = this.getEntityGear(entityId);
+    return {
+      entityId,
+      ...(stats && { stats: Object.fromEntries(stats) }),
+      ...(effects && { effects: Array.from(effects.values()) }),
+      ...(gear && { gear: Array.from(gear.values()) })
+    };
+  }
+  
+  /**
+   * Get the frame as plain JSON (see `FrameManager.fromJSON` to read frames back)
+   */
+  toJSON(): SerializedFrame {
+    return {
+      frameId: this._frameId,
+      timestamp: this._timestamp,
+      ...(this._metadata && { metadata: this._metadata }),
+      entities: this._entityIds.map(entityId => this.toEntityData(entityId)!)
+    };
+  }
+  
   /**
    * Update entity stats (minimal allocation)
    */
   updateEntityStats(entityId: EntityId, stats: StatMap): void {
+    this.assertNotFrozen();
     if (!this._config.trackStats) return;
     
     // Reuse existing map or create new one
@@ -159,9 +396,14 @@ export class OptimizedFrameContainer implements FrameContainer {
   /**
    * Update entity effects (minimal allocation)
    */
-  updateEntityEffects(entityId: EntityId, effects: EffectId[]): void {
+  updateEntityEffects(entityId: EntityId, effects: EffectId[], effectTags?: Map<EffectId, string[]>): void {
+    this.assertNotFrozen();
     if (!this._config.trackEffects) return;
     
+    if (effectTags) {
+      this._effectTagsCache!.set(entityId, new Map(effectTags));
+    }
+    
     // Reuse existing array or create new one
     if (this._effectsCache!.has(entityId)) {
       const existing = this._effectsCache!.get(entityId)!;
@@ -191,16 +433,18 @@ export class OptimizedFrameContainer implements FrameContainer {
   
   /**
    * Get effects of interest (selective access)
+   * @param entityId - The entity to read
+   * @param tags - Only return effects carrying at least one of these tags
    */
-  getEffectsOfInterest(entityId: EntityId, effectTypes?: string[]): EffectId[] {
+  getEffectsOfInterest(entityId: EntityId, tags?: string[]): EffectId[] {
     const effects = this.getEntityEffects(entityId);
     if (!effects) return [];
     
-    if (!effectTypes) return [...effects];
+    if (!tags) return [...effects];
     
-    // Filter by effect types (simplified - would need effect registry)
-    return effects.filter(effectId => 
-      effectTypes.some(type => effectId.includes(type))
+    const effectTags = this.effectTagsOf(entityId);
+    return effects.filter(effectId =>
+      tags.some(tag => effectTags?.get(effectId)?.includes(tag))
     );
   }
   
@@ -212,24 +456,239 @@ export class OptimizedFrameContainer implements FrameContainer {
   }
   
   /**
-   * Clear caches to free memory
+   * Clear caches to free memory (frozen frames keep their data, as it can't be read again)
    */
   clearCaches(): void {
+    if (this._frozen) return;
     this._statsCache?.clear();
     this._effectsCache?.clear();
+    this._effectTagsCache?.clear();
+    this._effectStatesCache?.clear();
+    this._gearCache?.clear();
     this._contextCache?.clear();
   }
   
   /**
-   * Get memory usage estimate
+   * Estimate the memory held by this frame's data, in bytes
+   *
+   * Base frames are not included. Structures shared between frames count once
+   * per `counted` set, so pass the same set when adding up several frames.
+   * Entities, effects and other objects the frame only refers to are not counted.
+   * @param counted - Structures already counted
+   */
+  getMemoryUsage(counted: Set<unknown> = new Set()): number {
+    if (this._captured) {
+      return estimateBytes(this._captured, counted) + estimateBytes(this._rngManagers, counted);
+    }
+    return [
+      this._statsCache,
+      this._effectsCache,
+      this._effectTagsCache,
+      this._effectStatesCache,
+      this._gearCache,
+      this._contextCache
+    ].reduce((size, cache) => size + estimateBytes(cache, counted), 0);
+  }
+  
+  /**
+   * Read everything tracked about an entity
+   */
+  private read(entity: Entity): EntityReading {
+    const tracksStats = this._config.trackStats || this._config.trackContext;
+    return {
+      stats: tracksStats ? entity.getCurrentStats() : undefined,
+      effectStates: this._config.trackEffects ? readEffectStates(entity) : undefined,
+      gear: this._config.trackEffects ? readGear(entity) : undefined,
+      effectStack: this._config.trackContext ? Object.freeze(entity.getEffects()) : undefined,
+      baseStats: this._config.trackContext ? entity.baseStats : undefined
+    };
+  }
+  
+  /**
+   * Store what was read about an entity in frozen structures, reusing the previous frame's where unchanged
+   */
+  private capture(entityId: EntityId, reading: EntityReading, previousFrame: OptimizedFrameContainer | undefined): CapturedEntity {
+    const previous = previousFrame?._captured!.get(entityId);
+    const captured: { -readonly [K in keyof CapturedEntity]: CapturedEntity[K] } = {};
+    
+    if (reading.stats) {
+      const baseStats = previous?.stats && this._baseFrame?.capturedStats(entityId);
+      captured.stats = baseStats ? diffStats(baseStats, reading.stats) : { values: new FrozenMap(reading.stats) };
+    }
+    
+    if (this._config.trackEffects && reading.effectStates) {
+      const effectStates = shareEntries(previous?.effectStates, reading.effectStates, sameEffectState);
+      captured.effectStates = effectStates;
+      captured.effects = shareItems(previous?.effects, Object.freeze(Array.from(effectStates.keys())));
+      captured.effectTags = shareEntries(
+        previous?.effectTags,
+        new Map(Array.from(effectStates.values()).map(state => [state.effectId, state.tags])),
+        (a, b) => a === b || sameItems(a, b)
+      );
+    }
+    if (this._config.trackEffects && reading.gear) {
+      captured.gear = shareEntries(previous?.gear, reading.gear, sameGearState);
+    }
+    
+    if (reading.effectStack && reading.baseStats) {
+      captured.effectStack = shareItems(previous?.effectStack, reading.effectStack);
+      captured.baseStats = previous?.baseStats && sameRecord(previous.baseStats, reading.baseStats)
+        ? previous.baseStats
+        : Object.freeze(reading.baseStats);
+    }
+    
+    return Object.freeze(captured);
+  }
+  
+  /**
+   * Stats of a captured entity, rebuilt from the base frames when only changes are stored
    */
-  getMemoryUsage(): number {
-    let size = 0;
-    size += this._statsCache?.size || 0;
-    size += this._effectsCache?.size || 0;
-    size += this._contextCache?.size || 0;
+  private capturedStats(entityId: EntityId): StatMap | undefined {
+    const stats = this._captured!.get(entityId)?.stats;
+    if (!stats) return undefined;
+    if (!stats.removed) return stats.values;
+    if (stats === NO_STAT_CHANGES) return this._baseFrame!.capturedStats(entityId);
+    
+    const rebuilt = new Map(this._baseFrame!.capturedStats(entityId));
+    stats.removed.forEach(statType => rebuilt.delete(statType));
+    stats.values.forEach((value, statType) => rebuilt.set(statType, value));
+    return new FrozenMap(rebuilt);
+  }
+  
+  private effectTagsOf(entityId: EntityId): ReadonlyMap<EffectId, readonly string[]> | undefined {
+    return this._captured ? this._captured.get(entityId)?.effectTags : this._effectTagsCache!.get(entityId);
+  }
+  
+  private assertNotFrozen(): void {
+    if (this._frozen) {
+      throw new Error(`Frame ${this._frameId} was captured eagerly and cannot be updated`);
+    }
+  }
+}
+
+function readEffectStates(entity: Entity): Map<EffectId, FrameEffectState> {
+  return new Map(entity.getEffects().map(effect => {
+    const timing = entity.getEffectTiming(effect.id);
+    return [effect.id, Object.freeze({
+      effectId: effect.id,
+      name: effect.name,
+      tags: Object.freeze(entity.getEffectTags(effect.id)),
+      appliedAt: timing?.appliedAt,
+      duration: timing?.duration,
+      expiresAt: timing?.expiresAt,
+      stacks: entity.getStackCount(effect.id)
+    })];
+  }));
+}
+
+function readEntityData(data: FrameEntityData): EntityReading {
+  return {
+    stats: data.stats && new Map(Object.entries(data.stats)),
+    effectStates: data.effects && new Map(data.effects.map(state => [
+      state.effectId,
+      Object.freeze({ ...state, tags: Object.freeze([...state.tags]) })
+    ])),
+    gear: data.gear && new Map(data.gear.map(gear => [gear.slot, Object.freeze({ ...gear })]))
+  };
+}
+
+function isEntity(source: Entity | FrameEntityData): source is Entity {
+  return source instanceof Entity;
+}
+
+function entityIdOf(source: Entity | FrameEntityData): EntityId {
+  return isEntity(source) ? source.id : source.entityId;
+}
+
+function readGear(entity: Entity): Map<string, FrameGearState> {
+  return new Map(Array.from(entity.getAllEquippedGear()).map(([slot, gear]) => [
+    slot,
+    Object.freeze({ slot, gearId: gear.id, name: gear.name, type: gear.type })
+  ]));
+}
+
+function diffStats(base: StatMap, stats: StatMap): CapturedStats {
+  const changed = Array.from(stats).filter(([statType, value]) => base.get(statType) !== value);
+  const removed = Array.from(base.keys()).filter(statType => !stats.has(statType));
+  if (changed.length === 0 && removed.length === 0) return NO_STAT_CHANGES;
+  return { values: new FrozenMap(changed), removed: Object.freeze(removed) };
+}
+
+function shareItems<T>(previous: readonly T[] | undefined, next: readonly T[]): readonly T[] {
+  return previous && sameItems(previous, next) ? previous : next;
+}
+
+/**
+ * Freeze a map, reusing the previous map when every entry is unchanged and otherwise each unchanged value
+ */
+function shareEntries<K, V>(
+  previous: ReadonlyMap<K, V> | undefined,
+  next: Map<K, V>,
+  same: (a: V, b: V) => boolean
+): ReadonlyMap<K, V> {
+  let unchanged = previous !== undefined && previous.size === next.size;
+  for (const [key, value] of next) {
+    const old = previous?.get(key);
+    if (old !== undefined && same(old, value)) next.set(key, old);
+    else unchanged = false;
+  }
+  return unchanged ? previous! : new FrozenMap(next);
+}
+
+function sameItems<T>(a: readonly T[], b: readonly T[]): boolean {
+  return a.length === b.length && a.every((item, index) => item === b[index]);
+}
+
+function sameRecord(a: Readonly<Record<string, unknown>>, b: Readonly<Record<string, unknown>>): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+}
+
+/** Whether two captured effect states hold the same values */
+export function sameEffectState(a: FrameEffectState, b: FrameEffectState): boolean {
+  return a.name === b.name && a.appliedAt === b.appliedAt && a.duration === b.duration &&
+    a.expiresAt === b.expiresAt && a.stacks === b.stacks && sameItems(a.tags, b.tags);
+}
+
+/** Whether two captured gear states hold the same values */
+export function sameGearState(a: FrameGearState, b: FrameGearState): boolean {
+  return a.gearId === b.gearId && a.name === b.name && a.type === b.type;
+}
+
+// Rough V8 sizes: object header, a pointer-sized slot, per-entry cost of a hash table
+const OBJECT_BYTES = 24;
+const SLOT_BYTES = 8;
+const MAP_ENTRY_BYTES = 24;
+
+/**
+ * Estimate the bytes held by frame data: maps, arrays, plain objects and strings
+ *
+ * Class instances (entities, effects, RNG managers) are owned elsewhere and count as references only.
+ */
+function estimateBytes(value: unknown, counted: Set<unknown>): number {
+  if (typeof value === 'string') {
+    if (counted.has(value)) return 0;
+    counted.add(value);
+    return OBJECT_BYTES + value.length * 2;
+  }
+  if (typeof value !== 'object' || value === null || counted.has(value)) return 0;
+
+  if (value instanceof Map) {
+    counted.add(value);
+    let size = OBJECT_BYTES * 2 + value.size * MAP_ENTRY_BYTES;
+    value.forEach((entry, key) => { size += estimateBytes(key, counted) + estimateBytes(entry, counted); });
     return size;
   }
+  if (Array.isArray(value)) {
+    counted.add(value);
+    return value.reduce((size: number, item) => size + estimateBytes(item, counted), OBJECT_BYTES + value.length * SLOT_BYTES);
+  }
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) return 0;
+
+  counted.add(value);
+  const entries = Object.entries(value);
+  return entries.reduce((size, [key, entry]) => size + estimateBytes(key, counted) + estimateBytes(entry, counted), OBJECT_BYTES + entries.length * SLOT_BYTES);
 }
 
 /**
@@ -255,10 +714,22 @@ export class OptimizedFrameView implements FrameView {
     return this._container.getEntityEffects(entityId);
   }
   
+  getEntityEffectStates(entityId: EntityId): ReadonlyMap<EffectId, FrameEffectState> | undefined {
+    return this._container.getEntityEffectStates(entityId);
+  }
+  
+  getEntityGear(entityId: EntityId): ReadonlyMap<string, FrameGearState> | undefined {
+    return this._container.getEntityGear(entityId);
+  }
+  
   getStatsOfInterest(entityId: EntityId, statTypes: StatType[]): Partial<Record<StatType, StatValue>> {
     return this._container.getStatsOfInterest(entityId, statTypes);
   }
   
+  getEffectsOfInterest(entityId: EntityId, tags?: string[]): EffectId[] {
+    return this._container.getEffectsOfInterest(entityId, tags);
+  }
+  
   /**
    * Batch operation to get all entity stats
    */
@@ -294,8 +765,10 @@ export class OptimizedFrameView implements FrameView {
 export class FrameFactory {
   private _frameCounter: number = 0;
   private readonly _defaultConfig: FrameConfig;
+  private readonly _context: SimulationContext;
   
-  constructor(defaultConfig?: Partial<FrameConfig>) {
+  constructor(defaultConfig?: Partial<FrameConfig>, context: SimulationContext = defaultSimulationContext) {
+    this._context = context;
     this._defaultConfig = {
       trackStats: ['health', 'attack', 'defense', 'speed', 'mana'],
       trackEffects: true,
@@ -308,11 +781,13 @@ export class FrameFactory {
   
   /**
    * Create a new frame container with minimal allocations
+   * @param parent - Previous captured frame; captured frames store their changes against it
    */
   createFrame(
     entities: Entity[], 
     config?: Partial<FrameConfig>,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    parent?: OptimizedFrameContainer
   ): OptimizedFrameContainer {
     const frameId = `frame-${++this._frameCounter}`;
     const finalConfig = { ...this._defaultConfig, ...config };
@@ -321,11 +796,13 @@ export class FrameFactory {
       frameId,
       entities,
       finalConfig,
-      metadata
+      metadata,
+      this._context.clock.now(),
+      parent
     );
     
     // Emit event
-    eventSystem.emitEvent(EventType.FRAME_CREATED, {
+    this._context.eventSystem.emitEvent(EventType.FRAME_CREATED, {
       frameId,
       entityCount: entities.length,
       config: finalConfig
@@ -0,0 +1,198 @@
+import {
+  EffectId,
+  EffectContext,
+  EntityId,
+  StatType,
+  StatValue,
+  StackingRule,
+  EventType
+} from './types';
+import { BaseEffect } from './effects';
+import type { Entity } from './Entity';
+
+/**
+ * Effect that changes a stat at a fixed interval (damage or heal over time)
+ *
+ * Periodic effects do not modify stats during stat calculation. Instead the
+ * scheduler of the entity's simulation context adds `amountPerTick` (times
+ * the stack count) to the base stat through `Entity.setStat` on every tick.
+ * Ticks fall one interval apart starting one interval after the effect was
+ * applied, and stop when the effect expires.
+ */
+export class PeriodicEffect extends BaseEffect {
+  constructor(
+    id: EffectId,
+    name: string,
+    public readonly statType: StatType,
+    public readonly amountPerTick: StatValue, // Negative for damage
+    public readonly interval: number, // Milliseconds between ticks
+    public readonly tickRateStat?: StatType, // Stat that speeds up ticks, e.g. 0.25 for 25% faster
+    public readonly partialFinalTick: boolean = false, // Apply a scaled tick for the time left at expiry
+    priority: number = 0,
+    tags: string[] = [],
+    stacking?: StackingRule
+  ) {
+    super(id, name, priority, [statType], [{ statType, stackable: true }], tags, stacking, []);
+    if (!(interval > 0)) {
+      throw new Error(`Periodic effect ${id} needs a positive interval, got ${interval}`);
+    }
+  }
+
+  apply(context: EffectContext, stats: Map<StatType, StatValue>): void {
+    // Applied on ticks by the scheduler
+  }
+
+  reverse(context: EffectContext, stats: Map<StatType, StatValue>): void {
+    // Ticks already applied are not undone
+  }
+}
+
+/**
+ * Progress of one periodic effect on one entity
+ */
+export interface PeriodicProgress {
+  readonly appliedAt: number; // Application the progress belongs to
+  readonly lastUpdate: number;
+  readonly progress: number; // Intervals elapsed since the last tick
+  readonly ticks: number;
+  readonly finished: boolean;
+}
+
+type PeriodicState = { -readonly [K in keyof PeriodicProgress]: PeriodicProgress[K] };
+
+/**
+ * Drives periodic effects from the simulation clock
+ *
+ * `Entity.checkExpiredEffects` updates its entity before removing expired
+ * effects, so every tick (and partial final tick) up to the expiry is applied.
+ * Suppressed effects let time pass without ticking.
+ */
+export class PeriodicEffectScheduler {
+  private readonly _states: Map<EntityId, Map<EffectId, PeriodicState>> = new Map();
+
+  /**
+   * Apply every tick that is due on an entity
+   * @param entity - The entity to update
+   * @param currentTime - Current timestamp (defaults to the entity's clock)
+   * @returns Number of ticks applied
+   */
+  update(entity: Entity, currentTime: number = entity.context.clock.now()): number {
+    const states = this._states.get(entity.id) ?? new Map<EffectId, PeriodicState>();
+    this._states.set(entity.id, states);
+    let applied = 0;
+
+    for (const effect of entity.getEffects()) {
+      if (!(effect instanceof PeriodicEffect)) continue;
+
+      const timing = entity.getEffectTiming(effect.id);
+      if (!timing) continue;
+
+      // Re-added effects start over
+      let state = states.get(effect.id);
+      if (!state || state.appliedAt !== timing.appliedAt) {
+        state = { appliedAt: timing.appliedAt, lastUpdate: timing.appliedAt, progress: 0, ticks: 0, finished: false };
+        states.set(effect.id, state);
+      }
+      if (state.finished) continue;
+
+      const until = timing.expiresAt !== undefined ? Math.min(currentTime, timing.expiresAt) : currentTime;
+      if (until <= state.lastUpdate) continue;
+
+      const tickRate = 1 + (effect.tickRateStat ? entity.getStat(effect.tickRateStat) : 0);
+      state.progress += (until - state.lastUpdate) * Math.max(0, tickRate) / effect.interval;
+      state.lastUpdate = until;
+
+      const suppressed = entity.isEffectSuppressed(effect.id);
+      while (state.progress >= 1) {
+        state.progress -= 1;
+        if (!suppressed) {
+          const tickedAt = until - state.progress * effect.interval / tickRate;
+          this.tick(entity, effect, ++state.ticks, 1, tickedAt);
+          applied++;
+        }
+      }
+
+      if (timing.expiresAt !== undefined && until >= timing.expiresAt) {
+        if (effect.partialFinalTick && state.progress > 0 && !suppressed) {
+          this.tick(entity, effect, ++state.ticks, state.progress, until);
+          applied++;
+        }
+        state.finished = true;
+      }
+    }
+
+    // Forget effects that are gone
+    for (const effectId of Array.from(states.keys())) {
+      if (!entity.hasEffect(effectId)) states.delete(effectId);
+    }
+    if (states.size === 0) this._states.delete(entity.id);
+
+    return applied;
+  }
+
+  /**
+   * Apply due ticks on several entities
+   * @returns Number of ticks applied
+   */
+  updateAll(entities: Entity[], currentTime?: number): number {
+    let applied = 0;
+    for (const entity of entities) {
+      applied += this.update(entity, currentTime ?? entity.context.clock.now());
+    }
+    return applied;
+  }
+
+  /**
+   * Number of ticks an effect has applied on an entity
+   */
+  getTickCount(entityId: EntityId, effectId: EffectId): number {
+    return this._states.get(entityId)?.get(effectId)?.ticks ?? 0;
+  }
+
+  /**
+   * Get the progress of an effect on an entity (e.g. to save it)
+   */
+  getProgress(entityId: EntityId, effectId: EffectId): PeriodicProgress | undefined {
+    const state = this._states.get(entityId)?.get(effectId);
+    return state ? { ...state } : undefined;
+  }
+
+  /**
+   * Continue an effect from saved progress instead of from its application time
+   */
+  restoreProgress(entityId: EntityId, effectId: EffectId, progress: PeriodicProgress): void {
+    const states = this._states.get(entityId) ?? new Map<EffectId, PeriodicState>();
+    states.set(effectId, { ...progress });
+    this._states.set(entityId, states);
+  }
+
+  /**
+   * Drop all progress for an entity (e.g. when it leaves the simulation)
+   */
+  clear(entityId: EntityId): void {
+    this._states.delete(entityId);
+  }
+
+  private tick(entity: Entity, effect: PeriodicEffect, tick: number, fraction: number, tickedAt: number): void {
+    const amount = effect.amountPerTick * entity.getStackCount(effect.id) * fraction;
+    entity.setStat(effect.statType, (entity.baseStats[effect.statType] ?? 0) + amount);
+
+    entity.emitEvent({
+      type: EventType.PERIODIC_EFFECT_TICKED,
+      timestamp: tickedAt,
+      data: {
+        entityId: entity.id,
+        effectId: effect.id,
+        statType: effect.statType,
+        amount,
+        tick,
+        partial: fraction < 1
+      }
+    });
+  }
+}
+
+/**
+ * Global periodic effect scheduler instance
+ */
+export const periodicEffectScheduler = new PeriodicEffectScheduler();
@@ -305,6 +305,24 @@ export class GaussianRNG extends BaseRNGGenerator {
   }
 }
 
+/**
+ * Check whether a generator makes weighted choices (like `WeightedRNG`)
+ */
+export function isWeightedGenerator(
+  generator: RNGGenerator | undefined
+): generator is RNGGenerator & Pick<WeightedRNG, 'weightedChoice'> {
+  return typeof (generator as Partial<WeightedRNG> | undefined)?.weightedChoice === 'function';
+}
+
+/**
+ * Check whether a generator draws from a Gaussian distribution (like `GaussianRNG`)
+ */
+export function isGaussianGenerator(
+  generator: RNGGenerator | undefined
+): generator is RNGGenerator & Pick<GaussianRNG, 'gaussianInRange'> {
+  return typeof (generator as Partial<GaussianRNG> | undefined)?.gaussianInRange === 'function';
+}
+
 /**
  * Probability utility functions
  */
@@ -376,14 +394,15 @@ export class ProbabilityUtils {
 }
 
 /**
- * Global RNG manager for consistent random generation across the application
+ * RNG manager for consistent random generation within a simulation
+ * (the global instance backs the default simulation context)
  */
 export class RNGManager {
   private static _instance: RNGManager;
   private _defaultGenerator: RNGGenerator;
   private _generators: Map<string, RNGGenerator> = new Map();
   
-  private constructor() {
+  constructor() {
     this._defaultGenerator = new StandardRNG();
     this._generators.set('default', this._defaultGenerator);
   }
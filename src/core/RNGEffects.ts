@@ -15,9 +15,11 @@ import {
   GaussianParams, 
   Range,
   ProbabilityConfig,
-  rngManager
+  isWeightedGenerator
 } from './RNG';
 import { BaseEffect } from './effects';
+import type { Entity } from './Entity';
+import { SimulationContext, defaultSimulationContext } from './SimulationContext';
 
 // Note: RNG-based effects have been moved to the composition system
 // Use EffectFactory.createRandomEffect(), EffectFactory.createChanceBasedEffect(), etc.
@@ -32,21 +34,22 @@ export class RandomEventApplicator {
     private readonly triggerProbability: number,
     private readonly effectsToAdd: Effect[],
     private readonly effectsToRemove: EffectId[],
-    private readonly rng: RNGGenerator = rngManager.getDefaultGenerator()
+    private readonly rng?: RNGGenerator // Falls back to the simulation context's default generator
   ) {}
   
   /**
    * Check if this applicator should trigger based on random chance
+   * @param context - Simulation context whose RNG to use when the applicator has none
    */
-  shouldTrigger(): boolean {
-    return this.rng.chance(this.triggerProbability);
+  shouldTrigger(context: SimulationContext = defaultSimulationContext): boolean {
+    return (this.rng ?? context.rngManager.getDefaultGenerator()).chance(this.triggerProbability);
   }
   
   /**
-   * Handle a random event for an entity
+   * Handle a random event for an entity, rolling with the entity's simulation context
    */
-  handleRandomEvent(entity: any): boolean {
-    if (!this.shouldTrigger()) {
+  handleRandomEvent(entity: Entity): boolean {
+    if (!this.shouldTrigger(entity.context)) {
       return false;
     }
     
@@ -71,20 +74,28 @@ export class RandomEventApplicator {
 
 /**
  * Weighted selection generator for random choices
+ *
+ * Selections use the context's `weighted` generator when one is registered,
+ * otherwise `rng` or the context's default generator.
  */
 export class WeightedSelectionGenerator<T> {
+  private readonly rng: RNGGenerator;
+  
   constructor(
     private readonly choices: WeightedChoice<T>[],
-    private readonly rng: RNGGenerator = rngManager.getDefaultGenerator()
-  ) {}
+    rng?: RNGGenerator,
+    private readonly context: SimulationContext = defaultSimulationContext
+  ) {
+    this.rng = rng ?? context.rngManager.getDefaultGenerator();
+  }
   
   /**
    * Generate random selection from the weighted choices
    */
   select(): T | undefined {
-    const weightedRNG = rngManager.getGenerator('weighted') as any;
+    const weightedRNG = this.context.rngManager.getGenerator('weighted');
     
-    if (weightedRNG && typeof weightedRNG.weightedChoice === 'function') {
+    if (isWeightedGenerator(weightedRNG)) {
       return weightedRNG.weightedChoice(this.choices);
     } else {
       // Fallback to simple random selection
@@ -128,9 +139,9 @@ export class WeightedSelectionGenerator<T> {
       return this.select(); // Fallback to normal selection
     }
     
-    const weightedRNG = rngManager.getGenerator('weighted') as any;
+    const weightedRNG = this.context.rngManager.getGenerator('weighted');
     
-    if (weightedRNG && typeof weightedRNG.weightedChoice === 'function') {
+    if (isWeightedGenerator(weightedRNG)) {
       return weightedRNG.weightedChoice(filteredChoices);
     } else {
       // Fallback implementation
@@ -0,0 +1,752 @@
+import {
+  Effect,
+  EffectId,
+  EntityId,
+  BaseStats,
+  Gear,
+  ValueProvider,
+  StatType,
+  StatBound,
+  StatBoundFunction,
+  StatBoundConfig,
+  BoundEventConfig,
+  BoundFunctionSource,
+  BoundThresholdConfig,
+  EffectStack,
+  ResourceDefinition
+} from './types';
+import {
+  AdditiveEffect,
+  MultiplicativeEffect,
+  PercentageEffect,
+  SetValueEffect,
+  ClampEffect,
+  CancellationEffect,
+  ImmunityEffect
+} from './effects';
+import { BaseStatValueProvider } from './ActiveEffects';
+import { StatBoundCalculator } from './StatBoundCalculator';
+import { DefinedEffect, EffectDefinitionLoader } from './EffectDefinitions';
+import { PeriodicEffect, PeriodicProgress } from './PeriodicEffects';
+
+/**
+ * Schema identifier written into every entity document
+ */
+export const ENTITY_DOCUMENT_SCHEMA = 'entity-effects-api/entity';
+
+/**
+ * Current entity document version
+ */
+export const ENTITY_DOCUMENT_VERSION = 1;
+
+/**
+ * Error raised when a document cannot be written or read
+ */
+export class SerializationError extends Error {
+  constructor(message: string, public readonly path: string) {
+    super(`${path}: ${message}`);
+    this.name = 'SerializationError';
+  }
+}
+
+/**
+ * Serialized effect timing
+ */
+export interface SerializedEffectTiming {
+  readonly appliedAt: number;
+  readonly duration?: number;
+  readonly expiresAt?: number;
+}
+
+/**
+ * Serialized effect
+ *
+ * Effects are written either through a codec (`type` + `data`) or, for gear
+ * passive effects, as a reference to the gear slot that provides them.
+ */
+export interface SerializedEffect {
+  readonly id: EffectId;
+  readonly type?: string; // Codec type id
+  readonly data?: Record<string, any>; // Codec payload
+  readonly gearSlot?: string; // Slot of the gear providing this passive effect
+  readonly timing?: SerializedEffectTiming;
+  readonly stacks?: EffectStack[]; // Applications of a stacking effect
+  readonly periodic?: PeriodicProgress; // Tick progress of a periodic effect
+}
+
+/**
+ * Serialized gear in a slot
+ */
+export interface SerializedGear {
+  readonly slot: string;
+  readonly type: string;
+  readonly data: Record<string, any>;
+}
+
+/**
+ * Serialized value provider
+ */
+export interface SerializedValueProvider {
+  readonly type: string;
+  readonly data: Record<string, any>;
+}
+
+/**
+ * Serialized stat bound (fixed value or bound function source)
+ */
+export type SerializedStatBound = StatBound | BoundFunctionSource;
+
+/**
+ * Serialized bound event configuration
+ */
+export interface SerializedBoundEventConfig {
+  readonly statType: StatType;
+  readonly boundConfig: {
+    readonly min?: SerializedStatBound;
+    readonly max?: SerializedStatBound;
+    readonly clampToBounds?: boolean;
+    readonly defaultValue?: number;
+  };
+  readonly ratioChangeThreshold?: number;
+  readonly positiveChangeOnly?: boolean;
+  readonly negativeChangeOnly?: boolean;
+  readonly minDistanceFromMin?: number;
+  readonly minDistanceFromMax?: number;
+  readonly maxDistanceFromMin?: number;
+  readonly maxDistanceFromMax?: number;
+  readonly thresholdConfig?: BoundThresholdConfig;
+}
+
+/**
+ * Serialized resource: its definition and tracking state
+ */
+export interface SerializedResource extends ResourceDefinition {
+  readonly lastMax?: number; // Maximum the current value last followed
+  readonly lastRegenAt: number;
+}
+
+/**
+ * Versioned JSON document describing an entity
+ */
+export interface EntityDocument {
+  readonly $schema: string;
+  readonly version: number;
+  readonly id: EntityId;
+  readonly baseStats: BaseStats;
+  readonly effects: SerializedEffect[];
+  readonly gear: SerializedGear[];
+  readonly valueProviders: SerializedValueProvider[];
+  readonly boundEventConfigs: SerializedBoundEventConfig[];
+  readonly resources?: SerializedResource[]; // Left out when the entity has no resources
+}
+
+/**
+ * JSON Schema (draft-07) describing an entity document
+ */
+export const ENTITY_JSON_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: ENTITY_DOCUMENT_SCHEMA,
+  title: 'Entity',
+  type: 'object',
+  required: ['$schema', 'version', 'id', 'baseStats', 'effects', 'gear', 'valueProviders', 'boundEventConfigs'],
+  properties: {
+    $schema: { const: ENTITY_DOCUMENT_SCHEMA },
+    version: { type: 'integer', minimum: 1 },
+    id: { type: 'string' },
+    baseStats: { type: 'object', additionalProperties: { type: 'number' } },
+    effects: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' },
+          type: { type: 'string' },
+          data: { type: 'object' },
+          gearSlot: { type: 'string' },
+          timing: {
+            type: 'object',
+            required: ['appliedAt'],
+            properties: {
+              appliedAt: { type: 'number' },
+              duration: { type: 'number' },
+              expiresAt: { type: 'number' }
+            }
+          },
+          stacks: {
+            type: 'array',
+            minItems: 1,
+            items: {
+              type: 'object',
+              required: ['appliedAt'],
+              properties: {
+                appliedAt: { type: 'number' },
+                expiresAt: { type: 'number' }
+              }
+            }
+          },
+          periodic: {
+            type: 'object',
+            required: ['appliedAt', 'lastUpdate', 'progress', 'ticks', 'finished'],
+            properties: {
+              appliedAt: { type: 'number' },
+              lastUpdate: { type: 'number' },
+              progress: { type: 'number' },
+              ticks: { type: 'integer', minimum: 0 },
+              finished: { type: 'boolean' }
+            }
+          }
+        }
+      }
+    },
+    gear: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['slot', 'type', 'data'],
+        properties: {
+          slot: { type: 'string' },
+          type: { type: 'string' },
+          data: { type: 'object' }
+        }
+      }
+    },
+    valueProviders: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['type', 'data'],
+        properties: {
+          type: { type: 'string' },
+          data: { type: 'object' }
+        }
+      }
+    },
+    boundEventConfigs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['statType', 'boundConfig'],
+        properties: {
+          statType: { type: 'string' },
+          boundConfig: { type: 'object' }
+        }
+      }
+    },
+    resources: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['statType', 'maxStatType', 'lastRegenAt'],
+        properties: {
+          statType: { type: 'string' },
+          maxStatType: { type: 'string' },
+          min: { type: 'number' },
+          onMaxChange: { enum: ['keepRatio', 'keepAbsolute'] },
+          regenPerSecond: { type: ['number', 'string'] },
+          lastMax: { type: 'number' },
+          lastRegenAt: { type: 'number' }
+        }
+      }
+    }
+  }
+} as const;
+
+/**
+ * Codec that writes and re-creates one kind of object under a type id
+ */
+export interface SerializationCodec<T> {
+  readonly typeId: string;
+
+  /**
+   * Check if this codec can write the given value
+   */
+  canEncode(value: T): boolean;
+
+  /**
+   * Write the value as plain JSON data
+   */
+  encode(value: T): Record<string, any>;
+
+  /**
+   * Re-create a value from data written by encode
+   */
+  decode(data: Record<string, any>, registry: SerializationRegistry): T;
+}
+
+/**
+ * Create a codec that re-creates objects by ID from registered factories
+ *
+ * Useful for effects and gear built from closures: only the ID is written,
+ * and the factory rebuilds the object on load.
+ * @param typeId - Type id written into documents
+ * @param factories - Factories keyed by object ID
+ * @returns Codec for the given objects
+ */
+export function createReferenceCodec<T extends { readonly id: string }>(
+  typeId: string,
+  factories: Record<string, () => T>
+): SerializationCodec<T> {
+  return {
+    typeId,
+    canEncode: (value) => Object.prototype.hasOwnProperty.call(factories, value.id),
+    encode: (value) => ({ id: value.id }),
+    decode: (data) => {
+      const factory = factories[data.id];
+      if (!factory) {
+        throw new Error(`No factory registered for ${data.id}`);
+      }
+      return factory();
+    }
+  };
+}
+
+/**
+ * Registry of codecs used to write and re-create effects, gear and value providers
+ */
+export class SerializationRegistry {
+  private readonly _effectCodecs: Map<string, SerializationCodec<Effect>> = new Map();
+  private readonly _gearCodecs: Map<string, SerializationCodec<Gear>> = new Map();
+  private readonly _providerCodecs: Map<string, SerializationCodec<ValueProvider>> = new Map();
+
+  /**
+   * Register an effect codec (later registrations are consulted first)
+   */
+  registerEffectCodec<T extends Effect>(codec: SerializationCodec<T>): this {
+    this.register(this._effectCodecs, codec as unknown as SerializationCodec<Effect>);
+    return this;
+  }
+
+  /**
+   * Register a gear codec (later registrations are consulted first)
+   */
+  registerGearCodec<T extends Gear>(codec: SerializationCodec<T>): this {
+    this.register(this._gearCodecs, codec as unknown as SerializationCodec<Gear>);
+    return this;
+  }
+
+  /**
+   * Register a value provider codec (later registrations are consulted first)
+   */
+  registerValueProviderCodec<T extends ValueProvider>(codec: SerializationCodec<T>): this {
+    this.register(this._providerCodecs, codec as unknown as SerializationCodec<ValueProvider>);
+    return this;
+  }
+
+  /**
+   * Create a copy of this registry that can be extended independently
+   */
+  clone(): SerializationRegistry {
+    const copy = new SerializationRegistry();
+    this._effectCodecs.forEach((codec, typeId) => copy._effectCodecs.set(typeId, codec));
+    this._gearCodecs.forEach((codec, typeId) => copy._gearCodecs.set(typeId, codec));
+    this._providerCodecs.forEach((codec, typeId) => copy._providerCodecs.set(typeId, codec));
+    return copy;
+  }
+
+  encodeEffect(effect: Effect, path: string = 'effect'): { type: string; data: Record<string, any> } {
+    return this.encode(this._effectCodecs, effect, `effect ${effect.id}`, path);
+  }
+
+  decodeEffect(type: string, data: Record<string, any>, path: string = 'effect'): Effect {
+    return this.decode(this._effectCodecs, type, data, path);
+  }
+
+  encodeGear(gear: Gear, path: string = 'gear'): { type: string; data: Record<string, any> } {
+    return this.encode(this._gearCodecs, gear, `gear ${gear.id}`, path);
+  }
+
+  decodeGear(type: string, data: Record<string, any>, path: string = 'gear'): Gear {
+    return this.decode(this._gearCodecs, type, data, path);
+  }
+
+  encodeValueProvider(provider: ValueProvider, path: string = 'valueProvider'): { type: string; data: Record<string, any> } {
+    return this.encode(this._providerCodecs, provider, `value provider ${provider.id}`, path);
+  }
+
+  decodeValueProvider(type: string, data: Record<string, any>, path: string = 'valueProvider'): ValueProvider {
+    return this.decode(this._providerCodecs, type, data, path);
+  }
+
+  private register<T>(codecs: Map<string, SerializationCodec<T>>, codec: SerializationCodec<T>): void {
+    // Re-insert so the newest codec is consulted first
+    codecs.delete(codec.typeId);
+    codecs.set(codec.typeId, codec);
+  }
+
+  private encode<T>(
+    codecs: Map<string, SerializationCodec<T>>,
+    value: T,
+    description: string,
+    path: string
+  ): { type: string; data: Record<string, any> } {
+    const candidates = Array.from(codecs.values()).reverse();
+    const codec = candidates.find(candidate => candidate.canEncode(value));
+    if (!codec) {
+      throw new SerializationError(`No codec registered for ${description}`, path);
+    }
+    return { type: codec.typeId, data: codec.encode(value) };
+  }
+
+  private decode<T>(
+    codecs: Map<string, SerializationCodec<T>>,
+    type: string,
+    data: Record<string, any>,
+    path: string
+  ): T {
+    const codec = codecs.get(type);
+    if (!codec) {
+      throw new SerializationError(`Unknown type id "${type}"`, `${path}.type`);
+    }
+
+    try {
+      return codec.decode(data, this);
+    } catch (error) {
+      if (error instanceof SerializationError) throw error;
+      throw new SerializationError((error as Error).message, `${path}.data`);
+    }
+  }
+}
+
+// ===== Bound Event Configs =====
+
+/**
+ * Write a bound event configuration
+ */
+export function serializeBoundEventConfig(config: BoundEventConfig, path: string): SerializedBoundEventConfig {
+  const { boundConfig, ...rest } = config;
+  return {
+    ...rest,
+    boundConfig: {
+      min: serializeStatBound(boundConfig.min, `${path}.boundConfig.min`),
+      max: serializeStatBound(boundConfig.max, `${path}.boundConfig.max`),
+      clampToBounds: boundConfig.clampToBounds,
+      defaultValue: boundConfig.defaultValue
+    }
+  };
+}
+
+/**
+ * Re-create a bound event configuration
+ */
+export function deserializeBoundEventConfig(data: SerializedBoundEventConfig): BoundEventConfig {
+  const { boundConfig, ...rest } = data;
+  const config: StatBoundConfig = {
+    min: deserializeStatBound(boundConfig.min),
+    max: deserializeStatBound(boundConfig.max),
+    clampToBounds: boundConfig.clampToBounds,
+    defaultValue: boundConfig.defaultValue
+  };
+  return { ...rest, boundConfig: config };
+}
+
+function serializeStatBound(
+  bound: StatBound | StatBoundFunction | undefined,
+  path: string
+): SerializedStatBound | undefined {
+  if (bound === undefined || typeof bound === 'number') {
+    return bound;
+  }
+
+  const source = StatBoundCalculator.describeBoundFunction(bound);
+  if (!source) {
+    throw new SerializationError('Bound function was not created by StatBoundCalculator and cannot be serialized', path);
+  }
+  return source;
+}
+
+function deserializeStatBound(bound: SerializedStatBound | undefined): StatBound | StatBoundFunction | undefined {
+  if (bound === undefined || typeof bound === 'number') {
+    return bound;
+  }
+  return StatBoundCalculator.createBoundFunction(bound);
+}
+
+// ===== Document Validation =====
+
+/**
+ * Validate the shape of an entity document
+ * @throws SerializationError naming the offending path
+ */
+export function validateEntityDocument(data: unknown): EntityDocument {
+  if (!isObject(data)) {
+    throw new SerializationError('Expected an object', '$');
+  }
+  if (data.$schema !== ENTITY_DOCUMENT_SCHEMA) {
+    throw new SerializationError(`Expected "${ENTITY_DOCUMENT_SCHEMA}"`, '$.$schema');
+  }
+  if (typeof data.version !== 'number' || data.version > ENTITY_DOCUMENT_VERSION) {
+    throw new SerializationError(`Unsupported version ${data.version} (latest is ${ENTITY_DOCUMENT_VERSION})`, '$.version');
+  }
+  if (typeof data.id !== 'string') {
+    throw new SerializationError('Expected a string', '$.id');
+  }
+  if (!isObject(data.baseStats)) {
+    throw new SerializationError('Expected an object', '$.baseStats');
+  }
+  for (const [statType, value] of Object.entries(data.baseStats)) {
+    if (typeof value !== 'number') {
+      throw new SerializationError('Expected a number', `$.baseStats.${statType}`);
+    }
+  }
+
+  for (const key of ['effects', 'gear', 'valueProviders', 'boundEventConfigs']) {
+    if (!Array.isArray(data[key])) {
+      throw new SerializationError('Expected an array', `$.${key}`);
+    }
+  }
+
+  (data.effects as unknown[]).forEach((effect, index) => {
+    const path = `$.effects[${index}]`;
+    if (!isObject(effect) || typeof effect.id !== 'string') {
+      throw new SerializationError('Expected an object with a string id', path);
+    }
+    if (effect.gearSlot === undefined && typeof effect.type !== 'string') {
+      throw new SerializationError('Expected either a type or a gearSlot', path);
+    }
+    if (effect.stacks !== undefined && (!Array.isArray(effect.stacks) || effect.stacks.length === 0)) {
+      throw new SerializationError('Expected a non-empty array', `${path}.stacks`);
+    }
+    effect.stacks?.forEach((stack: unknown, stackIndex: number) => {
+      if (!isObject(stack) || typeof stack.appliedAt !== 'number') {
+        throw new SerializationError('Expected an object with a numeric appliedAt', `${path}.stacks[${stackIndex}]`);
+      }
+    });
+    if (effect.periodic !== undefined && (!isObject(effect.periodic) ||
+        ['appliedAt', 'lastUpdate', 'progress', 'ticks'].some(field => typeof effect.periodic[field] !== 'number') ||
+        typeof effect.periodic.finished !== 'boolean')) {
+      throw new SerializationError('Expected an object with appliedAt, lastUpdate, progress, ticks and finished', `${path}.periodic`);
+    }
+  });
+
+  (data.gear as unknown[]).forEach((gear, index) => {
+    if (!isObject(gear) || typeof gear.slot !== 'string' || typeof gear.type !== 'string') {
+      throw new SerializationError('Expected an object with string slot and type', `$.gear[${index}]`);
+    }
+  });
+
+  (data.valueProviders as unknown[]).forEach((provider, index) => {
+    if (!isObject(provider) || typeof provider.type !== 'string') {
+      throw new SerializationError('Expected an object with a string type', `$.valueProviders[${index}]`);
+    }
+  });
+
+  (data.boundEventConfigs as unknown[]).forEach((config, index) => {
+    if (!isObject(config) || typeof config.statType !== 'string' || !isObject(config.boundConfig)) {
+      throw new SerializationError('Expected an object with statType and boundConfig', `$.boundEventConfigs[${index}]`);
+    }
+  });
+
+  if (data.resources !== undefined) {
+    if (!Array.isArray(data.resources)) {
+      throw new SerializationError('Expected an array', '$.resources');
+    }
+    data.resources.forEach((resource, index) => {
+      if (!isObject(resource) || typeof resource.statType !== 'string' || typeof resource.maxStatType !== 'string' || typeof resource.lastRegenAt !== 'number') {
+        throw new SerializationError('Expected an object with statType, maxStatType and lastRegenAt', `$.resources[${index}]`);
+      }
+    });
+  }
+
+  return data as unknown as EntityDocument;
+}
+
+/**
+ * Check for a plain JSON object (not null or an array)
+ */
+export function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ===== Built-in Codecs =====
+
+function isStackable(effect: Effect): boolean {
+  return effect.stackabilityRules[0]?.stackable ?? true;
+}
+
+const additiveEffectCodec: SerializationCodec<AdditiveEffect> = {
+  typeId: 'additive',
+  canEncode: (effect) => effect instanceof AdditiveEffect,
+  encode: (effect) => ({
+    id: effect.id,
+    name: effect.name,
+    statType: effect.statType,
+    value: effect.value,
+    stackable: isStackable(effect),
+    priority: effect.priority,
+    tags: [...effect.tags],
+    stacking: effect.stacking
+  }),
+  decode: (data) => new AdditiveEffect(data.id, data.name, data.statType, data.value, data.stackable, data.priority, data.tags, data.stacking)
+};
+
+const multiplicativeEffectCodec: SerializationCodec<MultiplicativeEffect> = {
+  typeId: 'multiplicative',
+  canEncode: (effect) => effect instanceof MultiplicativeEffect,
+  encode: (effect) => ({
+    id: effect.id,
+    name: effect.name,
+    statType: effect.statType,
+    factor: effect.factor,
+    stackable: isStackable(effect),
+    priority: effect.priority,
+    tags: [...effect.tags],
+    stacking: effect.stacking
+  }),
+  decode: (data) => new MultiplicativeEffect(data.id, data.name, data.statType, data.factor, data.stackable, data.priority, data.tags, data.stacking)
+};
+
+const percentageEffectCodec: SerializationCodec<PercentageEffect> = {
+  typeId: 'percentage',
+  canEncode: (effect) => effect instanceof PercentageEffect,
+  encode: (effect) => ({
+    id: effect.id,
+    name: effect.name,
+    statType: effect.statType,
+    percentage: effect.percentage,
+    stackable: isStackable(effect),
+    priority: effect.priority,
+    tags: [...effect.tags],
+    stacking: effect.stacking
+  }),
+  decode: (data) => new PercentageEffect(data.id, data.name, data.statType, data.percentage, data.stackable, data.priority, data.tags, data.stacking)
+};
+
+const setValueEffectCodec: SerializationCodec<SetValueEffect> = {
+  typeId: 'set_value',
+  canEncode: (effect) => effect instanceof SetValueEffect,
+  encode: (effect) => ({
+    id: effect.id,
+    name: effect.name,
+    statType: effect.statType,
+    value: effect.value,
+    priority: effect.priority,
+    tags: [...effect.tags],
+    stacking: effect.stacking
+  }),
+  decode: (data) => new SetValueEffect(data.id, data.name, data.statType, data.value, data.priority, data.tags, data.stacking)
+};
+
+const clampEffectCodec: SerializationCodec<ClampEffect> = {
+  typeId: 'clamp',
+  canEncode: (effect) => effect instanceof ClampEffect,
+  encode: (effect) => ({
+    id: effect.id,
+    name: effect.name,
+    statType: effect.statType,
+    min: effect.min,
+    max: effect.max,
+    priority: effect.priority,
+    tags: [...effect.tags]
+  }),
+  decode: (data) => new ClampEffect(data.id, data.name, data.statType, data.min, data.max, data.priority, data.tags)
+};
+
+const cancellationEffectCodec: SerializationCodec<CancellationEffect> = {
+  typeId: 'cancellation',
+  canEncode: (effect) => effect instanceof CancellationEffect,
+  encode: (effect) => ({
+    id: effect.id,
+    name: effect.name,
+    targetEffectIds: [...effect.targetEffectIds],
+    targetTags: [...effect.targetTags],
+    targetStatTypes: [...effect.targetStatTypes],
+    priority: effect.priority,
+    tags: [...effect.tags]
+  }),
+  decode: (data) => new CancellationEffect(
+    data.id,
+    data.name,
+    data.targetEffectIds,
+    data.priority,
+    data.targetTags,
+    data.targetStatTypes,
+    data.tags
+  )
+};
+
+const immunityEffectCodec: SerializationCodec<ImmunityEffect> = {
+  typeId: 'immunity',
+  canEncode: (effect) => effect instanceof ImmunityEffect,
+  encode: (effect) => ({
+    id: effect.id,
+    name: effect.name,
+    immuneTags: [...effect.immuneTags],
+    immuneStatTypes: [...effect.immuneStatTypes],
+    priority: effect.priority,
+    tags: [...effect.tags]
+  }),
+  decode: (data) => new ImmunityEffect(data.id, data.name, data.immuneTags, data.immuneStatTypes, data.priority, data.tags)
+};
+
+const periodicEffectCodec: SerializationCodec<PeriodicEffect> = {
+  typeId: 'periodic',
+  canEncode: (effect) => effect instanceof PeriodicEffect,
+  encode: (effect) => ({
+    id: effect.id,
+    name: effect.name,
+    statType: effect.statType,
+    amountPerTick: effect.amountPerTick,
+    interval: effect.interval,
+    tickRateStat: effect.tickRateStat,
+    partialFinalTick: effect.partialFinalTick,
+    priority: effect.priority,
+    tags: [...effect.tags],
+    stacking: effect.stacking
+  }),
+  decode: (data) => new PeriodicEffect(
+    data.id,
+    data.name,
+    data.statType,
+    data.amountPerTick,
+    data.interval,
+    data.tickRateStat,
+    data.partialFinalTick,
+    data.priority,
+    data.tags,
+    data.stacking
+  )
+};
+
+const definedEffectCodec: SerializationCodec<DefinedEffect> = {
+  typeId: 'definition',
+  canEncode: (effect) => effect instanceof DefinedEffect,
+  encode: (effect) => ({ ...effect.definition }),
+  decode: (data) => EffectDefinitionLoader.loadEffect(data)
+};
+
+const baseStatProviderCodec: SerializationCodec<BaseStatValueProvider> = {
+  typeId: 'base_stat',
+  canEncode: (provider) => provider instanceof BaseStatValueProvider,
+  encode: (provider) => ({
+    id: provider.id,
+    name: provider.name,
+    priority: provider.priority,
+    supportedPurposes: [...provider.supportedPurposes],
+    statType: provider.statType,
+    multiplier: provider.multiplier
+  }),
+  decode: (data) => new BaseStatValueProvider(
+    data.id,
+    data.name,
+    data.priority,
+    data.supportedPurposes,
+    data.statType,
+    data.multiplier
+  )
+};
+
+/**
+ * Default registry with codecs for the built-in effect and provider classes
+ */
+export const defaultSerializationRegistry = new SerializationRegistry()
+  .registerEffectCodec(additiveEffectCodec)
+  .registerEffectCodec(multiplicativeEffectCodec)
+  .registerEffectCodec(percentageEffectCodec)
+  .registerEffectCodec(setValueEffectCodec)
+  .registerEffectCodec(clampEffectCodec)
+  .registerEffectCodec(cancellationEffectCodec)
+  .registerEffectCodec(immunityEffectCodec)
+  .registerEffectCodec(periodicEffectCodec)
+  .registerEffectCodec(definedEffectCodec)
+  .registerValueProviderCodec(baseStatProviderCodec);
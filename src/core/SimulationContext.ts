@@ -0,0 +1,61 @@
+import { EventSystem, eventSystem } from './EventSystem';
+import { EffectApplicatorManager, effectApplicatorManager } from './EffectApplicator';
+import { InteractionManager, interactionManager } from './InteractionSystem';
+import { RNGManager, rngManager } from './RNG';
+import { StatPipeline, statPipeline } from './StatPipeline';
+import { Clock, RealTimeClock, realTimeClock } from './Clock';
+import { PeriodicEffectScheduler, periodicEffectScheduler } from './PeriodicEffects';
+import { StatSchema } from './StatSchema';
+
+/**
+ * Services shared by everything that takes part in one simulation
+ *
+ * Entities, frame managers and interaction managers read their event system,
+ * applicators, RNG, stat pipeline, clock and periodic effect scheduler from a context instead of module singletons, so several
+ * isolated simulations can run side by side in one process. A context can also
+ * carry the stat schema its entities are validated against.
+ */
+export interface SimulationContext {
+  readonly eventSystem: EventSystem;
+  readonly effectApplicatorManager: EffectApplicatorManager;
+  readonly interactionManager: InteractionManager;
+  readonly rngManager: RNGManager;
+  readonly statPipeline: StatPipeline;
+  readonly clock: Clock;
+  readonly periodicEffectScheduler: PeriodicEffectScheduler;
+  readonly statSchema?: StatSchema; // No validation when not set
+}
+
+/**
+ * Default context backed by the global singletons
+ */
+export const defaultSimulationContext: SimulationContext = {
+  eventSystem,
+  effectApplicatorManager,
+  interactionManager,
+  rngManager,
+  statPipeline,
+  clock: realTimeClock,
+  periodicEffectScheduler
+};
+
+/**
+ * Create an isolated simulation context with its own services
+ * @param overrides - Services to use instead of fresh instances
+ * @returns A new simulation context
+ */
+export function createSimulationContext(overrides: Partial<SimulationContext> = {}): SimulationContext {
+  const clock = overrides.clock ?? new RealTimeClock();
+  const contextEventSystem = overrides.eventSystem ?? new EventSystem(clock);
+
+  return {
+    eventSystem: contextEventSystem,
+    effectApplicatorManager: overrides.effectApplicatorManager ?? new EffectApplicatorManager(),
+    interactionManager: overrides.interactionManager ?? new InteractionManager({ eventSystem: contextEventSystem, clock }),
+    rngManager: overrides.rngManager ?? new RNGManager(),
+    statPipeline: overrides.statPipeline ?? new StatPipeline(),
+    clock,
+    periodicEffectScheduler: overrides.periodicEffectScheduler ?? new PeriodicEffectScheduler(),
+    statSchema: overrides.statSchema
+  };
+}
@@ -6,11 +6,13 @@ import {
   StatMap,
   StatBoundConfig,
   StatBoundResult,
+  BoundFunctionSource,
   BoundThresholdConfig,
   DEFAULT_BOUND_THRESHOLDS,
   EntityId,
   Effect
 } from './types';
+import { StatExpression } from './StatExpression';
 
 /**
  * Utility class for calculating stat bounds and derived metrics
@@ -32,6 +34,9 @@ import {
  * - Custom bounds: min=baseStat*0.5, max=baseStat*2.0
  */
 export class StatBoundCalculator {
+  // Sources of bound functions built by this class, so they can be serialized
+  private static readonly _boundFunctionSources: WeakMap<StatBoundFunction, BoundFunctionSource> = new WeakMap();
+
   /**
    * Calculate stat bounds based on the provided configuration
    * @param statType - The stat type to calculate bounds for
@@ -147,8 +152,62 @@ export class StatBoundCalculator {
     defaultValue: StatValue = 0
   ): StatBoundConfig {
     return {
-      min: (stats: StatMap) => stats.get(minStat) ?? 0,
-      max: (stats: StatMap) => stats.get(maxStat) ?? 100,
+      min: this.createBoundFunction({ kind: 'stat', statType: minStat, fallback: 0 }),
+      max: this.createBoundFunction({ kind: 'stat', statType: maxStat, fallback: 100 }),
+      clampToBounds,
+      defaultValue
+    };
+  }
+  
+  /**
+   * Create a bound function from a serializable source description
+   * @param source - Description of the bound function
+   * @returns Bound function that remembers its source
+   */
+  static createBoundFunction(source: BoundFunctionSource): StatBoundFunction {
+    let fn: StatBoundFunction;
+    
+    switch (source.kind) {
+      case 'stat':
+        fn = (stats: StatMap) => stats.get(source.statType) ?? source.fallback;
+        break;
+      case 'expression':
+        fn = StatExpression.compile(source.expression, { expectedType: 'number' }).toStatFunction();
+        break;
+      default:
+        throw new Error(`Unknown bound function source: ${(source as BoundFunctionSource).kind}`);
+    }
+    
+    this._boundFunctionSources.set(fn, source);
+    return fn;
+  }
+  
+  /**
+   * Describe a bound function created by this class
+   * @param fn - The bound function
+   * @returns The source description, or undefined for arbitrary closures
+   */
+  static describeBoundFunction(fn: StatBoundFunction): BoundFunctionSource | undefined {
+    return this._boundFunctionSources.get(fn);
+  }
+  
+  /**
+   * Create a bound configuration with expression-based bounds
+   * @param minExpression - Expression for the minimum bound (e.g. "0")
+   * @param maxExpression - Expression for the maximum bound (e.g. "maxHealth + level * 5")
+   * @param clampToBounds - Whether to clamp values to bounds (default: false)
+   * @param defaultValue - Default value if bounds are invalid (default: 0)
+   * @returns Expression-based bound configuration
+   */
+  static createExpressionBoundConfig(
+    minExpression: string,
+    maxExpression: string,
+    clampToBounds: boolean = false,
+    defaultValue: StatValue = 0
+  ): StatBoundConfig {
+    return {
+      min: this.createBoundFunction({ kind: 'expression', expression: minExpression }),
+      max: this.createBoundFunction({ kind: 'expression', expression: maxExpression }),
       clampToBounds,
       defaultValue
     };
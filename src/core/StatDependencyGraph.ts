@@ -0,0 +1,115 @@
+import { Effect, StatType } from './types';
+import { DerivedStatSet } from './DerivedStats';
+
+/**
+ * Dependencies between stats, derived from the effects on an entity
+ *
+ * A stat depends on every stat read (`Effect.reads`) by the effects that
+ * modify it (`Effect.statTypes`), and on the other stats modified by the same
+ * effect. Effects that do not declare their reads make the stats they modify
+ * depend on every stat. Derived stats depend on the stats their formulas read.
+ */
+export class StatDependencyGraph {
+  private readonly _dependencies: Map<StatType, Set<StatType>> = new Map(); // stat -> stats it is calculated from
+  private readonly _dependents: Map<StatType, Set<StatType>> = new Map(); // stat -> stats calculated from it
+  private readonly _readsAnyStat: Set<StatType> = new Set(); // stats modified by effects with unknown reads
+
+  /**
+   * Build the graph for the effects applied to an entity
+   * @param effects - The effects
+   * @param derivedStats - The entity's derived stats
+   */
+  static fromEffects(effects: Iterable<Effect>, derivedStats?: DerivedStatSet): StatDependencyGraph {
+    const graph = new StatDependencyGraph();
+    for (const effect of effects) {
+      graph.addEffect(effect);
+    }
+    for (const definition of derivedStats?.getDefinitions() ?? []) {
+      definition.reads.forEach(source => graph.addDependency(definition.statType, source));
+    }
+    return graph;
+  }
+
+  /**
+   * Add the dependencies introduced by an effect
+   */
+  addEffect(effect: Effect): void {
+    for (const statType of effect.statTypes) {
+      if (!effect.reads) this._readsAnyStat.add(statType);
+      for (const source of [...(effect.reads ?? []), ...effect.statTypes]) {
+        if (source !== statType) this.addDependency(statType, source);
+      }
+    }
+  }
+
+  /**
+   * Stats a stat is calculated from directly
+   */
+  getDependencies(statType: StatType): StatType[] {
+    return Array.from(this._dependencies.get(statType) ?? []);
+  }
+
+  /**
+   * Stats calculated directly from a stat (not counting effects with unknown reads)
+   */
+  getDependents(statType: StatType): StatType[] {
+    return Array.from(this._dependents.get(statType) ?? []);
+  }
+
+  /**
+   * Whether a stat is modified by an effect that may read any stat
+   */
+  readsAnyStat(statType: StatType): boolean {
+    return this._readsAnyStat.has(statType);
+  }
+
+  /**
+   * Stats that need recalculating after some stats changed
+   * @param changed - Stats whose inputs changed
+   * @returns The changed stats and every stat derived from them, transitively
+   */
+  getAffectedStats(changed: Iterable<StatType>): Set<StatType> {
+    const affected = new Set(changed);
+    if (affected.size > 0) {
+      this._readsAnyStat.forEach(statType => affected.add(statType));
+    }
+    return this.closure(affected, this._dependents);
+  }
+
+  /**
+   * Stats that must be calculated to get the value of some stats
+   * @param stats - Stats to calculate
+   * @returns The stats and everything they are calculated from, or undefined when that is every stat
+   */
+  getRequiredStats(stats: Iterable<StatType>): Set<StatType> | undefined {
+    const required = this.closure(new Set(stats), this._dependencies);
+    for (const statType of required) {
+      if (this._readsAnyStat.has(statType)) return undefined;
+    }
+    return required;
+  }
+
+  private addDependency(statType: StatType, source: StatType): void {
+    const dependencies = this._dependencies.get(statType) ?? new Set<StatType>();
+    dependencies.add(source);
+    this._dependencies.set(statType, dependencies);
+
+    const dependents = this._dependents.get(source) ?? new Set<StatType>();
+    dependents.add(statType);
+    this._dependents.set(source, dependents);
+  }
+
+  private closure(start: Set<StatType>, edges: Map<StatType, Set<StatType>>): Set<StatType> {
+    const queue = Array.from(start);
+    while (queue.length > 0) {
+      const statType = queue.pop()!;
+      for (const next of edges.get(statType) ?? []) {
+        if (!start.has(next)) {
+          start.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    return start;
+  }
+}
@@ -0,0 +1,529 @@
+import {
+  EffectContext,
+  StatType,
+  StatValue,
+  StatMap
+} from './types';
+
+/**
+ * Static type of an expression
+ */
+export type ExpressionType = 'number' | 'boolean';
+
+/**
+ * Value produced by an expression
+ */
+export type ExpressionValue = number | boolean;
+
+/**
+ * Options for compiling an expression
+ */
+export interface StatExpressionOptions {
+  readonly knownStats?: Iterable<StatType>; // Reject references to any other stat
+  readonly variables?: string[]; // Extra names supplied at evaluation time (e.g. `value`)
+  readonly expectedType?: ExpressionType; // Required result type
+}
+
+/**
+ * Error raised for expressions that cannot be parsed or type checked
+ */
+export class StatExpressionError extends Error {
+  constructor(
+    public readonly reason: string,
+    public readonly source: string,
+    public readonly position: number
+  ) {
+    super(`${reason} at position ${position}\n  ${source}\n  ${' '.repeat(position)}^`);
+    this.name = 'StatExpressionError';
+  }
+}
+
+// ===== Tokenizer =====
+
+type TokenKind = 'number' | 'identifier' | 'operator' | 'end';
+
+interface Token {
+  readonly kind: TokenKind;
+  readonly text: string;
+  readonly position: number;
+}
+
+const OPERATORS = ['<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '^', '<', '>', '!', '(', ')', ',', '?', ':'];
+const WORD_OPERATORS: ReadonlyMap<string, string> = new Map([['and', '&&'], ['or', '||'], ['not', '!']]);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(index));
+    if (number) {
+      tokens.push({ kind: 'number', text: number[0], position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index));
+    if (identifier) {
+      const word = identifier[0];
+      const operator = WORD_OPERATORS.get(word);
+      tokens.push(operator
+        ? { kind: 'operator', text: operator, position: index }
+        : { kind: 'identifier', text: word, position: index });
+      index += word.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, index));
+    if (operator) {
+      tokens.push({ kind: 'operator', text: operator, position: index });
+      index += operator.length;
+      continue;
+    }
+
+    throw new StatExpressionError(`Unexpected character "${char}"`, source, index);
+  }
+
+  tokens.push({ kind: 'end', text: '', position: source.length });
+  return tokens;
+}
+
+// ===== Parser =====
+
+type ExpressionNode =
+  | { readonly kind: 'number'; readonly value: number; readonly position: number }
+  | { readonly kind: 'boolean'; readonly value: boolean; readonly position: number }
+  | { readonly kind: 'identifier'; readonly name: string; readonly position: number }
+  | { readonly kind: 'unary'; readonly operator: string; readonly operand: ExpressionNode; readonly position: number }
+  | { readonly kind: 'binary'; readonly operator: string; readonly left: ExpressionNode; readonly right: ExpressionNode; readonly position: number }
+  | { readonly kind: 'conditional'; readonly test: ExpressionNode; readonly consequent: ExpressionNode; readonly alternate: ExpressionNode; readonly position: number }
+  | { readonly kind: 'call'; readonly callee: string; readonly args: ExpressionNode[]; readonly position: number };
+
+/**
+ * Binary operators by precedence level (lowest first)
+ */
+const BINARY_LEVELS: string[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%']
+];
+
+class Parser {
+  private _index = 0;
+
+  constructor(private readonly source: string, private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseConditional();
+    const token = this.peek();
+    if (token.kind !== 'end') {
+      throw this.error(`Unexpected "${token.text}"`, token);
+    }
+    return node;
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseBinary(0);
+    const token = this.peek();
+    if (!this.matchOperator('?')) return test;
+
+    const consequent = this.parseConditional();
+    this.expectOperator(':');
+    const alternate = this.parseConditional();
+    return { kind: 'conditional', test, consequent, alternate, position: token.position };
+  }
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= BINARY_LEVELS.length) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      if (token.kind !== 'operator' || !BINARY_LEVELS[level].includes(token.text)) return left;
+      this._index++;
+      const right = this.parseBinary(level + 1);
+      left = { kind: 'binary', operator: token.text, left, right, position: token.position };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (this.matchOperator('-') || this.matchOperator('!')) {
+      return { kind: 'unary', operator: token.text, operand: this.parseUnary(), position: token.position };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ExpressionNode {
+    const base = this.parsePrimary();
+    const token = this.peek();
+    if (!this.matchOperator('^')) return base;
+    // Right-associative, binds tighter than unary minus on its left
+    return { kind: 'binary', operator: '^', left: base, right: this.parseUnary(), position: token.position };
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    if (token.kind === 'number') {
+      return { kind: 'number', value: Number(token.text), position: token.position };
+    }
+
+    if (token.kind === 'identifier') {
+      if (token.text === 'true' || token.text === 'false') {
+        return { kind: 'boolean', value: token.text === 'true', position: token.position };
+      }
+      if (!this.matchOperator('(')) {
+        return { kind: 'identifier', name: token.text, position: token.position };
+      }
+
+      const args: ExpressionNode[] = [];
+      if (!this.matchOperator(')')) {
+        do {
+          args.push(this.parseConditional());
+        } while (this.matchOperator(','));
+        this.expectOperator(')');
+      }
+      return { kind: 'call', callee: token.text, args, position: token.position };
+    }
+
+    if (token.kind === 'operator' && token.text === '(') {
+      const node = this.parseConditional();
+      this.expectOperator(')');
+      return node;
+    }
+
+    throw this.error(token.kind === 'end' ? 'Unexpected end of expression' : `Unexpected "${token.text}"`, token);
+  }
+
+  private peek(): Token {
+    return this.tokens[this._index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this._index];
+    if (token.kind !== 'end') this._index++;
+    return token;
+  }
+
+  private matchOperator(text: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'operator' && token.text === text) {
+      this._index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(text: string): void {
+    const token = this.peek();
+    if (!this.matchOperator(text)) {
+      throw this.error(`Expected "${text}" but found ${token.kind === 'end' ? 'end of expression' : `"${token.text}"`}`, token);
+    }
+  }
+
+  private error(message: string, token: Token): StatExpressionError {
+    return new StatExpressionError(message, this.source, token.position);
+  }
+}
+
+// ===== Functions =====
+
+interface ExpressionFunction {
+  readonly minArgs: number;
+  readonly maxArgs: number;
+  readonly apply: (...args: number[]) => number;
+}
+
+const FUNCTIONS: ReadonlyMap<string, ExpressionFunction> = new Map<string, ExpressionFunction>([
+  ['min', { minArgs: 1, maxArgs: Infinity, apply: (...args) => Math.min(...args) }],
+  ['max', { minArgs: 1, maxArgs: Infinity, apply: (...args) => Math.max(...args) }],
+  ['clamp', { minArgs: 3, maxArgs: 3, apply: (value, low, high) => Math.min(Math.max(value, low), high) }],
+  ['abs', { minArgs: 1, maxArgs: 1, apply: Math.abs }],
+  ['floor', { minArgs: 1, maxArgs: 1, apply: Math.floor }],
+  ['ceil', { minArgs: 1, maxArgs: 1, apply: Math.ceil }],
+  ['round', { minArgs: 1, maxArgs: 1, apply: Math.round }],
+  ['sqrt', { minArgs: 1, maxArgs: 1, apply: (value) => value < 0 ? 0 : Math.sqrt(value) }],
+  ['pow', { minArgs: 2, maxArgs: 2, apply: Math.pow }]
+]);
+
+// ===== Type Checking and Compilation =====
+
+interface EvaluationScope {
+  readonly stats: StatMap;
+  readonly variables?: Readonly<Record<string, number>>;
+}
+
+type Evaluator = (scope: EvaluationScope) => ExpressionValue;
+
+interface CompiledNode {
+  readonly type: ExpressionType;
+  readonly evaluate: Evaluator;
+}
+
+class Compiler {
+  readonly statReferences: Set<StatType> = new Set();
+  private readonly _knownStats?: Set<StatType>;
+  private readonly _variables: Set<string>;
+
+  constructor(private readonly source: string, options: StatExpressionOptions) {
+    this._knownStats = options.knownStats ? new Set(options.knownStats) : undefined;
+    this._variables = new Set(options.variables ?? []);
+  }
+
+  compile(node: ExpressionNode): CompiledNode {
+    switch (node.kind) {
+      case 'number': {
+        const value = node.value;
+        return { type: 'number', evaluate: () => value };
+      }
+      case 'boolean': {
+        const value = node.value;
+        return { type: 'boolean', evaluate: () => value };
+      }
+      case 'identifier':
+        return this.compileIdentifier(node.name, node.position);
+      case 'unary':
+        return this.compileUnary(node.operator, node.operand);
+      case 'binary':
+        return this.compileBinary(node.operator, node.left, node.right);
+      case 'conditional': {
+        const test = this.expect(node.test, 'boolean');
+        const consequent = this.compile(node.consequent);
+        const alternate = this.expect(node.alternate, consequent.type);
+        return {
+          type: consequent.type,
+          evaluate: (scope) => test(scope) ? consequent.evaluate(scope) : alternate(scope)
+        };
+      }
+      case 'call':
+        return this.compileCall(node.callee, node.args, node.position);
+    }
+  }
+
+  private compileIdentifier(name: string, position: number): CompiledNode {
+    if (this._variables.has(name)) {
+      return {
+        type: 'number',
+        evaluate: (scope) => scope.variables && Object.prototype.hasOwnProperty.call(scope.variables, name)
+          ? scope.variables[name]
+          : 0
+      };
+    }
+    if (FUNCTIONS.has(name)) {
+      throw this.error(`"${name}" is a function and must be called`, position);
+    }
+    if (this._knownStats && !this._knownStats.has(name)) {
+      throw this.error(`Unknown stat "${name}"`, position);
+    }
+
+    this.statReferences.add(name);
+    return { type: 'number', evaluate: (scope) => scope.stats.get(name) ?? 0 };
+  }
+
+  private compileUnary(operator: string, operand: ExpressionNode): CompiledNode {
+    if (operator === '!') {
+      const value = this.expect(operand, 'boolean');
+      return { type: 'boolean', evaluate: (scope) => !value(scope) };
+    }
+    const value = this.expect(operand, 'number');
+    return { type: 'number', evaluate: (scope) => -(value(scope) as number) };
+  }
+
+  private compileBinary(operator: string, leftNode: ExpressionNode, rightNode: ExpressionNode): CompiledNode {
+    if (operator === '&&' || operator === '||') {
+      const left = this.expect(leftNode, 'boolean');
+      const right = this.expect(rightNode, 'boolean');
+      return {
+        type: 'boolean',
+        evaluate: operator === '&&'
+          ? (scope) => (left(scope) as boolean) && (right(scope) as boolean)
+          : (scope) => (left(scope) as boolean) || (right(scope) as boolean)
+      };
+    }
+
+    if (operator === '==' || operator === '!=') {
+      const left = this.compile(leftNode);
+      const right = this.expect(rightNode, left.type);
+      return {
+        type: 'boolean',
+        evaluate: operator === '=='
+          ? (scope) => left.evaluate(scope) === right(scope)
+          : (scope) => left.evaluate(scope) !== right(scope)
+      };
+    }
+
+    const left = this.expect(leftNode, 'number') as (scope: EvaluationScope) => number;
+    const right = this.expect(rightNode, 'number') as (scope: EvaluationScope) => number;
+
+    switch (operator) {
+      case '<': return { type: 'boolean', evaluate: (scope) => left(scope) < right(scope) };
+      case '<=': return { type: 'boolean', evaluate: (scope) => left(scope) <= right(scope) };
+      case '>': return { type: 'boolean', evaluate: (scope) => left(scope) > right(scope) };
+      case '>=': return { type: 'boolean', evaluate: (scope) => left(scope) >= right(scope) };
+      case '+': return { type: 'number', evaluate: (scope) => left(scope) + right(scope) };
+      case '-': return { type: 'number', evaluate: (scope) => left(scope) - right(scope) };
+      case '*': return { type: 'number', evaluate: (scope) => left(scope) * right(scope) };
+      case '^': return { type: 'number', evaluate: (scope) => Math.pow(left(scope), right(scope)) };
+      case '/': return { type: 'number', evaluate: (scope) => divide(left(scope), right(scope)) };
+      case '%': return { type: 'number', evaluate: (scope) => {
+        const divisor = right(scope);
+        return divisor === 0 ? 0 : left(scope) % divisor;
+      } };
+      default:
+        throw this.error(`Unknown operator "${operator}"`, leftNode.position);
+    }
+  }
+
+  private compileCall(callee: string, argNodes: ExpressionNode[], position: number): CompiledNode {
+    if (callee === 'if') {
+      if (argNodes.length !== 3) {
+        throw this.error(`if() expects 3 arguments, got ${argNodes.length}`, position);
+      }
+      return this.compile({
+        kind: 'conditional',
+        test: argNodes[0],
+        consequent: argNodes[1],
+        alternate: argNodes[2],
+        position
+      });
+    }
+
+    const fn = FUNCTIONS.get(callee);
+    if (!fn) {
+      throw this.error(`Unknown function "${callee}"`, position);
+    }
+    if (argNodes.length < fn.minArgs || argNodes.length > fn.maxArgs) {
+      const expected = fn.minArgs === fn.maxArgs
+        ? `${fn.minArgs}`
+        : fn.maxArgs === Infinity ? `at least ${fn.minArgs}` : `${fn.minArgs}-${fn.maxArgs}`;
+      throw this.error(`${callee}() expects ${expected} argument(s), got ${argNodes.length}`, position);
+    }
+
+    const args = argNodes.map(arg => this.expect(arg, 'number') as (scope: EvaluationScope) => number);
+    return { type: 'number', evaluate: (scope) => fn.apply(...args.map(arg => arg(scope))) };
+  }
+
+  private expect(node: ExpressionNode, type: ExpressionType): Evaluator {
+    const compiled = this.compile(node);
+    if (compiled.type !== type) {
+      throw this.error(`Expected a ${type} but found a ${compiled.type}`, node.position);
+    }
+    return compiled.evaluate;
+  }
+
+  private error(message: string, position: number): StatExpressionError {
+    return new StatExpressionError(message, this.source, position);
+  }
+}
+
+function divide(dividend: number, divisor: number): number {
+  return divisor === 0 ? 0 : dividend / divisor;
+}
+
+// ===== Stat Expression =====
+
+/**
+ * Compiled, sandboxed stat expression
+ *
+ * Expressions such as `min(maxHealth, strength * 2 + level)` or
+ * `health / maxHealth < 0.25` are parsed and type checked once, then
+ * evaluated against a stat map without access to any JavaScript. Missing
+ * stats read as 0, and division or modulo by zero yields 0.
+ *
+ * Supported syntax: numbers, `true`/`false`, stat names, `+ - * / % ^`,
+ * comparisons, `&&`/`and`, `||`/`or`, `!`/`not`, `cond ? a : b`, and the
+ * functions `min`, `max`, `clamp`, `abs`, `floor`, `ceil`, `round`, `sqrt`,
+ * `pow` and `if(cond, a, b)`.
+ */
+export class StatExpression {
+  private constructor(
+    public readonly source: string,
+    public readonly resultType: ExpressionType,
+    public readonly statReferences: ReadonlyArray<StatType>,
+    private readonly _evaluate: Evaluator
+  ) {}
+
+  /**
+   * Parse and type check an expression
+   * @param source - The expression text
+   * @param options - Known stats, extra variables and the required result type
+   * @returns The compiled expression
+   * @throws StatExpressionError if the expression is invalid
+   */
+  static compile(source: string, options: StatExpressionOptions = {}): StatExpression {
+    const ast = new Parser(source, tokenize(source)).parse();
+    const compiler = new Compiler(source, options);
+    const compiled = compiler.compile(ast);
+
+    if (options.expectedType && compiled.type !== options.expectedType) {
+      throw new StatExpressionError(`Expected a ${options.expectedType} expression but found a ${compiled.type}`, source, 0);
+    }
+
+    return new StatExpression(source, compiled.type, Array.from(compiler.statReferences), compiled.evaluate);
+  }
+
+  /**
+   * Evaluate against a stat map
+   * @param stats - Current stat values
+   * @param variables - Values for the variables declared at compile time
+   */
+  evaluate(stats: StatMap, variables?: Readonly<Record<string, number>>): ExpressionValue {
+    return this._evaluate({ stats, variables });
+  }
+
+  /**
+   * Evaluate a number expression (booleans become 1 or 0)
+   */
+  evaluateNumber(stats: StatMap, variables?: Readonly<Record<string, number>>): number {
+    return Number(this.evaluate(stats, variables));
+  }
+
+  /**
+   * Evaluate a boolean expression (numbers are true when non-zero)
+   */
+  evaluateBoolean(stats: StatMap, variables?: Readonly<Record<string, number>>): boolean {
+    return Boolean(this.evaluate(stats, variables));
+  }
+
+  /**
+   * Closure over a stat map, usable as a `StatBoundFunction`
+   */
+  toStatFunction(): (stats: StatMap) => number {
+    return (stats) => this.evaluateNumber(stats);
+  }
+
+  /**
+   * Closure usable with `ConditionalApplicable` and other effect-context predicates
+   */
+  toCondition(): (context: EffectContext) => boolean {
+    return (context) => this.evaluateBoolean(context.currentStats);
+  }
+
+  /**
+   * Closure usable with `FunctionBasedImpact`; `value` is the target stat's current value
+   */
+  toImpactFunction(): (context: EffectContext, statType: StatType) => StatValue {
+    return (context, statType) => this.evaluateNumber(context.currentStats, {
+      value: context.currentStats.get(statType) ?? 0
+    });
+  }
+
+  toString(): string {
+    return this.source;
+  }
+
+  toJSON(): string {
+    return this.source;
+  }
+}
@@ -0,0 +1,388 @@
+import {
+  Effect,
+  EffectId,
+  EffectContext,
+  StatType,
+  StatValue,
+  StatMap,
+  StatModifier,
+  ModifierStage,
+  StatTraceStatus,
+  StatTraceEntry,
+  StatExplanation
+} from './types';
+import { DerivedStatSet } from './DerivedStats';
+import { StatSchema } from './StatSchema';
+
+/**
+ * Default stage order for every stat
+ */
+export const DEFAULT_MODIFIER_STAGES: readonly ModifierStage[] = [
+  ModifierStage.BASE_ADD,
+  ModifierStage.ADDITIVE_PERCENT,
+  ModifierStage.MULTIPLICATIVE,
+  ModifierStage.OVERRIDE,
+  ModifierStage.FINAL_CLAMP
+];
+
+/**
+ * Staged stat calculation
+ *
+ * Effects that provide `getModifiers` contribute to explicit stages instead of
+ * mutating the stat map in priority order: flat amounts are summed, percent
+ * bonuses are pooled and applied once, factors are multiplied, overrides
+ * replace the value and clamps run last. The stage list can be changed per
+ * stat type; stages left out of a stat's list are ignored for that stat.
+ *
+ * Effects without `getModifiers` are applied through `apply` in priority
+ * order after every other stage and before the final clamp.
+ *
+ * Stacked effects (see `EffectContext.stackCounts`) contribute once per
+ * stack: flat and percent amounts are multiplied by the stack count, factors
+ * are raised to it and unstaged effects are applied that many times.
+ *
+ * Derived stats (see `DerivedStatSet`) are calculated after the effects on
+ * the stats they read, one dependency level at a time; effects targeting a
+ * derived stat then run again from the derived value.
+ *
+ * With a stat schema, calculated values are rounded and clamped to their
+ * declared range before derived stats read them.
+ */
+export class StatPipeline {
+  private readonly _defaultStages: ModifierStage[];
+  private readonly _statStages: Map<StatType, ModifierStage[]> = new Map();
+
+  constructor(defaultStages: readonly ModifierStage[] = DEFAULT_MODIFIER_STAGES) {
+    this._defaultStages = [...defaultStages];
+  }
+
+  /**
+   * Use a custom stage order for one stat type
+   */
+  setStages(statType: StatType, stages: readonly ModifierStage[]): this {
+    this._statStages.set(statType, [...stages]);
+    return this;
+  }
+
+  /**
+   * Restore the default stage order for one stat type
+   */
+  resetStages(statType: StatType): this {
+    this._statStages.delete(statType);
+    return this;
+  }
+
+  /**
+   * Get the stage order used for a stat type
+   */
+  getStages(statType: StatType): ModifierStage[] {
+    return [...(this._statStages.get(statType) ?? this._defaultStages)];
+  }
+
+  /**
+   * Calculate stats from base values and effects
+   * @param baseStats - Starting stat values
+   * @param effects - Effects sorted by priority (lower first)
+   * @param createContext - Builds the effect context for a stat map
+   * @param derivedStats - Stats calculated from other stats after effects
+   * @param schema - Rounding and ranges for calculated values
+   * @returns The calculated stats
+   */
+  calculate(
+    baseStats: StatMap,
+    effects: Effect[],
+    createContext: (stats: StatMap) => EffectContext,
+    derivedStats?: DerivedStatSet,
+    schema?: StatSchema
+  ): StatMap {
+    return this.runWithDerived(baseStats, effects, createContext, new Map(), derivedStats, schema).stats;
+  }
+
+  /**
+   * Calculate one stat and record every effect that touched it
+   * @param statType - The stat to explain
+   * @param baseStats - Starting stat values
+   * @param effects - Every effect on the entity, sorted by priority (lower first)
+   * @param createContext - Builds the effect context for a stat map
+   * @param skipped - Effects already known to be skipped, and why
+   * @param derivedStats - Stats calculated from other stats after effects
+   * @param schema - Rounding and ranges for calculated values
+   * @returns Ordered breakdown of the calculation
+   */
+  explain(
+    statType: StatType,
+    baseStats: StatMap,
+    effects: Effect[],
+    createContext: (stats: StatMap) => EffectContext,
+    skipped: ReadonlyMap<EffectId, StatTraceStatus> = new Map(),
+    derivedStats?: DerivedStatSet,
+    schema?: StatSchema
+  ): StatExplanation {
+    const { stats, trace, start } = this.runWithDerived(baseStats, effects, createContext, skipped, derivedStats, schema, statType);
+    const formula = derivedStats?.get(statType)?.formula;
+    return {
+      statType,
+      baseValue: start.get(statType) ?? 0,
+      finalValue: stats.get(statType) ?? 0,
+      entries: trace,
+      formula: formula === undefined ? undefined : typeof formula === 'string' ? formula : 'custom formula'
+    };
+  }
+
+  /**
+   * Run effects on regular stats, then derive stats level by level
+   * @returns The stats, the trace for the traced stat and the starting values it was traced from
+   */
+  private runWithDerived(
+    baseStats: StatMap,
+    effects: Effect[],
+    createContext: (stats: StatMap) => EffectContext,
+    skipped: ReadonlyMap<EffectId, StatTraceStatus>,
+    derivedStats?: DerivedStatSet,
+    schema?: StatSchema,
+    tracedStat?: StatType
+  ): { stats: StatMap; trace: StatTraceEntry[]; start: StatMap } {
+    const normalize = (stats: StatMap, statTypes: Iterable<StatType>) => {
+      if (!schema) return;
+      for (const statType of statTypes) {
+        const value = stats.get(statType);
+        if (value !== undefined) stats.set(statType, schema.normalize(statType, value));
+      }
+    };
+
+    if (!derivedStats || derivedStats.size === 0) {
+      const result = this.run(baseStats, effects, createContext, skipped, tracedStat);
+      normalize(result.stats, Array.from(result.stats.keys()));
+      return { ...result, start: baseStats };
+    }
+
+    // Derived stats have no base value of their own
+    const regularBase = new Map(Array.from(baseStats).filter(([statType]) => !derivedStats.has(statType)));
+    const tracedRegular = tracedStat !== undefined && !derivedStats.has(tracedStat) ? tracedStat : undefined;
+    const regular = this.run(regularBase, effects, createContext, skipped, tracedRegular);
+    const stats = new Map(Array.from(regular.stats).filter(([statType]) => !derivedStats.has(statType)));
+    normalize(stats, Array.from(stats.keys()));
+    let trace = regular.trace;
+    let start: StatMap = regularBase;
+
+    for (const level of derivedStats.getLevels()) {
+      const levelStart = new Map(stats);
+      for (const statType of level) {
+        levelStart.set(statType, derivedStats.evaluate(statType, stats));
+      }
+      const levelEffects = effects.filter(effect => effect.statTypes.some(statType => level.includes(statType)));
+      const tracedHere = tracedStat !== undefined && level.includes(tracedStat) ? tracedStat : undefined;
+      const result = this.run(levelStart, levelEffects, createContext, skipped, tracedHere);
+      for (const statType of level) {
+        stats.set(statType, result.stats.get(statType) ?? 0);
+      }
+      normalize(stats, level);
+      if (tracedHere !== undefined) {
+        trace = result.trace;
+        start = levelStart;
+      }
+    }
+
+    return { stats, trace, start };
+  }
+
+  private run(
+    baseStats: StatMap,
+    effects: Effect[],
+    createContext: (stats: StatMap) => EffectContext,
+    skipped: ReadonlyMap<EffectId, StatTraceStatus>,
+    tracedStat?: StatType
+  ): { stats: StatMap; trace: StatTraceEntry[] } {
+    const stats = new Map(baseStats);
+    const context = createContext(stats);
+    const contributionsByStat = new Map<StatType, StagedContribution[]>();
+    const unstaged: Array<{ effect: Effect; status: StatTraceStatus; stacks: number }> = [];
+    const trace: StatTraceEntry[] = [];
+
+    const record = (
+      effect: Effect,
+      status: StatTraceStatus,
+      stacks: number,
+      before: StatValue,
+      after: StatValue,
+      stage?: ModifierStage
+    ) => {
+      trace.push({
+        effectId: effect.id,
+        effectName: effect.name,
+        stage,
+        priority: effect.priority,
+        status,
+        valueBefore: before,
+        valueAfter: after,
+        stacks: stacks > 1 ? stacks : undefined
+      });
+    };
+
+    for (const effect of effects) {
+      const status = skipped.get(effect.id) ?? (effect.isActive(context) ? 'applied' : 'inactive');
+      const stacks = context.stackCounts?.get(effect.id) ?? 1;
+
+      if (!effect.getModifiers) {
+        unstaged.push({ effect, status, stacks });
+        continue;
+      }
+      // Skipped effects only matter when they are being reported
+      if (status !== 'applied' && tracedStat === undefined) continue;
+
+      for (const modifier of effect.getModifiers(context)) {
+        const contributions = contributionsByStat.get(modifier.statType) ?? [];
+        contributions.push({ effect, modifier: StatPipeline.scaleModifier(modifier, stacks), status, stacks });
+        contributionsByStat.set(modifier.statType, contributions);
+      }
+    }
+
+    const runStage = (statType: StatType, stage: ModifierStage, contributions: StagedContribution[]) => {
+      const start = stats.get(statType) ?? 0;
+      const inStage = contributions.filter(contribution => contribution.modifier.stage === stage);
+      const applied = inStage.filter(contribution => contribution.status === 'applied');
+      const steps = StatPipeline.foldStage(stage, start, applied.map(contribution => contribution.modifier));
+
+      let value = start;
+      let step = 0;
+      for (const contribution of inStage) {
+        const before = value;
+        if (contribution.status === 'applied') value = steps[step++];
+        if (statType === tracedStat) {
+          record(contribution.effect, contribution.status, contribution.stacks, before, value, stage);
+        }
+      }
+      stats.set(statType, value);
+    };
+
+    for (const [statType, contributions] of contributionsByStat) {
+      for (const stage of this.getStages(statType)) {
+        if (stage !== ModifierStage.FINAL_CLAMP) runStage(statType, stage, contributions);
+      }
+    }
+
+    if (unstaged.length > 0) {
+      const unstagedContext = createContext(stats);
+      for (const { effect, status, stacks } of unstaged) {
+        const before = tracedStat === undefined ? 0 : stats.get(tracedStat) ?? 0;
+        if (status === 'applied') {
+          for (let stack = 0; stack < stacks; stack++) effect.apply(unstagedContext, stats);
+        }
+        if (tracedStat === undefined) continue;
+
+        const after = stats.get(tracedStat) ?? 0;
+        if (effect.statTypes.includes(tracedStat) || after !== before) {
+          record(effect, status, stacks, before, after);
+        }
+      }
+    }
+
+    for (const [statType, contributions] of contributionsByStat) {
+      if (this.getStages(statType).includes(ModifierStage.FINAL_CLAMP)) {
+        runStage(statType, ModifierStage.FINAL_CLAMP, contributions);
+      }
+    }
+
+    return { stats, trace };
+  }
+
+  /**
+   * Apply one stage's modifiers to a value
+   * @param stage - The stage being applied
+   * @param value - Value before the stage
+   * @param modifiers - Modifiers for this stage, in priority order
+   * @returns Value after the stage
+   */
+  static applyStage(stage: ModifierStage, value: StatValue, modifiers: StatModifier[]): StatValue {
+    const steps = this.foldStage(stage, value, modifiers);
+    return steps.length > 0 ? steps[steps.length - 1] : value;
+  }
+
+  /**
+   * Scale a modifier for an effect with several stacks
+   * @param modifier - The modifier of a single stack
+   * @param stacks - Number of stacks
+   * @returns The combined modifier (overrides and clamps do not scale)
+   */
+  static scaleModifier(modifier: StatModifier, stacks: number): StatModifier {
+    if (stacks === 1) return modifier;
+    switch (modifier.stage) {
+      case ModifierStage.BASE_ADD:
+      case ModifierStage.ADDITIVE_PERCENT:
+        return { ...modifier, value: modifier.value * stacks };
+      case ModifierStage.MULTIPLICATIVE:
+        return { ...modifier, value: Math.pow(modifier.value, stacks) };
+      default:
+        return modifier;
+    }
+  }
+
+  /**
+   * Format an explanation as readable lines (e.g. for tooltips)
+   */
+  static formatExplanation(explanation: StatExplanation): string {
+    const origin = explanation.formula ? `derived from ${explanation.formula}` : 'base';
+    const lines = [`${explanation.statType}: ${explanation.baseValue} (${origin})`];
+    for (const entry of explanation.entries) {
+      const stage = entry.stage ?? `priority ${entry.priority}`;
+      const source = entry.source ? ` from ${entry.source.gearName}` : '';
+      const stacks = entry.stacks ? ` x${entry.stacks}` : '';
+      lines.push(entry.status === 'applied'
+        ? `  ${entry.effectName}${stacks}${source} [${stage}]: ${entry.valueBefore} → ${entry.valueAfter}`
+        : `  ${entry.effectName}${source} [${stage}]: skipped (${entry.status}${entry.suppressedBy ? ` by ${entry.suppressedBy}` : ''})`);
+    }
+    lines.push(`  = ${explanation.finalValue}`);
+    return lines.join('\n');
+  }
+
+  /**
+   * Value after each modifier of a stage, in order
+   */
+  private static foldStage(stage: ModifierStage, start: StatValue, modifiers: StatModifier[]): StatValue[] {
+    const steps: StatValue[] = [];
+    let value = start;
+    let percent = 0;
+    let min = -Infinity;
+    let max = Infinity;
+
+    for (const modifier of modifiers) {
+      if (modifier.stage === ModifierStage.FINAL_CLAMP) {
+        if (modifier.min !== undefined) min = Math.max(min, modifier.min);
+        if (modifier.max !== undefined) max = Math.min(max, modifier.max);
+        steps.push(Math.min(Math.max(start, min), max));
+        continue;
+      }
+
+      switch (stage) {
+        case ModifierStage.BASE_ADD:
+          value += modifier.value;
+          break;
+        case ModifierStage.ADDITIVE_PERCENT:
+          percent += modifier.value;
+          value = start * (1 + percent);
+          break;
+        case ModifierStage.MULTIPLICATIVE:
+          value *= modifier.value;
+          break;
+        case ModifierStage.OVERRIDE:
+          value = modifier.value;
+          break;
+      }
+      steps.push(value);
+    }
+
+    return steps;
+  }
+}
+
+interface StagedContribution {
+  readonly effect: Effect;
+  readonly modifier: StatModifier;
+  readonly status: StatTraceStatus;
+  readonly stacks: number;
+}
+
+/**
+ * Global stat pipeline instance
+ */
+export const statPipeline = new StatPipeline();
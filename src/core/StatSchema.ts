@@ -0,0 +1,228 @@
+import { StatType, StatValue, BaseStats } from './types';
+
+/**
+ * How calculated values are rounded
+ */
+export type StatRounding = 'round' | 'floor' | 'ceil' | 'trunc' | 'none';
+
+/**
+ * What to do when a stat name is not in the schema
+ */
+export type UnknownStatPolicy = 'allow' | 'warn' | 'error';
+
+/**
+ * Declaration of one stat
+ */
+export interface StatDefinition {
+  readonly displayName?: string;
+  readonly type?: 'integer' | 'float'; // Default: float
+  readonly defaultValue?: StatValue; // Base value for entities that don't set the stat
+  readonly min?: number;
+  readonly max?: number;
+  readonly rounding?: StatRounding; // Default: 'round' for integers, 'none' for floats
+  readonly decimals?: number; // Decimals kept when rounding a float stat (default: 0)
+}
+
+/**
+ * A problem found while validating stats
+ */
+export interface StatSchemaIssue {
+  readonly statType: StatType;
+  readonly message: string;
+}
+
+/**
+ * Error raised for stat values or names the schema rejects, listing every issue found
+ */
+export class StatSchemaError extends Error {
+  constructor(public readonly issues: StatSchemaIssue[]) {
+    super(`Invalid stats:\n${issues.map(issue => `  ${issue.statType}: ${issue.message}`).join('\n')}`);
+    this.name = 'StatSchemaError';
+  }
+}
+
+/**
+ * Declared stats with their defaults, ranges and rounding
+ *
+ * Entities whose simulation context has a schema start from the declared
+ * defaults, reject base stats that break a declaration and flag stat names
+ * the schema doesn't know (usually typos). Calculated values are rounded and
+ * then clamped to the declared range, before derived stats read them.
+ */
+export class StatSchema {
+  private readonly _definitions: Map<StatType, StatDefinition> = new Map();
+  private readonly _reportedUnknown: Set<StatType> = new Set();
+  private readonly _unknownStats: UnknownStatPolicy;
+  private _version: number = 0;
+
+  /**
+   * @param options.unknownStats - Unknown stat names are allowed, warned about once each (default) or rejected
+   */
+  constructor(options: { unknownStats?: UnknownStatPolicy } = {}) {
+    this._unknownStats = options.unknownStats ?? 'warn';
+  }
+
+  /**
+   * Declare (or redeclare) a stat
+   * @throws StatSchemaError if the declaration contradicts itself
+   */
+  define(statType: StatType, definition: StatDefinition = {}): this {
+    const issues: string[] = [];
+    if (definition.min !== undefined && definition.max !== undefined && definition.min > definition.max) {
+      issues.push(`min ${definition.min} is greater than max ${definition.max}`);
+    }
+    if (definition.decimals !== undefined && !(Number.isInteger(definition.decimals) && definition.decimals >= 0)) {
+      issues.push(`decimals must be a whole number of at least 0, got ${definition.decimals}`);
+    }
+    if (definition.defaultValue !== undefined) {
+      const problem = checkValue(definition, definition.defaultValue);
+      if (problem) issues.push(`default value ${problem}`);
+    }
+    if (issues.length > 0) {
+      throw new StatSchemaError(issues.map(message => ({ statType, message })));
+    }
+
+    this._definitions.set(statType, { ...definition });
+    this._reportedUnknown.delete(statType);
+    this._version++;
+    return this;
+  }
+
+  /**
+   * Stop declaring a stat
+   */
+  remove(statType: StatType): boolean {
+    const removed = this._definitions.delete(statType);
+    if (removed) this._version++;
+    return removed;
+  }
+
+  has(statType: StatType): boolean {
+    return this._definitions.has(statType);
+  }
+
+  get(statType: StatType): StatDefinition | undefined {
+    const definition = this._definitions.get(statType);
+    return definition && { ...definition };
+  }
+
+  getStatTypes(): StatType[] {
+    return Array.from(this._definitions.keys());
+  }
+
+  get unknownStats(): UnknownStatPolicy {
+    return this._unknownStats;
+  }
+
+  /**
+   * Changes whenever a declaration is added, replaced or removed
+   */
+  get version(): number {
+    return this._version;
+  }
+
+  /**
+   * Name to show for a stat (the stat type when none is declared)
+   */
+  getDisplayName(statType: StatType): string {
+    return this._definitions.get(statType)?.displayName ?? statType;
+  }
+
+  /**
+   * Default base values of the stats that declare one
+   */
+  getDefaults(): BaseStats {
+    const defaults: BaseStats = {};
+    for (const [statType, definition] of this._definitions) {
+      if (definition.defaultValue !== undefined) defaults[statType] = definition.defaultValue;
+    }
+    return defaults;
+  }
+
+  /**
+   * Default value of one stat (0 when none is declared)
+   */
+  getDefault(statType: StatType): StatValue {
+    return this._definitions.get(statType)?.defaultValue ?? 0;
+  }
+
+  /**
+   * Check a value against a stat's declaration
+   * @returns What is wrong with the value, or undefined if it is valid
+   */
+  check(statType: StatType, value: StatValue): StatSchemaIssue | undefined {
+    const definition = this._definitions.get(statType);
+    const problem = definition ? checkValue(definition, value) : Number.isFinite(value) ? undefined : `must be a finite number, got ${value}`;
+    return problem ? { statType, message: problem } : undefined;
+  }
+
+  /**
+   * Check stat values, flagging unknown names
+   * @param stats - Stat values (e.g. an entity's base stats)
+   * @param known - Names that are valid even though the schema doesn't declare them
+   * @throws StatSchemaError listing every invalid value (and every unknown name when they are rejected)
+   */
+  validate(stats: BaseStats, known?: (statType: StatType) => boolean): void {
+    const issues: StatSchemaIssue[] = [];
+    for (const [statType, value] of Object.entries(stats)) {
+      const unknown = this.flagUnknown(statType, known);
+      if (unknown) issues.push(unknown);
+      const issue = this.check(statType, value);
+      if (issue) issues.push(issue);
+    }
+    if (issues.length > 0) {
+      throw new StatSchemaError(issues);
+    }
+  }
+
+  /**
+   * Flag a stat name the schema doesn't declare, according to the unknown stat policy
+   * @param statType - The stat name
+   * @param known - Names that are valid even though the schema doesn't declare them
+   * @throws StatSchemaError if unknown stats are rejected
+   */
+  checkStatType(statType: StatType, known?: (statType: StatType) => boolean): void {
+    const issue = this.flagUnknown(statType, known);
+    if (issue) {
+      throw new StatSchemaError([issue]);
+    }
+  }
+
+  /**
+   * Round a value and clamp it to its stat's range
+   */
+  normalize(statType: StatType, value: StatValue): StatValue {
+    const definition = this._definitions.get(statType);
+    if (!definition) return value;
+
+    const rounding = definition.rounding ?? (definition.type === 'integer' ? 'round' : 'none');
+    let normalized = value;
+    if (rounding !== 'none') {
+      const scale = definition.type === 'integer' ? 1 : 10 ** (definition.decimals ?? 0);
+      normalized = Math[rounding](value * scale) / scale;
+    }
+    if (definition.min !== undefined) normalized = Math.max(definition.min, normalized);
+    if (definition.max !== undefined) normalized = Math.min(definition.max, normalized);
+    return normalized;
+  }
+
+  private flagUnknown(statType: StatType, known?: (statType: StatType) => boolean): StatSchemaIssue | undefined {
+    if (this._unknownStats === 'allow' || this._definitions.has(statType) || known?.(statType)) return undefined;
+
+    const issue = { statType, message: 'is not declared in the stat schema' };
+    if (this._unknownStats === 'error') return issue;
+    if (!this._reportedUnknown.has(statType)) {
+      this._reportedUnknown.add(statType);
+      console.warn(`Unknown stat: ${statType}`);
+    }
+    return undefined;
+  }
+}
+
+function checkValue(definition: StatDefinition, value: StatValue): string | undefined {
+  if (!Number.isFinite(value)) return `must be a finite number, got ${value}`;
+  if (definition.type === 'integer' && !Number.isInteger(value)) return `must be a whole number, got ${value}`;
+  if (definition.min !== undefined && value < definition.min) return `must be at least ${definition.min}, got ${value}`;
+  if (definition.max !== undefined && value > definition.max) return `must be at most ${definition.max}, got ${value}`;
+  return undefined;
+}
@@ -5,6 +5,10 @@ import {
   StatType, 
   StatValue,
   StatStackability,
+  StatModifier,
+  ModifierStage,
+  SuppressionRule,
+  StackingRule,
   StatBoundConfig,
   StatBoundResult,
   BoundThresholdConfig,
@@ -21,7 +25,11 @@ export abstract class BaseEffect implements Effect {
     public readonly name: string,
     public readonly priority: number = 0,
     public readonly statTypes: StatType[],
-    public readonly stackabilityRules: StatStackability[]
+    public readonly stackabilityRules: StatStackability[],
+    public readonly tags: string[] = [],
+    public readonly stacking?: StackingRule,
+    public readonly reads?: StatType[],
+    public readonly timeDependent: boolean = false
   ) {}
   
   abstract apply(context: EffectContext, stats: Map<StatType, StatValue>): void;
@@ -48,20 +56,29 @@ export class AdditiveEffect extends BaseEffect {
   constructor(
     id: EffectId,
     name: string,
-    private readonly statType: StatType,
-    private readonly value: StatValue,
+    public readonly statType: StatType,
+    public readonly value: StatValue,
     stackable: boolean = true,
-    priority: number = 0
+    priority: number = 0,
+    tags: string[] = [],
+    stacking?: StackingRule
   ) {
     super(
       id, 
       name, 
       priority, 
       [statType], 
-      [{ statType, stackable }]
+      [{ statType, stackable }],
+      tags,
+      stacking,
+      [] // Always active
     );
   }
   
+  getModifiers(context: EffectContext): StatModifier[] {
+    return [{ statType: this.statType, stage: ModifierStage.BASE_ADD, value: this.value }];
+  }
+  
   apply(context: EffectContext, stats: Map<StatType, StatValue>): void {
     const current = stats.get(this.statType) ?? 0;
     stats.set(this.statType, current + this.value);
@@ -80,20 +97,29 @@ export class MultiplicativeEffect extends BaseEffect {
   constructor(
     id: EffectId,
     name: string,
-    private readonly statType: StatType,
-    private readonly factor: StatValue,
+    public readonly statType: StatType,
+    public readonly factor: StatValue,
     stackable: boolean = true,
-    priority: number = 0
+    priority: number = 0,
+    tags: string[] = [],
+    stacking?: StackingRule
   ) {
     super(
       id, 
       name, 
       priority, 
       [statType], 
-      [{ statType, stackable }]
+      [{ statType, stackable }],
+      tags,
+      stacking,
+      [] // Always active
     );
   }
   
+  getModifiers(context: EffectContext): StatModifier[] {
+    return [{ statType: this.statType, stage: ModifierStage.MULTIPLICATIVE, value: this.factor }];
+  }
+  
   apply(context: EffectContext, stats: Map<StatType, StatValue>): void {
     const current = stats.get(this.statType) ?? 0;
     stats.set(this.statType, current * this.factor);
@@ -112,19 +138,28 @@ export class SetValueEffect extends BaseEffect {
   constructor(
     id: EffectId,
     name: string,
-    private readonly statType: StatType,
-    private readonly value: StatValue,
-    priority: number = 0
+    public readonly statType: StatType,
+    public readonly value: StatValue,
+    priority: number = 0,
+    tags: string[] = [],
+    stacking?: StackingRule
   ) {
     super(
       id, 
       name, 
       priority, 
       [statType], 
-      [{ statType, stackable: false }] // Set effects are never stackable
+      [{ statType, stackable: false }], // Set effects are never stackable
+      tags,
+      stacking,
+      [] // Always active
     );
   }
   
+  getModifiers(context: EffectContext): StatModifier[] {
+    return [{ statType: this.statType, stage: ModifierStage.OVERRIDE, value: this.value }];
+  }
+  
   apply(context: EffectContext, stats: Map<StatType, StatValue>): void {
     stats.set(this.statType, this.value);
   }
@@ -138,26 +173,35 @@ export class SetValueEffect extends BaseEffect {
 }
 
 /**
- * Effect that applies a percentage bonus to a stat
+ * Effect that applies a percentage bonus to a stat (pooled with other percentage bonuses)
  */
 export class PercentageEffect extends BaseEffect {
   constructor(
     id: EffectId,
     name: string,
-    private readonly statType: StatType,
-    private readonly percentage: StatValue, // e.g., 0.1 for 10% bonus
+    public readonly statType: StatType,
+    public readonly percentage: StatValue, // e.g., 0.1 for 10% bonus
     stackable: boolean = true,
-    priority: number = 0
+    priority: number = 0,
+    tags: string[] = [],
+    stacking?: StackingRule
   ) {
     super(
       id, 
       name, 
       priority, 
       [statType], 
-      [{ statType, stackable }]
+      [{ statType, stackable }],
+      tags,
+      stacking,
+      [] // Always active
     );
   }
   
+  getModifiers(context: EffectContext): StatModifier[] {
+    return [{ statType: this.statType, stage: ModifierStage.ADDITIVE_PERCENT, value: this.percentage }];
+  }
+  
   apply(context: EffectContext, stats: Map<StatType, StatValue>): void {
     const current = stats.get(this.statType) ?? 0;
     const bonus = current * this.percentage;
@@ -171,25 +215,81 @@ export class PercentageEffect extends BaseEffect {
   }
 }
 
+/**
+ * Effect that limits a stat to a range after every other modifier
+ */
+export class ClampEffect extends BaseEffect {
+  constructor(
+    id: EffectId,
+    name: string,
+    public readonly statType: StatType,
+    public readonly min?: StatValue,
+    public readonly max?: StatValue,
+    priority: number = 0,
+    tags: string[] = []
+  ) {
+    super(
+      id, 
+      name, 
+      priority, 
+      [statType], 
+      [{ statType, stackable: true }],
+      tags,
+      undefined,
+      [] // Always active
+    );
+  }
+  
+  getModifiers(context: EffectContext): StatModifier[] {
+    return [{ statType: this.statType, stage: ModifierStage.FINAL_CLAMP, min: this.min, max: this.max }];
+  }
+  
+  apply(context: EffectContext, stats: Map<StatType, StatValue>): void {
+    const current = stats.get(this.statType) ?? 0;
+    stats.set(this.statType, Math.min(Math.max(current, this.min ?? -Infinity), this.max ?? Infinity));
+  }
+  
+  reverse(context: EffectContext, stats: Map<StatType, StatValue>): void {
+    // Clamping cannot be undone
+  }
+}
+
 /**
  * Conditional effect that only applies under certain conditions
+ *
+ * Wrapping a staged effect keeps it staged: its modifiers are contributed
+ * while the condition holds.
  */
 export class ConditionalEffect extends BaseEffect {
+  readonly getModifiers?: (context: EffectContext) => StatModifier[];
+  
   constructor(
     id: EffectId,
     name: string,
     private readonly condition: (context: EffectContext) => boolean,
     private readonly effect: Effect,
     stackable: boolean = true,
-    priority: number = 0
+    priority: number = 0,
+    tags: string[] = effect.tags ?? [],
+    stacking: StackingRule | undefined = effect.stacking,
+    reads?: StatType[], // Stats the condition reads besides statTypes (any stat when not set)
+    timeDependent: boolean = false // Depends on time or randomness, so cached stats expire when the clock moves
   ) {
     super(
       id, 
       name, 
       priority, 
       effect.statTypes, 
-      effect.stackabilityRules
+      effect.stackabilityRules,
+      tags,
+      stacking,
+      reads && effect.reads ? [...reads, ...effect.reads] : undefined,
+      timeDependent
     );
+    if (effect.getModifiers) {
+      const getModifiers = effect.getModifiers.bind(effect);
+      this.getModifiers = context => this.condition(context) ? getModifiers(context) : [];
+    }
   }
   
   apply(context: EffectContext, stats: Map<StatType, StatValue>): void {
@@ -209,28 +309,54 @@ export class ConditionalEffect extends BaseEffect {
   }
 }
 
+/**
+ * Check whether a suppression rule covers an effect
+ * @param rule - The suppression rule
+ * @param effect - The effect to check
+ * @param tags - The effect's tags, if more than it declares (e.g. the implied gear tag)
+ * @returns true if the rule matches the effect by id, tag or stat type
+ */
+export function matchesSuppressionRule(rule: SuppressionRule, effect: Effect, tags: string[] = effect.tags ?? []): boolean {
+  if (rule.effectIds?.includes(effect.id)) return true;
+  if (rule.tags?.some(tag => tags.includes(tag))) return true;
+  if (rule.statTypes?.some(statType => effect.statTypes.includes(statType))) return true;
+  return false;
+}
+
 /**
  * Effect that cancels out other effects
+ *
+ * While active, matching effects are skipped in stat calculation and value
+ * requests. Cancellation and immunity effects are never suppressed themselves.
  */
 export class CancellationEffect extends BaseEffect {
+  public readonly suppression: SuppressionRule;
+  
   constructor(
     id: EffectId,
     name: string,
-    private readonly targetEffectIds: EffectId[],
-    priority: number = 0
+    public readonly targetEffectIds: EffectId[],
+    priority: number = 0,
+    public readonly targetTags: string[] = [],
+    public readonly targetStatTypes: StatType[] = [],
+    tags: string[] = []
   ) {
     super(
       id, 
       name, 
       priority, 
       [], // Doesn't directly modify stats
-      [] // No stackability rules needed
+      [], // No stackability rules needed
+      tags,
+      undefined,
+      [] // Only depends on the effect set
     );
+    this.suppression = { effectIds: targetEffectIds, tags: targetTags, statTypes: targetStatTypes };
   }
   
   apply(context: EffectContext, stats: Map<StatType, StatValue>): void {
     // This effect doesn't directly modify stats
-    // Instead, it prevents other effects from being applied
+    // Instead, the entity skips the effects it suppresses
   }
   
   reverse(context: EffectContext, stats: Map<StatType, StatValue>): void {
@@ -239,12 +365,39 @@ export class CancellationEffect extends BaseEffect {
   
   isActive(context: EffectContext): boolean {
     // Check if any of the target effects are present
-    return this.targetEffectIds.some(targetId => 
-      context.effectStack.some(effect => effect.id === targetId)
+    return context.effectStack.some(effect =>
+      effect.id !== this.id && matchesSuppressionRule(this.suppression, effect, context.effectTags?.get(effect.id))
     );
   }
 }
 
+/**
+ * Effect that grants immunity to effects with certain tags or stat types
+ */
+export class ImmunityEffect extends BaseEffect {
+  public readonly suppression: SuppressionRule;
+  
+  constructor(
+    id: EffectId,
+    name: string,
+    public readonly immuneTags: string[],
+    public readonly immuneStatTypes: StatType[] = [],
+    priority: number = 0,
+    tags: string[] = []
+  ) {
+    super(id, name, priority, [], [], tags, undefined, []);
+    this.suppression = { tags: immuneTags, statTypes: immuneStatTypes };
+  }
+  
+  apply(context: EffectContext, stats: Map<StatType, StatValue>): void {
+    // Suppression is handled by the entity
+  }
+  
+  reverse(context: EffectContext, stats: Map<StatType, StatValue>): void {
+    // No-op
+  }
+}
+
 /**
  * Complex effect that can modify multiple stats based on complex logic
  */
@@ -257,9 +410,13 @@ export class ComplexEffect extends BaseEffect {
     private readonly conditionFn?: (context: EffectContext) => boolean,
     statTypes: StatType[] = [],
     stackabilityRules: StatStackability[] = [],
-    priority: number = 0
+    priority: number = 0,
+    tags: string[] = [],
+    stacking?: StackingRule,
+    reads?: StatType[], // Stats the functions read besides statTypes (any stat when not set)
+    timeDependent: boolean = false // Depends on time or randomness, so cached stats expire when the clock moves
   ) {
-    super(id, name, priority, statTypes, stackabilityRules);
+    super(id, name, priority, statTypes, stackabilityRules, tags, stacking, reads, timeDependent);
   }
   
   apply(context: EffectContext, stats: Map<StatType, StatValue>): void {
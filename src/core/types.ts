@@ -2,6 +2,8 @@
  * Core types and interfaces for the Entity Effects API
  */
 
+import type { RNGManager } from './RNG';
+
 // Base stat value type - all stats are floating point numbers
 export type StatValue = number;
 
@@ -38,15 +40,50 @@ export interface FrameContainer {
   // Lazy evaluation methods
   getEntityStats(entityId: EntityId): StatMap | undefined;
   getEntityEffects(entityId: EntityId): EffectId[] | undefined;
+  getEntityEffectStates(entityId: EntityId): ReadonlyMap<EffectId, FrameEffectState> | undefined;
+  getEntityGear(entityId: EntityId): ReadonlyMap<string, FrameGearState> | undefined; // slot -> gear
   getEntityContext(entityId: EntityId): EffectContext | undefined;
   
   // Update methods (minimal allocation)
   updateEntityStats(entityId: EntityId, stats: StatMap): void;
-  updateEntityEffects(entityId: EntityId, effects: EffectId[]): void;
+  updateEntityEffects(entityId: EntityId, effects: EffectId[], effectTags?: Map<EffectId, string[]>): void;
   
   // Selective information access
   getStatsOfInterest(entityId: EntityId, statTypes: StatType[]): Partial<Record<StatType, StatValue>>;
-  getEffectsOfInterest(entityId: EntityId, effectTypes?: string[]): EffectId[];
+  getEffectsOfInterest(entityId: EntityId, tags?: string[]): EffectId[]; // Effects carrying any of the tags
+}
+
+/**
+ * An effect as captured in a frame
+ */
+export interface FrameEffectState {
+  readonly effectId: EffectId;
+  readonly name: string;
+  readonly tags: readonly string[];
+  readonly appliedAt?: number;
+  readonly duration?: number;
+  readonly expiresAt?: number;
+  readonly stacks: number;
+}
+
+/**
+ * Gear as captured in a frame
+ */
+export interface FrameGearState {
+  readonly slot: string;
+  readonly gearId: string;
+  readonly name: string;
+  readonly type: string;
+}
+
+/**
+ * One entity's data in a frame as plain values, e.g. for building frames without entities
+ */
+export interface FrameEntityData {
+  readonly entityId: EntityId;
+  readonly stats?: Readonly<Record<StatType, StatValue>>;
+  readonly effects?: readonly FrameEffectState[]; // In the order the effects were applied
+  readonly gear?: readonly FrameGearState[];
 }
 
 /**
@@ -61,7 +98,10 @@ export interface FrameView {
   // Lazy read access
   getEntityStats(entityId: EntityId): StatMap | undefined;
   getEntityEffects(entityId: EntityId): EffectId[] | undefined;
+  getEntityEffectStates(entityId: EntityId): ReadonlyMap<EffectId, FrameEffectState> | undefined;
+  getEntityGear(entityId: EntityId): ReadonlyMap<string, FrameGearState> | undefined;
   getStatsOfInterest(entityId: EntityId, statTypes: StatType[]): Partial<Record<StatType, StatValue>>;
+  getEffectsOfInterest(entityId: EntityId, tags?: string[]): EffectId[];
   
   // Batch operations
   getAllEntityStats(): Map<EntityId, StatMap>;
@@ -83,8 +123,10 @@ export interface FrameComparison {
  */
 export interface EntityDifference {
   readonly entityId: EntityId;
-  readonly type: 'entity_added' | 'entity_removed' | 'stats_changed';
+  readonly type: 'entity_added' | 'entity_removed' | 'stats_changed' | 'effects_changed' | 'gear_changed';
   readonly changes: StatChange[];
+  readonly effectChanges?: EffectChange[]; // For effects_changed
+  readonly gearChanges?: GearChange[]; // For gear_changed
 }
 
 /**
@@ -92,11 +134,63 @@ export interface EntityDifference {
  */
 export interface StatChange {
   readonly statType: StatType;
+  readonly kind: 'changed' | 'added' | 'removed'; // Added stats count from 0, removed stats go to 0
   readonly oldValue: StatValue;
   readonly newValue: StatValue;
   readonly difference: StatValue;
 }
 
+/**
+ * Effect change in frame comparison
+ */
+export interface EffectChange {
+  readonly effectId: EffectId;
+  readonly kind: 'added' | 'removed' | 'changed'; // changed: stack count or expiry
+  readonly oldStacks?: number;
+  readonly newStacks?: number;
+  readonly oldRemaining?: number; // Milliseconds left at the first frame's time (none for permanent effects)
+  readonly newRemaining?: number; // Milliseconds left at the second frame's time
+}
+
+/**
+ * Gear slot change in frame comparison
+ */
+export interface GearChange {
+  readonly slot: string;
+  readonly kind: 'equipped' | 'unequipped' | 'replaced';
+  readonly oldGear?: FrameGearState;
+  readonly newGear?: FrameGearState;
+}
+
+/**
+ * Options for comparing frames
+ */
+export interface FrameComparisonOptions {
+  readonly tolerance?: number; // Stat and expiry differences up to this are ignored (default: 0)
+}
+
+/**
+ * Changes that turn one frame into another
+ */
+export interface FramePatch {
+  readonly baseFrameId: string; // Frame the patch applies to
+  readonly frameId: string;
+  readonly timestamp: number;
+  readonly metadata?: Record<string, any>;
+  readonly entityIds?: EntityId[]; // Entities of the patched frame, when they differ from the base frame's
+  readonly entities: Record<EntityId, EntityPatch>; // Only entities with changes
+}
+
+/**
+ * Changes to one entity in a frame patch; null removes a stat, effect or gear
+ */
+export interface EntityPatch {
+  readonly stats?: Record<StatType, StatValue | null>;
+  readonly effects?: Record<EffectId, FrameEffectState | null>;
+  readonly effectOrder?: EffectId[]; // When the order isn't the remaining effects followed by the new ones
+  readonly gear?: Record<string, FrameGearState | null>; // slot -> gear
+}
+
 /**
  * Frame statistics
  */
@@ -115,7 +209,8 @@ export interface FrameConfig {
   readonly trackEffects: boolean;
   readonly trackContext: boolean;
   readonly maxCacheSize: number;
-  readonly enableLazyEvaluation: boolean;
+  readonly enableLazyEvaluation: boolean; // Read entities on first access; false captures a frozen copy up front
+  readonly keyframeInterval?: number; // Captured frames between full copies of stats when storing changes only (default: 10)
 }
 
 /**
@@ -134,9 +229,40 @@ export interface EffectTiming {
   readonly effectId: EffectId;
   readonly appliedAt: number;
   readonly duration?: number; // Optional duration in milliseconds
-  readonly expiresAt?: number; // Optional expiration timestamp
+  readonly expiresAt?: number; // Optional expiration timestamp (latest stack's expiry)
+}
+
+/**
+ * How re-applying an effect that is already on an entity is handled
+ */
+export enum StackPolicy {
+  REFRESH = 'refresh', // Add a stack and restart the duration of every stack
+  EXTEND = 'extend', // Add a stack and add the new duration to the remaining time
+  REPLACE_IF_STRONGER = 'replace_if_stronger', // Keep a single stack, replaced only by a stronger application
+  INDEPENDENT = 'independent' // Add a stack with its own duration
+}
+
+/**
+ * Stacking behaviour of an effect
+ */
+export interface StackingRule {
+  readonly policy: StackPolicy;
+  readonly maxStacks?: number; // The oldest stack is dropped beyond this
+}
+
+/**
+ * One application of a stacked effect
+ */
+export interface EffectStack {
+  readonly appliedAt: number;
+  readonly expiresAt?: number;
 }
 
+/**
+ * Why an effect's stacks changed
+ */
+export type StackChangeReason = 'stacked' | 'replaced' | 'rejected' | 'expired';
+
 /**
  * Value request context for on-demand value calculations
  */
@@ -459,6 +585,9 @@ export interface EffectContext {
   readonly timestamp: number;
   readonly boundConfigs?: Map<StatType, StatBoundConfig>; // Optional bound configurations
   readonly boundResults?: Map<StatType, StatBoundResult>; // Optional bound calculation results
+  readonly rngManager?: RNGManager; // RNG of the entity's simulation context
+  readonly effectTags?: ReadonlyMap<EffectId, string[]>; // Tags per effect, including implied ones (missing means effect.tags)
+  readonly stackCounts?: ReadonlyMap<EffectId, number>; // Stacks per effect (missing means 1)
 }
 
 /**
@@ -470,15 +599,116 @@ export interface StatStackability {
   readonly maxStackSize?: number; // Optional limit on stack size
 }
 
+/**
+ * Stages of the stat calculation pipeline
+ */
+export enum ModifierStage {
+  BASE_ADD = 'base_add', // Flat amounts, summed
+  ADDITIVE_PERCENT = 'additive_percent', // Percent bonuses, summed then applied once
+  MULTIPLICATIVE = 'multiplicative', // Factors, multiplied together
+  OVERRIDE = 'override', // Replaces the value (highest priority wins)
+  FINAL_CLAMP = 'final_clamp' // Min/max limits applied last
+}
+
+/**
+ * A single contribution of an effect to one stage of a stat
+ */
+export type StatModifier =
+  | {
+      readonly statType: StatType;
+      readonly stage: ModifierStage.BASE_ADD | ModifierStage.ADDITIVE_PERCENT | ModifierStage.MULTIPLICATIVE | ModifierStage.OVERRIDE;
+      readonly value: StatValue; // Flat amount, percent (0.1 = +10%), factor or override value
+    }
+  | {
+      readonly statType: StatType;
+      readonly stage: ModifierStage.FINAL_CLAMP;
+      readonly min?: StatValue;
+      readonly max?: StatValue;
+    };
+
+/**
+ * Whether an effect contributed to a stat
+ */
+export type StatTraceStatus = 'applied' | 'inactive' | 'suppressed';
+
+/**
+ * Where an effect on an entity came from
+ */
+export interface StatTraceSource {
+  readonly kind: 'gear';
+  readonly gearId: string;
+  readonly gearName: string;
+  readonly slot: string;
+}
+
+/**
+ * One step of a stat calculation
+ */
+export interface StatTraceEntry {
+  readonly effectId: EffectId;
+  readonly effectName: string;
+  readonly stage?: ModifierStage; // Undefined for unstaged effects
+  readonly priority: number;
+  readonly status: StatTraceStatus;
+  readonly valueBefore: StatValue;
+  readonly valueAfter: StatValue; // Equal to valueBefore when skipped
+  readonly stacks?: number; // Set when the effect has more than one stack
+  readonly source?: StatTraceSource; // Set for gear passive effects
+  readonly suppressedBy?: EffectId; // Set when suppressed by a cancellation or immunity effect
+}
+
+/**
+ * Ordered breakdown of how a stat's value was calculated
+ */
+export interface StatExplanation {
+  readonly statType: StatType;
+  readonly baseValue: StatValue;
+  readonly finalValue: StatValue;
+  readonly entries: StatTraceEntry[];
+  readonly formula?: string; // Set for derived stats; baseValue is the formula's result
+}
+
+/**
+ * Which effects a cancellation or immunity effect suppresses
+ */
+export interface SuppressionRule {
+  readonly effectIds?: EffectId[];
+  readonly tags?: string[];
+  readonly statTypes?: StatType[]; // Effects modifying any of these stats
+}
+
+/**
+ * Common effect tags
+ */
+export const EffectTags = {
+  BUFF: 'buff',
+  DEBUFF: 'debuff',
+  POISON: 'poison',
+  GEAR: 'gear', // Implied for gear passive effects
+  DISPELLABLE: 'dispellable'
+} as const;
+
 /**
  * Base interface for all effects
  */
 export interface Effect {
   readonly id: EffectId;
   readonly name: string;
-  readonly priority: number; // Higher priority effects are applied later
+  readonly priority: number; // Order within a stage, and among unstaged effects (higher is applied later)
   readonly statTypes: StatType[]; // Which stat types this effect modifies
   readonly stackabilityRules: StatStackability[]; // Stackability rules per stat type
+  readonly tags?: string[]; // Labels such as 'buff' or 'poison' (see EffectTags)
+  readonly suppression?: SuppressionRule; // Effects suppressed while this effect is active
+  readonly stacking?: StackingRule; // Re-applying replaces the effect when not set
+  readonly reads?: StatType[]; // Stats read by isActive and when applying, besides statTypes; any stat when not set
+  readonly timeDependent?: boolean; // Activity or impact can change as time passes (time or chance based)
+  
+  /**
+   * Staged modifiers for the stat pipeline; effects that provide this are not applied through `apply`
+   * @param context - The current effect context
+   * @returns Modifiers contributed by this effect
+   */
+  getModifiers?(context: EffectContext): StatModifier[];
   
   /**
    * Apply this effect to modify stats
@@ -519,12 +749,17 @@ export enum EventType {
   STAT_CHANGED = 'stat_changed',
   ENTITY_CREATED = 'entity_created',
   ENTITY_DESTROYED = 'entity_destroyed',
+  EVENT_DISPATCH_LIMIT_REACHED = 'event_dispatch_limit_reached',
   FRAME_CREATED = 'frame_created',
   GEAR_EQUIPPED = 'gear_equipped',
   GEAR_UNEQUIPPED = 'gear_unequipped',
   BOUND_STATE_CHANGED = 'bound_state_changed',
   BOUND_THRESHOLD_CROSSED = 'bound_threshold_crossed',
   BOUND_RATIO_CHANGED = 'bound_ratio_changed',
+  EFFECT_SUPPRESSED = 'effect_suppressed',
+  EFFECT_UNSUPPRESSED = 'effect_unsuppressed',
+  EFFECT_STACK_CHANGED = 'effect_stack_changed',
+  PERIODIC_EFFECT_TICKED = 'periodic_effect_ticked',
   // Interaction events
   INTERACTION_VALUE_REQUESTED = 'interaction_value_requested',
   INTERACTION_VALUE_MODIFIED = 'interaction_value_modified',
@@ -548,6 +783,15 @@ export interface Event {
  */
 export type EventHandler<T = any> = (event: Event & { data: T }) => void;
 
+/**
+ * Data of an event that was not dispatched because the dispatch depth limit was reached
+ */
+export interface DispatchLimitEventData {
+  readonly entityId: EntityId;
+  readonly event: Event; // The event that was not dispatched
+  readonly maxDispatchDepth: number;
+}
+
 /**
  * Cache entry for stats
  */
@@ -577,6 +821,13 @@ export interface StatBoundConfig {
   readonly defaultValue?: StatValue; // Default value if bounds are invalid
 }
 
+/**
+ * Serializable description of how a bound function was built
+ */
+export type BoundFunctionSource =
+  | { readonly kind: 'stat'; readonly statType: StatType; readonly fallback: StatBound }
+  | { readonly kind: 'expression'; readonly expression: string };
+
 /**
  * Result of a stat bound calculation
  */
@@ -631,6 +882,7 @@ export interface BoundEventConfig {
  * Bound event data
  */
 export interface BoundEventData {
+  readonly entityId: EntityId; // Entity whose stat produced the event
   readonly statType: StatType;
   readonly boundResult: StatBoundResult;
   readonly previousRatio?: number; // Previous ratio value
@@ -644,6 +896,35 @@ export interface BoundEventData {
   readonly isWithinBounds: boolean; // Whether currently within bounds
 }
 
+/**
+ * How a resource's current value follows changes to its maximum
+ */
+export type ResourceMaxChangePolicy =
+  | 'keepRatio' // Scale the current value (50/100 becomes 60/120)
+  | 'keepAbsolute'; // Keep the current value, clamped to the new maximum
+
+/**
+ * A resource stat (health, mana, stamina) with a current value and an effect-modified maximum
+ */
+export interface ResourceDefinition {
+  readonly statType: StatType; // Current value, stored as a base stat (e.g. 'health')
+  readonly maxStatType: StatType; // Maximum, calculated with effects (e.g. 'maxHealth')
+  readonly min?: number; // Lowest current value (default: 0)
+  readonly onMaxChange?: ResourceMaxChangePolicy; // Default: keepAbsolute
+  readonly regenPerSecond?: number | StatType; // Fixed rate, or a stat holding the rate; negative rates drain
+  readonly boundEvents?: Omit<BoundEventConfig, 'statType' | 'boundConfig'> | false; // Bound event options, or false for no bound events
+}
+
+/**
+ * Current state of a resource
+ */
+export interface ResourceState {
+  readonly statType: StatType;
+  readonly current: StatValue;
+  readonly max: StatValue;
+  readonly ratio: number; // 0 at the minimum, 1 when full
+}
+
 // ===== Effect Composition Interfaces =====
 
 /**
@@ -24,6 +24,28 @@ import { runStatBoundExamples } from './examples/StatBoundExamples';
 import { runBoundEventExamples } from './examples/BoundEventExamples';
 import { runCompositionExamples } from './examples/CompositionExamples';
 import { runRNGCompositionExamples } from './examples/RNGCompositionExamples';
+import { runEntityRegistryExamples } from './examples/EntityRegistryExamples';
+import { runSerializationExamples } from './examples/SerializationExamples';
+import { runEffectDefinitionExamples } from './examples/EffectDefinitionExamples';
+import { runStatExpressionExamples } from './examples/StatExpressionExamples';
+import { runStatPipelineExamples } from './examples/StatPipelineExamples';
+import { runStatExplanationExamples } from './examples/StatExplanationExamples';
+import { runSuppressionExamples } from './examples/SuppressionExamples';
+import { runEffectTagExamples } from './examples/EffectTagExamples';
+import { runStackingExamples } from './examples/StackingExamples';
+import { runClockExamples } from './examples/ClockExamples';
+import { runPeriodicEffectExamples } from './examples/PeriodicEffectExamples';
+import { runStatCacheExamples } from './examples/StatCacheExamples';
+import { runDerivedStatExamples } from './examples/DerivedStatExamples';
+import { runArchetypeExamples } from './examples/ArchetypeExamples';
+import { runStatSchemaExamples } from './examples/StatSchemaExamples';
+import { runResourceExamples } from './examples/ResourceExamples';
+import { runTransactionExamples } from './examples/TransactionExamples';
+import { runEntityHistoryExamples } from './examples/EntityHistoryExamples';
+import { runFrameSnapshotExamples } from './examples/FrameSnapshotExamples';
+import { runFrameTimelineExamples } from './examples/FrameTimelineExamples';
+import { runFrameDiffExamples } from './examples/FrameDiffExamples';
+import { runFrameExportExamples } from './examples/FrameExportExamples';
 
 /**
  * Example usage of the Entity Effects API with event-driven effects
@@ -356,8 +378,9 @@ function runExample(): void {
   const memoryStats = frameManager.getMemoryStats();
   console.log(`Snapshots: ${memoryStats.snapshots}`);
   console.log(`Recent cache: ${memoryStats.recentCache}`);
-  console.log(`Total memory usage: ${memoryStats.totalMemoryUsage} cache entries`);
-  console.log(`Average memory per frame: ${memoryStats.averageMemoryPerFrame.toFixed(2)} cache entries`);
+  console.log(`Frames in memory: ${memoryStats.retainedFrames} (${memoryStats.keyframes} keyframes, ${memoryStats.deltaFrames} storing changes)`);
+  console.log(`Total memory usage: ${memoryStats.totalMemoryUsage} bytes`);
+  console.log(`Average memory per frame: ${memoryStats.averageMemoryPerFrame.toFixed(2)} bytes`);
   
   // Demonstrate recent cache management
   console.log('\n📋 Recent Cache Management:');
@@ -431,6 +454,94 @@ function runExample(): void {
       // Run RNG composition system demonstration
       console.log('\n' + '='.repeat(60));
       runRNGCompositionExamples();
+      
+      // Run entity registry demonstration
+      console.log('\n' + '='.repeat(60));
+      runEntityRegistryExamples();
+      
+      // Run serialization demonstration
+      console.log('\n' + '='.repeat(60));
+      runSerializationExamples();
+      
+      // Run effect definition demonstration
+      console.log('\n' + '='.repeat(60));
+      runEffectDefinitionExamples();
+      
+      // Run stat expression demonstration
+      console.log('\n' + '='.repeat(60));
+      runStatExpressionExamples();
+      
+      // Run stat pipeline demonstration
+      console.log('\n' + '='.repeat(60));
+      runStatPipelineExamples();
+      
+      // Run stat explanation demonstration
+      console.log('\n' + '='.repeat(60));
+      runStatExplanationExamples();
+      
+      // Run effect suppression demonstration
+      console.log('\n' + '='.repeat(60));
+      runSuppressionExamples();
+      
+      // Run effect tag demonstration
+      console.log('\n' + '='.repeat(60));
+      runEffectTagExamples();
+      
+      // Run effect stacking demonstration
+      console.log('\n' + '='.repeat(60));
+      runStackingExamples();
+      
+      // Run simulation clock demonstration
+      console.log('\n' + '='.repeat(60));
+      runClockExamples();
+      
+      // Run periodic effect demonstration
+      console.log('\n' + '='.repeat(60));
+      runPeriodicEffectExamples();
+      
+      // Run stat cache demonstration
+      console.log('\n' + '='.repeat(60));
+      runStatCacheExamples();
+      
+      // Run derived stats demonstration
+      console.log('\n' + '='.repeat(60));
+      runDerivedStatExamples();
+      
+      // Run entity archetypes demonstration
+      console.log('\n' + '='.repeat(60));
+      runArchetypeExamples();
+      
+      // Run stat schema demonstration
+      console.log('\n' + '='.repeat(60));
+      runStatSchemaExamples();
+      
+      // Run resource stats demonstration
+      console.log('\n' + '='.repeat(60));
+      runResourceExamples();
+      
+      // Run batched changes demonstration
+      console.log('\n' + '='.repeat(60));
+      runTransactionExamples();
+      
+      // Run entity history demonstration
+      console.log('\n' + '='.repeat(60));
+      runEntityHistoryExamples();
+      
+      // Run frame snapshots demonstration
+      console.log('\n' + '='.repeat(60));
+      runFrameSnapshotExamples();
+      
+      // Run frame timeline demonstration
+      console.log('\n' + '='.repeat(60));
+      runFrameTimelineExamples();
+      
+      // Run frame comparison demonstration
+      console.log('\n' + '='.repeat(60));
+      runFrameDiffExamples();
+      
+      // Run frame export demonstration
+      console.log('\n' + '='.repeat(60));
+      runFrameExportExamples();
     }
 
 /**
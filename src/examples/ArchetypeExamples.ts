@@ -0,0 +1,96 @@
+import { AdditiveEffect, PercentageEffect } from '../core/effects';
+import { ActiveEffectUtils } from '../core/ActiveEffects';
+import { StatBoundCalculator } from '../core/StatBoundCalculator';
+import { EntityRegistry } from '../core/EntityRegistry';
+import { createSimulationContext } from '../core/SimulationContext';
+import { EffectTags } from '../core/types';
+
+/**
+ * Entity Archetypes Demonstration
+ *
+ * Archetypes are named templates with base stats, effects, gear, bound event
+ * configs and derived stats. They inherit from one or more parents, and
+ * `registry.spawn` builds fully configured entities from them.
+ */
+export function runArchetypeExamples(): void {
+  console.log('\n🧬 Entity Archetypes Demonstration');
+  console.log('='.repeat(60));
+
+  const registry = new EntityRegistry(createSimulationContext());
+  const dagger = ActiveEffectUtils.createGear(
+    'archetype-dagger',
+    'Rusty Dagger',
+    'weapon',
+    1,
+    ['damage'],
+    () => 6,
+    [new AdditiveEffect('archetype-dagger-attack', 'Dagger Edge', 'attack', 4)],
+    'mainHand'
+  );
+
+  registry.archetypes
+    .define({
+      name: 'creature',
+      baseStats: { vitality: 5, attack: 5, defense: 2, health: 100 },
+      boundEvents: [{ statType: 'health', boundConfig: StatBoundCalculator.createStatBasedBoundConfig('health', 'maxHealth') }],
+      derivedStats: { maxHealth: 'vitality * 20' }
+    })
+    .define({
+      name: 'goblin',
+      extends: 'creature',
+      baseStats: { vitality: 4, attack: 8, health: 80 },
+      gear: { mainHand: dagger },
+      effects: [new AdditiveEffect('archetype-cowardice', 'Cowardice', 'defense', -1, true, 0, [EffectTags.DEBUFF])]
+    })
+    .define({
+      name: 'caster',
+      baseStats: { intellect: 12 },
+      derivedStats: { maxMana: 'intellect * 10' },
+      effects: [new PercentageEffect('archetype-focus', 'Focus', 'maxMana', 0.1, true, 0, [EffectTags.BUFF])]
+    })
+    .define({
+      name: 'goblin-shaman',
+      extends: ['goblin', 'caster'],
+      gear: { mainHand: null }, // Shamans fight with spells
+      removeEffects: ['archetype-cowardice']
+    });
+
+  const describe = (name: string) => {
+    const entity = registry.getEntity(name)!;
+    const stats = Array.from(entity.getCurrentStats()).map(([statType, value]) => `${statType} ${value}`).join(', ');
+    console.log(`   ${entity.id}: ${stats}`);
+    console.log(`     effects: ${entity.getEffects().map(effect => effect.name).join(', ') || 'none'}`);
+  };
+
+  console.log('\n1. Spawning from a single parent:');
+  registry.spawn('goblin');
+  registry.spawn('goblin');
+  describe('goblin-1');
+  console.log(`   goblin-2 shares goblin-1's derived stats: ${registry.getEntity('goblin-2')!.derivedStats === registry.getEntity('goblin-1')!.derivedStats}`);
+
+  console.log('\n2. Multiple inheritance with overrides:');
+  const lineage = registry.archetypes.resolve('goblin-shaman').lineage;
+  console.log(`   Lineage: ${lineage.join(' → ')}`);
+  registry.spawn('goblin-shaman');
+  describe('goblin-shaman-1');
+
+  console.log('\n3. Overrides when spawning:');
+  registry.spawn('goblin', {
+    id: 'goblin-chief',
+    baseStats: { vitality: 9 },
+    effects: [new AdditiveEffect('archetype-warcry', 'Warcry', 'attack', 5)]
+  });
+  describe('goblin-chief');
+  console.log(`   Bound events: ${Array.from(registry.getEntity('goblin-chief')!.getBoundEventConfigs().keys()).join(', ')}`);
+
+  console.log('\n4. Rejecting inheritance loops:');
+  try {
+    registry.archetypes.define({ name: 'creature', extends: 'goblin' });
+  } catch (error) {
+    console.log(`   ${(error as Error).message}`);
+  }
+
+  registry.dispose();
+
+  console.log('\n✅ Entity Archetypes Demonstration Complete!');
+}
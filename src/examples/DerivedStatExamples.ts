@@ -0,0 +1,55 @@
+import { AdditiveEffect, PercentageEffect } from '../core/effects';
+import { DerivedStatSet, DerivedStatCycleError } from '../core/DerivedStats';
+import { EntityRegistry } from '../core/EntityRegistry';
+import { StatPipeline } from '../core/StatPipeline';
+import { createSimulationContext } from '../core/SimulationContext';
+
+/**
+ * Derived Stats Demonstration
+ *
+ * Derived stats are formulas over other stats, calculated after effects and
+ * shared by every entity of one kind.
+ */
+export function runDerivedStatExamples(): void {
+  console.log('\n🧮 Derived Stats Demonstration');
+  console.log('='.repeat(60));
+
+  const registry = new EntityRegistry(createSimulationContext());
+  const rogueStats = new DerivedStatSet()
+    .define('critChance', 'agility * 0.01')
+    .define('maxHealth', 'vitality * 10 + 50')
+    .define('effectiveHealth', 'maxHealth * (1 + armor / 100)');
+
+  const rogue = registry.createEntity('derived-rogue', { agility: 25, vitality: 8, armor: 20 }, rogueStats);
+  const twin = registry.createEntity('derived-twin', { agility: 40, vitality: 12, armor: 0 }, rogueStats);
+
+  console.log('\n1. Derived stats in calculation order:');
+  rogueStats.getLevels().forEach((level, index) => console.log(`   Level ${index + 1}: ${level.join(', ')}`));
+  console.log(`   Rogue: crit ${rogue.getStat('critChance')}, max health ${rogue.getStat('maxHealth')}, effective health ${rogue.getStat('effectiveHealth')}`);
+  console.log(`   Twin: crit ${twin.getStat('critChance')}, max health ${twin.getStat('maxHealth')}`);
+
+  console.log('\n2. Effects on the stats a formula reads:');
+  rogue.addEffect(new AdditiveEffect('derived-swiftness', 'Swiftness', 'agility', 15));
+  console.log(`   Crit chance: ${rogue.getStat('critChance')}`);
+
+  console.log('\n3. Effects on a derived stat:');
+  rogue.addEffect(new PercentageEffect('derived-fortitude', 'Fortitude', 'maxHealth', 0.2));
+  console.log(StatPipeline.formatExplanation(rogue.explainStat('maxHealth')));
+  console.log(`   Effective health: ${rogue.getStat('effectiveHealth')}`);
+
+  console.log('\n4. Changing a shared definition:');
+  rogueStats.define('critChance', 'agility * 0.02');
+  console.log(`   Rogue crit: ${rogue.getStat('critChance')}, twin crit: ${twin.getStat('critChance')}`);
+
+  console.log('\n5. Rejecting a loop:');
+  try {
+    rogueStats.define('vitality', 'effectiveHealth / 20');
+  } catch (error) {
+    if (!(error instanceof DerivedStatCycleError)) throw error;
+    console.log(`   ${error.message}`);
+  }
+
+  registry.dispose();
+
+  console.log('\n✅ Derived Stats Demonstration Complete!');
+}
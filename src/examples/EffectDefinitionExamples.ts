@@ -0,0 +1,73 @@
+import { Entity } from '../core/Entity';
+import {
+  EffectDefinitionLoader,
+  EffectDefinitionError
+} from '../core/EffectDefinitions';
+
+/**
+ * Effect Definition Demonstration
+ *
+ * Designers describe effects as data; the loader validates the document and
+ * builds composed effects from it.
+ */
+export function runEffectDefinitionExamples(): void {
+  console.log('\n📜 Effect Definition Demonstration');
+  console.log('='.repeat(60));
+
+  const document = `{
+    "effects": [
+      {
+        "id": "def-last-stand",
+        "name": "Last Stand",
+        "priority": 2,
+        "applicability": {
+          "type": "any",
+          "of": [
+            { "type": "stat_threshold", "stat": "health", "operator": "<", "threshold": 30 },
+            { "type": "not", "of": { "type": "stat_threshold", "stat": "stamina", "operator": ">=", "threshold": 5 } }
+          ]
+        },
+        "impact": { "type": "stat_based", "stat": "defense", "multiplier": 0.5 },
+        "target": { "type": "single", "stat": "attack" },
+        "application": { "type": "additive" }
+      },
+      {
+        "id": "def-fortify",
+        "name": "Fortify",
+        "impact": { "type": "percentage", "percentage": 0.2 },
+        "target": { "type": "multiple", "stats": ["defense", "maxHealth"] },
+        "application": { "type": "additive" }
+      }
+    ]
+  }`;
+
+  console.log('\n1. Loading effects from JSON:');
+  const effects = EffectDefinitionLoader.loadFromText(document);
+  effects.forEach(effect => console.log(`   ${effect.name} → ${effect.statTypes.join(', ')}`));
+
+  const knight = new Entity('def-knight', { health: 20, maxHealth: 100, stamina: 10, attack: 15, defense: 20 });
+  effects.forEach(effect => knight.addEffect(effect));
+  console.log(`   Attack: ${knight.getStat('attack')}, Defense: ${knight.getStat('defense')}, Max Health: ${knight.getStat('maxHealth')}`);
+
+  console.log('\n2. Loading an invalid document:');
+  try {
+    EffectDefinitionLoader.load({
+      effects: [
+        {
+          id: 'def-broken',
+          name: 'Broken',
+          applicability: { type: 'chance', probability: 1.5 },
+          impact: { type: 'additive', value: 'lots' },
+          target: { type: 'everything' },
+          application: { type: 'additive' }
+        }
+      ]
+    });
+  } catch (error) {
+    if (error instanceof EffectDefinitionError) {
+      error.issues.forEach(issue => console.log(`   ${issue.path}: ${issue.message}`));
+    }
+  }
+
+  console.log('\n✅ Effect Definition Demonstration Complete!');
+}
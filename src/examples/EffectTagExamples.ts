@@ -0,0 +1,69 @@
+import {
+  AdditiveEffect,
+  PercentageEffect,
+  MultiplicativeEffect
+} from '../core/effects';
+import { ActiveEffectUtils } from '../core/ActiveEffects';
+import { EntityRegistry } from '../core/EntityRegistry';
+import { FrameFactory } from '../core/OptimizedFrameSystem';
+import { createSimulationContext } from '../core/SimulationContext';
+import { EffectTags } from '../core/types';
+
+/**
+ * Effect Tag Demonstration
+ *
+ * Tags group effects so they can be queried, dispelled or cleansed together,
+ * on entities and in frames.
+ */
+export function runEffectTagExamples(): void {
+  console.log('\n🏷️ Effect Tag Demonstration');
+  console.log('='.repeat(60));
+
+  const context = createSimulationContext();
+  const registry = new EntityRegistry(context);
+  const ranger = registry.createEntity('tags-ranger', { health: 100, attack: 20, speed: 10 });
+
+  ranger.equipGear(ActiveEffectUtils.createGear(
+    'tags-cloak',
+    'Cloak of Swiftness',
+    'armor',
+    1,
+    [],
+    () => undefined,
+    [new AdditiveEffect('tags-cloak-speed', 'Swiftness', 'speed', 3)],
+    'back'
+  ));
+  ranger.addEffect(new PercentageEffect('tags-hunters-mark', "Hunter's Mark", 'attack', 0.25, true, 0,
+    [EffectTags.BUFF, EffectTags.DISPELLABLE]));
+  ranger.addEffect(new MultiplicativeEffect('tags-slow', 'Frost Slow', 'speed', 0.5, true, 0,
+    [EffectTags.DEBUFF, EffectTags.DISPELLABLE]));
+  ranger.addEffect(new AdditiveEffect('tags-venom', 'Spider Venom', 'health', -15, true, 0,
+    [EffectTags.DEBUFF, EffectTags.POISON]));
+
+  console.log('\n1. Querying by tag:');
+  for (const tag of [EffectTags.BUFF, EffectTags.DEBUFF, EffectTags.POISON, EffectTags.GEAR]) {
+    console.log(`   ${tag}: ${ranger.getEffectsByTag(tag).map(effect => effect.name).join(', ')}`);
+  }
+  console.log(`   Stats: ${JSON.stringify(Object.fromEntries(ranger.getCurrentStats()))}`);
+
+  const frames = new FrameFactory({ trackStats: 'all' }, context);
+  const before = frames.createFrame([ranger]);
+  console.log(`\n2. Frame filtered by tag: debuffs = ${before.getEffectsOfInterest(ranger.id, [EffectTags.DEBUFF]).join(', ')}`);
+
+  console.log('\n3. Cleansing poison:');
+  console.log(`   Removed: ${ranger.removeEffectsByTag(EffectTags.POISON).join(', ')}`);
+  console.log(`   Still poisoned: ${ranger.hasEffectWithTag(EffectTags.POISON)}`);
+
+  console.log('\n4. Dispelling everything dispellable (gear is kept):');
+  console.log(`   Removed: ${ranger.removeEffectsByTag(EffectTags.DISPELLABLE).join(', ')}`);
+  console.log(`   Nothing removed by tag "gear": ${ranger.removeEffectsByTag(EffectTags.GEAR).length === 0}`);
+  console.log(`   Stats: ${JSON.stringify(Object.fromEntries(ranger.getCurrentStats()))}`);
+
+  // Frames keep the tags they captured
+  const after = frames.createFrame([ranger]);
+  console.log(`   Debuffs then: ${before.getEffectsOfInterest(ranger.id, [EffectTags.DEBUFF]).length}, now: ${after.getEffectsOfInterest(ranger.id, [EffectTags.DEBUFF]).length}`);
+
+  registry.dispose();
+
+  console.log('\n✅ Effect Tag Demonstration Complete!');
+}
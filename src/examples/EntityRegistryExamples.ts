@@ -0,0 +1,148 @@
+import { EntityRegistry } from '../core/EntityRegistry';
+import { createSimulationContext } from '../core/SimulationContext';
+import { DispatchLimitEventData, EffectApplicator, EventHandler, EventType } from '../core/types';
+import { AdditiveEffect } from '../core/effects';
+import { GenericGear } from '../core/ActiveEffects';
+import { GearEffectApplicator } from '../core/GearEffectApplicators';
+import {
+  effectApplicatorManager,
+  StatThresholdApplicator
+} from '../core/EffectApplicator';
+
+/**
+ * Entity Registry Demonstration
+ *
+ * Entities created through a registry receive every event that names them,
+ * so effect applicators fire without hand-wiring calls to
+ * effectApplicatorManager.handleEventForEntity.
+ */
+export function runEntityRegistryExamples(): void {
+  console.log('\n🗂️ Entity Registry Demonstration');
+  console.log('='.repeat(60));
+
+  const registry = new EntityRegistry();
+
+  // Applicator that reacts to low health
+  const lowHealthApplicator = new StatThresholdApplicator(
+    'registry-low-health',
+    'Registry Low Health',
+    [new AdditiveEffect('registry-desperation', 'Desperation', 'attack', 10)],
+    [],
+    'health',
+    '<',
+    30
+  );
+
+  // Applicator that reacts to a specific piece of gear being equipped
+  const gearApplicator = new GearEffectApplicator(
+    'registry-ring-applicator',
+    'Ring of Vigor Applicator',
+    'registry-ring',
+    [new AdditiveEffect('registry-vigor', 'Vigor', 'health', 25)],
+    ['registry-vigor']
+  );
+
+  effectApplicatorManager.registerApplicator(lowHealthApplicator);
+  effectApplicatorManager.registerApplicator(gearApplicator);
+
+  const hero = registry.createEntity('registry-hero', { health: 100, attack: 20 });
+  registry.createEntity('registry-scout', { health: 60, attack: 12 });
+  console.log(`Registered entities: ${registry.getEntityIds().join(', ')}`);
+
+  console.log('\n1. Dropping hero health to 20 (applicator fires automatically):');
+  hero.setStat('health', 20);
+  console.log(`   Has Desperation: ${hero.hasEffect('registry-desperation')}, Attack: ${hero.getStat('attack')}`);
+
+  console.log('\n2. Equipping and unequipping a ring:');
+  const ring = new GenericGear('registry-ring', 'Ring of Vigor', 'accessory', 1, [], () => undefined, [], 'finger');
+  hero.equipGear(ring);
+  console.log(`   Has Vigor after equip: ${hero.hasEffect('registry-vigor')}`);
+  hero.unequipGear('finger');
+  console.log(`   Has Vigor after unequip: ${hero.hasEffect('registry-vigor')}`);
+
+  console.log('\n3. Destroying the scout:');
+  registry.destroyEntity('registry-scout');
+  console.log(`   Remaining entities: ${registry.getEntityIds().join(', ')}`);
+
+  // Clean up so other examples are unaffected
+  effectApplicatorManager.unregisterApplicator(lowHealthApplicator.id);
+  effectApplicatorManager.unregisterApplicator(gearApplicator.id);
+  registry.dispose();
+
+  demonstrateIsolatedSimulations();
+  demonstrateDispatchLimit();
+
+  console.log('\n✅ Entity Registry Demonstration Complete!');
+}
+
+/**
+ * Demonstrate two matches running side by side with their own services
+ */
+function demonstrateIsolatedSimulations(): void {
+  console.log('\n4. Running two isolated simulations:');
+
+  const matchA = new EntityRegistry(createSimulationContext());
+  const matchB = new EntityRegistry(createSimulationContext());
+
+  let eventsInA = 0;
+  let eventsInB = 0;
+  matchA.context.eventSystem.on(EventType.STAT_CHANGED, () => eventsInA++);
+  matchB.context.eventSystem.on(EventType.STAT_CHANGED, () => eventsInB++);
+
+  // Each match gets its own applicators
+  matchA.context.effectApplicatorManager.registerApplicator(new StatThresholdApplicator(
+    'match-a-low-health',
+    'Match A Low Health',
+    [new AdditiveEffect('match-a-rally', 'Rally', 'attack', 5)],
+    [],
+    'health',
+    '<',
+    50
+  ));
+
+  const fighterA = matchA.createEntity('fighter', { health: 100, attack: 10 });
+  const fighterB = matchB.createEntity('fighter', { health: 100, attack: 10 });
+
+  fighterA.setStat('health', 40);
+  fighterB.setStat('health', 40);
+
+  console.log(`   Match A events: ${eventsInA}, Rally applied: ${fighterA.hasEffect('match-a-rally')}`);
+  console.log(`   Match B events: ${eventsInB}, Rally applied: ${fighterB.hasEffect('match-a-rally')}`);
+
+  matchA.dispose();
+  matchB.dispose();
+}
+
+/**
+ * Demonstrate an applicator that keeps re-triggering itself being stopped
+ */
+function demonstrateDispatchLimit(): void {
+  console.log('\n5. Stopping an applicator that re-triggers itself:');
+
+  const registry = new EntityRegistry(createSimulationContext(), { maxDispatchDepth: 3 });
+  const golem = registry.createEntity('registry-golem', { integrity: 100 });
+
+  // Every integrity change chips off more integrity, which changes it again
+  const crumbleApplicator: EffectApplicator = {
+    id: 'registry-crumble',
+    name: 'Crumble',
+    conditions: [{ eventType: EventType.STAT_CHANGED, predicate: () => true, description: 'Any stat change' }],
+    effectsToAdd: [],
+    effectsToRemove: [],
+    isInterestedIn: eventType => eventType === EventType.STAT_CHANGED,
+    handleEvent: () => {
+      golem.setStat('integrity', golem.baseStats.integrity - 1);
+      return false;
+    }
+  };
+  const onLimit: EventHandler<DispatchLimitEventData> = (event) => {
+    console.log(`   Limit reached on ${event.data.entityId}: ${event.data.event.type} was not dispatched`);
+  };
+  registry.context.effectApplicatorManager.registerApplicator(crumbleApplicator);
+  registry.context.eventSystem.on(EventType.EVENT_DISPATCH_LIMIT_REACHED, onLimit);
+
+  golem.setStat('integrity', 90);
+  console.log(`   Integrity after the chain: ${golem.baseStats.integrity}`);
+
+  registry.dispose();
+}
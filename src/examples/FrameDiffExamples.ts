@@ -0,0 +1,78 @@
+import { AdditiveEffect } from '../core/effects';
+import { ActiveEffectUtils } from '../core/ActiveEffects';
+import { EntityRegistry } from '../core/EntityRegistry';
+import { DerivedStatSet } from '../core/DerivedStats';
+import { FrameManager } from '../core/FrameManager';
+import { applyFramePatch } from '../core/FrameDiff';
+import { ManualClock } from '../core/Clock';
+import { createSimulationContext } from '../core/SimulationContext';
+import { StackPolicy, EntityDifference } from '../core/types';
+
+/**
+ * Frame Comparison Demonstration
+ *
+ * Frame comparisons report stat, effect and gear changes per entity, can
+ * ignore tiny numeric differences, and can be turned into compact patches
+ * that rebuild the later frame from the earlier one.
+ */
+export function runFrameDiffExamples(): void {
+  console.log('\n🔍 Frame Comparison Demonstration');
+  console.log('='.repeat(60));
+
+  const clock = new ManualClock();
+  const context = createSimulationContext({ clock });
+  const registry = new EntityRegistry(context);
+  const frames = new FrameManager(undefined, 5, context);
+  const ranger = registry.createEntity('diff-ranger', { health: 80, agility: 14, accuracy: 0.9 }, new DerivedStatSet().define('dodge', 'agility * 2'));
+  const wolf = registry.createEntity('diff-wolf', { health: 40 });
+  const bleed = new AdditiveEffect('diff-bleed', 'Bleed', 'health', -2, true, 0, ['debuff'], { policy: StackPolicy.INDEPENDENT });
+  const bow = ActiveEffectUtils.createGear('diff-bow', 'Short Bow', 'weapon', 1, ['damage'], () => 7, [], 'mainHand');
+  const longbow = ActiveEffectUtils.createGear('diff-longbow', 'Longbow', 'weapon', 1, ['damage'], () => 11, [], 'mainHand');
+
+  ranger.equipGear(bow);
+  ranger.addEffect(bleed, 4000);
+  ranger.addEffect(new AdditiveEffect('diff-camouflage', 'Camouflage', 'agility', 3), 2000);
+  frames.createSnapshot([ranger, wolf], 'before');
+
+  clock.advance(1000);
+  ranger.addEffect(bleed, 4000);
+  ranger.removeEffect('diff-camouflage');
+  ranger.setBaseStat('accuracy', 0.9004); // Rounding noise
+  ranger.setBaseStat('health', 70);
+  ranger.equipGear(longbow);
+  ranger.setDerivedStats(undefined); // dodge is no longer calculated
+  registry.destroyEntity(wolf.id);
+  const fox = registry.createEntity('diff-fox', { health: 25 });
+  frames.createSnapshot([ranger, fox], 'after');
+
+  const describe = (difference: EntityDifference) => {
+    const details = [
+      ...difference.changes.map(change => `${change.statType} ${change.kind} ${change.oldValue} → ${change.newValue}`),
+      ...(difference.effectChanges ?? []).map(change => `${change.effectId} ${change.kind}` +
+        (change.kind === 'changed' ? ` (stacks ${change.oldStacks} → ${change.newStacks}, ${change.oldRemaining}ms → ${change.newRemaining}ms left)` : '')),
+      ...(difference.gearChanges ?? []).map(change => `${change.slot} ${change.kind}: ${change.oldGear?.name ?? '-'} → ${change.newGear?.name ?? '-'}`)
+    ];
+    console.log(`   ${difference.entityId} ${difference.type}${details.length > 0 ? ': ' + details.join('; ') : ''}`);
+  };
+
+  console.log('\n1. Comparing snapshots:');
+  frames.compareSnapshots('before', 'after')?.differences.forEach(describe);
+
+  console.log('\n2. Ignoring differences up to 0.01:');
+  frames.compareSnapshots('before', 'after', { tolerance: 0.01 })?.differences
+    .filter(difference => difference.type === 'stats_changed')
+    .forEach(describe);
+
+  console.log('\n3. Patches:');
+  const patch = frames.createSnapshotPatch('before', 'after')!;
+  const json = JSON.stringify(patch);
+  console.log(`   Patch is ${json.length} characters of JSON, covering ${Object.keys(patch.entities).join(', ')}`);
+  const rebuilt = applyFramePatch(frames.getSnapshot('before')!, JSON.parse(json));
+  const remaining = frames.compareFrames(frames.getSnapshot('after')!, rebuilt).differences.length;
+  console.log(`   Rebuilt ${rebuilt.frameId}: ranger health ${rebuilt.getEntityStats(ranger.id)?.get('health')}, effects ${rebuilt.getEntityEffects(ranger.id)?.join(', ')}`);
+  console.log(`   Differences from the real frame: ${remaining}`);
+
+  registry.dispose();
+
+  console.log('\n✅ Frame Comparison Demonstration Complete!');
+}
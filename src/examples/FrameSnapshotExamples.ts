@@ -0,0 +1,98 @@
+import { AdditiveEffect } from '../core/effects';
+import { ActiveEffectUtils } from '../core/ActiveEffects';
+import { EntityRegistry } from '../core/EntityRegistry';
+import { FrameManager } from '../core/FrameManager';
+import { ManualClock } from '../core/Clock';
+import { createSimulationContext } from '../core/SimulationContext';
+import { EffectTags } from '../core/types';
+
+/**
+ * Frame Snapshots Demonstration
+ *
+ * Snapshots capture stats, effects, timings and gear when they are created,
+ * into frozen structures, so later changes to the entities never leak into
+ * them. Transient frames can stay lazy and read entities on first access.
+ * Consecutive snapshots store only what changed, with a full copy of the
+ * stats every `keyframeInterval` snapshots.
+ */
+export function runFrameSnapshotExamples(): void {
+  console.log('\n🧊 Frame Snapshots Demonstration');
+  console.log('='.repeat(60));
+
+  const clock = new ManualClock();
+  const context = createSimulationContext({ clock });
+  const registry = new EntityRegistry(context);
+  const frames = new FrameManager(undefined, 2, context);
+  const knight = registry.createEntity('snapshot-knight', { health: 100, attack: 10 });
+  const sword = ActiveEffectUtils.createGear(
+    'snapshot-sword',
+    'Longsword',
+    'weapon',
+    1,
+    ['damage'],
+    () => 12,
+    [new AdditiveEffect('snapshot-sword-attack', 'Longsword Edge', 'attack', 5)],
+    'mainHand'
+  );
+  knight.equipGear(sword);
+  knight.addEffect(new AdditiveEffect('snapshot-blessing', 'Blessing', 'health', 20, true, 0, [EffectTags.BUFF]), 5000);
+
+  console.log('\n1. Lazy frames read entities on first access:');
+  const lazy = frames.createFrame([knight]);
+  knight.setBaseStat('health', 80);
+  console.log(`   Health in lazy frame ${lazy.frameId}: ${lazy.getEntityStats(knight.id)?.get('health')} (base health set to 80 after the frame was created)`);
+
+  console.log('\n2. Snapshots capture everything up front:');
+  clock.advance(1000);
+  const before = frames.createSnapshot([knight], 'before-battle');
+  knight.setBaseStat('health', 40);
+  knight.unequipGear('mainHand');
+  console.log(`   Frozen: ${before.isFrozen}`);
+  console.log(`   Health: ${before.getEntityStats(knight.id)?.get('health')} (entity now ${knight.getStat('health')})`);
+  const blessing = before.getEntityEffectStates(knight.id)?.get('snapshot-blessing');
+  console.log(`   Blessing: applied at ${blessing?.appliedAt}ms, expires at ${blessing?.expiresAt}ms, ${blessing?.stacks} stack(s)`);
+  const gear = Array.from(before.getEntityGear(knight.id)?.values() ?? []).map(item => `${item.slot}: ${item.name}`);
+  console.log(`   Gear: ${gear.join(', ')}`);
+
+  console.log('\n3. Snapshot data cannot be changed:');
+  try {
+    before.getEntityStats(knight.id)?.set('health', 999);
+  } catch (error) {
+    console.log(`   ${(error as Error).message}`);
+  }
+  try {
+    before.updateEntityStats(knight.id, new Map([['health', 999]]));
+  } catch (error) {
+    console.log(`   ${(error as Error).message}`);
+  }
+
+  console.log('\n4. Snapshots survive the recent frame cache:');
+  frames.createFrame([knight]);
+  frames.createFrame([knight]); // Evicts the snapshot from the recent cache, clearing lazy caches
+  clock.advance(1000);
+  frames.createSnapshot([knight], 'after-battle');
+  const comparison = frames.compareSnapshots('before-battle', 'after-battle');
+  comparison?.differences.forEach(difference => difference.changes.forEach(change => {
+    console.log(`   ${difference.entityId} ${change.statType}: ${change.oldValue} → ${change.newValue}`);
+  }));
+
+  console.log('\n5. Storing only what changed:');
+  const squad = Array.from({ length: 20 }, (_, index) => registry.createEntity(`snapshot-soldier-${index}`, { health: 100, attack: 8, defense: 4 }));
+  const memoryAfter = (keyframeInterval: number) => {
+    const history = new FrameManager({ keyframeInterval }, 2, context);
+    for (let turn = 0; turn < 30; turn++) {
+      squad[turn % squad.length].setBaseStat('health', 100 - turn);
+      clock.advance(100);
+      history.createSnapshot(squad, `turn-${turn}`);
+    }
+    const stats = history.getMemoryStats();
+    const health = history.getSnapshot('turn-17')?.getEntityStats('snapshot-soldier-5')?.get('health');
+    console.log(`   keyframeInterval ${keyframeInterval}: ${stats.keyframes} keyframes, ${stats.deltaFrames} storing changes, ~${Math.round(stats.totalMemoryUsage / 1024)} KB (soldier 5 on turn 17: ${health} health)`);
+  };
+  memoryAfter(1);
+  memoryAfter(10);
+
+  registry.dispose();
+
+  console.log('\n✅ Frame Snapshots Demonstration Complete!');
+}
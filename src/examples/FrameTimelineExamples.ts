@@ -0,0 +1,65 @@
+import { AdditiveEffect } from '../core/effects';
+import { PeriodicEffect } from '../core/PeriodicEffects';
+import { EntityRegistry } from '../core/EntityRegistry';
+import { FrameTimeline } from '../core/FrameTimeline';
+import { TickClock } from '../core/Clock';
+import { createSimulationContext } from '../core/SimulationContext';
+
+/**
+ * Frame Timeline Demonstration
+ *
+ * A `FrameTimeline` records frames in time order and answers questions about
+ * the past: a stat's value at any time, the frames in a window, the first
+ * frame where something happened, and stat series to graph.
+ */
+export function runFrameTimelineExamples(): void {
+  console.log('\n🎞️ Frame Timeline Demonstration');
+  console.log('='.repeat(60));
+
+  const clock = new TickClock(100); // 10 ticks per second
+  const context = createSimulationContext({ clock });
+  const registry = new EntityRegistry(context);
+  const timeline = new FrameTimeline(undefined, undefined, context);
+  const knight = registry.createEntity('timeline-knight', { health: 100, attack: 12 });
+  const troll = registry.createEntity('timeline-troll', { health: 90, attack: 9 });
+
+  console.log('\n1. Recording a fight, one frame per tick:');
+  troll.addEffect(new PeriodicEffect('timeline-poison', 'Poison', 'health', -3, 200), 1200);
+  for (let tick = 0; tick <= 20; tick++) {
+    if (tick % 4 === 2) troll.setBaseStat('health', troll.getStat('health') - knight.getStat('attack'));
+    if (tick % 5 === 4) knight.setBaseStat('health', knight.getStat('health') - troll.getStat('attack'));
+    if (tick === 10) knight.addEffect(new AdditiveEffect('timeline-rage', 'Rage', 'attack', 6), 500);
+    timeline.record([knight, troll], { tick });
+    clock.tick();
+  }
+  const last = timeline.frameAt(Infinity)!;
+  console.log(`   ${timeline.length} frames from ${timeline.getFrames()[0].timestamp}ms to ${last.timestamp}ms (tick ${last.tick})`);
+
+  console.log('\n2. Stats at a point in time:');
+  for (const time of [0, 450, 1050, 1999]) {
+    console.log(`   t=${time}ms: knight ${timeline.statAt(knight.id, 'health', time)} health / ${timeline.statAt(knight.id, 'attack', time)} attack, troll ${timeline.statAt(troll.id, 'health', time)} health`);
+  }
+
+  console.log('\n3. Frames in a window:');
+  const window = timeline.framesBetween(1000, 1500);
+  console.log(`   ${window.length} frames between 1000ms and 1500ms: ticks ${window.map(entry => entry.tick).join(', ')}`);
+
+  console.log('\n4. Finding when something happened:');
+  const bloodied = timeline.firstFrameWhere(({ frame }) => (frame.getEntityStats(troll.id)?.get('health') ?? 0) < 45);
+  console.log(`   Troll first below 45 health at tick ${bloodied?.tick} (${bloodied?.frame.getEntityStats(troll.id)?.get('health')} health)`);
+  const enraged = timeline.firstFrameWhere(({ frame }) => frame.getEntityEffects(knight.id)?.includes('timeline-rage') ?? false);
+  console.log(`   Knight enraged from tick ${enraged?.tick}`);
+
+  console.log('\n5. Health over the fight:');
+  for (const [entityId, samples] of timeline.getSeries('health')) {
+    const bars = samples.filter((_, index) => index % 4 === 0).map(sample => `${String(sample.tick).padStart(2)}:${'█'.repeat(Math.round(sample.value / 10))}`);
+    console.log(`   ${entityId}`);
+    bars.forEach(bar => console.log(`     ${bar}`));
+  }
+  const attack = timeline.statSeries(knight.id, 'attack', 900, 1600).map(sample => sample.value);
+  console.log(`   Knight attack from 900ms to 1600ms: ${attack.join(', ')}`);
+
+  registry.dispose();
+
+  console.log('\n✅ Frame Timeline Demonstration Complete!');
+}
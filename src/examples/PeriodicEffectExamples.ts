@@ -0,0 +1,71 @@
+import { ImmunityEffect } from '../core/effects';
+import { PeriodicEffect } from '../core/PeriodicEffects';
+import { EntityRegistry } from '../core/EntityRegistry';
+import { ManualClock } from '../core/Clock';
+import { createSimulationContext } from '../core/SimulationContext';
+import { EffectTags, EventType, StackPolicy } from '../core/types';
+
+/**
+ * Periodic Effect Demonstration
+ *
+ * Damage and heal over time effects tick on the simulation clock and change
+ * base stats through `setStat`. Here the clock is stepped by hand.
+ */
+export function runPeriodicEffectExamples(): void {
+  console.log('\n💧 Periodic Effect Demonstration');
+  console.log('='.repeat(60));
+
+  const clock = new ManualClock();
+  const context = createSimulationContext({ clock });
+  const registry = new EntityRegistry(context);
+  let tickLog: string[] = [];
+  context.eventSystem.on(EventType.PERIODIC_EFFECT_TICKED, (event) => {
+    const { effectId, amount, tick, partial } = event.data;
+    tickLog.push(`${effectId}#${tick}@${Math.round(event.timestamp)}ms ${amount > 0 ? '+' : ''}${amount}${partial ? ' (partial)' : ''}`);
+  });
+  const flush = () => {
+    for (const line of tickLog) console.log(`   ⏲️ ${line}`);
+    tickLog = [];
+  };
+  const step = (entity: ReturnType<typeof registry.createEntity>, milliseconds: number, every: number) => {
+    for (let elapsed = 0; elapsed < milliseconds; elapsed += every) {
+      clock.advance(every);
+      entity.checkExpiredEffects();
+    }
+  };
+
+  console.log('\n1. Poison: 5 damage every second for 5 seconds:');
+  const rogue = registry.createEntity('periodic-rogue', { health: 100, haste: 0 });
+  rogue.addEffect(new PeriodicEffect('poison', 'Poison', 'health', -5, 1000, undefined, false, 0, [EffectTags.POISON]), 5000);
+  step(rogue, 6000, 1000);
+  flush();
+  console.log(`   Health: ${rogue.getStat('health')}, poisoned: ${rogue.hasEffect('poison')}`);
+
+  console.log('\n2. Regeneration with a partial final tick (+4 every 2s for 5s), checked once:');
+  rogue.addEffect(new PeriodicEffect('regen', 'Regeneration', 'health', 4, 2000, undefined, true), 5000);
+  step(rogue, 5000, 5000);
+  flush();
+  console.log(`   Health: ${rogue.getStat('health')}`);
+
+  console.log('\n3. Haste speeds up ticks (50% haste, bleed every second for 4s):');
+  rogue.setBaseStat('haste', 0.5);
+  rogue.addEffect(new PeriodicEffect('bleed', 'Bleed', 'health', -2, 1000, 'haste'), 4000);
+  step(rogue, 4000, 500);
+  flush();
+  console.log(`   Health: ${rogue.getStat('health')}`);
+
+  console.log('\n4. Stacked poison ticks harder, and immunity stops the ticks:');
+  const stackingPoison = new PeriodicEffect('venom', 'Venom', 'health', -3, 1000, undefined, false, 0,
+    [EffectTags.POISON], { policy: StackPolicy.REFRESH, maxStacks: 3 });
+  rogue.addEffect(stackingPoison, 3000);
+  rogue.addEffect(stackingPoison, 3000);
+  step(rogue, 1000, 1000);
+  rogue.addEffect(new ImmunityEffect('antidote', 'Antidote', [EffectTags.POISON]));
+  step(rogue, 3000, 1000);
+  flush();
+  console.log(`   Health: ${rogue.getStat('health')}, venom still applied: ${rogue.hasEffect('venom')}`);
+
+  registry.dispose();
+
+  console.log('\n✅ Periodic Effect Demonstration Complete!');
+}
@@ -0,0 +1,69 @@
+import { AdditiveEffect, PercentageEffect } from '../core/effects';
+import { EntityRegistry } from '../core/EntityRegistry';
+import { ManualClock } from '../core/Clock';
+import { createSimulationContext } from '../core/SimulationContext';
+import { EventType, ResourceState } from '../core/types';
+
+/**
+ * Resource Stats Demonstration
+ *
+ * Resources pair a current value (stored as a base stat) with a maximum
+ * modified by effects. The current value is clamped automatically, follows
+ * changes to the maximum, regenerates over time and emits bound events.
+ */
+export function runResourceExamples(): void {
+  console.log('\n🔋 Resource Stats Demonstration');
+  console.log('='.repeat(60));
+
+  const clock = new ManualClock();
+  const context = createSimulationContext({ clock });
+  const registry = new EntityRegistry(context);
+  const format = (resource: ResourceState | undefined) =>
+    resource ? `${Number(resource.current.toFixed(1))}/${resource.max} (${Math.round(resource.ratio * 100)}%)` : 'none';
+
+  const paladin = registry.createEntity('resource-paladin', { maxHealth: 100, maxMana: 50, manaRegen: 2 });
+  paladin.registerResource({ statType: 'health', maxStatType: 'maxHealth', boundEvents: { thresholdConfig: { critical: 0.25, low: 0.5 } } });
+  paladin.registerResource({ statType: 'mana', maxStatType: 'maxMana', onMaxChange: 'keepRatio', regenPerSecond: 'manaRegen', boundEvents: false });
+
+  context.eventSystem.on(EventType.BOUND_STATE_CHANGED, (event) => {
+    if (event.data.entityId === paladin.id) {
+      console.log(`   📣 ${event.data.statType}: ${event.data.previousState} → ${event.data.currentState}`);
+    }
+  });
+
+  console.log('\n1. Resources start full:');
+  console.log(`   Health: ${format(paladin.getResource('health'))}, mana: ${format(paladin.getResource('mana'))}`);
+
+  console.log('\n2. Spending and overhealing are clamped:');
+  console.log(`   Spent ${-paladin.adjustResource('mana', -80)} of 80 mana requested`);
+  paladin.adjustResource('mana', 30);
+  paladin.adjustResource('health', -80);
+  console.log(`   Healed ${paladin.adjustResource('health', 500)} health`);
+  console.log(`   Health: ${format(paladin.getResource('health'))}, mana: ${format(paladin.getResource('mana'))}`);
+
+  console.log('\n3. Following the maximum:');
+  paladin.adjustResource('health', -40);
+  paladin.addEffect(new PercentageEffect('resource-arcane-intellect', 'Arcane Intellect', 'maxMana', 1));
+  paladin.addEffect(new AdditiveEffect('resource-fortitude', 'Fortitude', 'maxHealth', 50));
+  console.log(`   Buffed — health (keeps absolute): ${format(paladin.getResource('health'))}, mana (keeps ratio): ${format(paladin.getResource('mana'))}`);
+  paladin.removeEffect('resource-fortitude');
+  paladin.removeEffect('resource-arcane-intellect');
+  paladin.adjustResource('health', 40);
+  paladin.addEffect(new AdditiveEffect('resource-curse', 'Curse of Frailty', 'maxHealth', -60));
+  console.log(`   Cursed — health clamped to the lower maximum: ${format(paladin.getResource('health'))}`);
+  paladin.removeEffect('resource-curse');
+  console.log(`   Curse lifted — health stays: ${format(paladin.getResource('health'))}`);
+
+  console.log('\n4. Regeneration from a stat:');
+  paladin.adjustResource('mana', -50);
+  paladin.addEffect(new AdditiveEffect('resource-meditation', 'Meditation', 'manaRegen', 3));
+  for (let second = 1; second <= 3; second++) {
+    clock.advance(1000);
+    paladin.checkExpiredEffects();
+    console.log(`   After ${second}s: mana ${format(paladin.getResource('mana'))}`);
+  }
+
+  registry.dispose();
+
+  console.log('\n✅ Resource Stats Demonstration Complete!');
+}
@@ -0,0 +1,67 @@
+import { Entity } from '../core/Entity';
+import { AdditiveEffect, PercentageEffect } from '../core/effects';
+import { ActiveEffectUtils, BaseStatValueProvider } from '../core/ActiveEffects';
+import { StatBoundCalculator } from '../core/StatBoundCalculator';
+import {
+  SerializationError,
+  createReferenceCodec,
+  defaultSerializationRegistry
+} from '../core/Serialization';
+
+/**
+ * Entity Serialization Demonstration
+ *
+ * Entities are written as versioned JSON documents. Built-in effect classes
+ * are handled by the default registry; effects and gear built from closures
+ * are re-created from factories registered under a type id.
+ */
+export function runSerializationExamples(): void {
+  console.log('\n💾 Entity Serialization Demonstration');
+  console.log('='.repeat(60));
+
+  // Gear built from a closure needs a factory to be re-created on load
+  const createSword = () => ActiveEffectUtils.createGear(
+    'save-sword',
+    'Saved Sword',
+    'weapon',
+    10,
+    ['damage'],
+    (purpose, context) => (context.currentStats.get('attack') ?? 0) * 1.5,
+    [new AdditiveEffect('save-sword-edge', 'Sword Edge', 'attack', 8)],
+    'mainHand'
+  );
+
+  const registry = defaultSerializationRegistry.clone()
+    .registerGearCodec(createReferenceCodec('example-gear', { 'save-sword': createSword }));
+
+  const hero = new Entity('save-hero', { health: 80, maxHealth: 100, attack: 20 });
+  hero.addEffect(new PercentageEffect('save-blessing', 'Blessing', 'attack', 0.1), 60000);
+  hero.equipGear(createSword());
+  hero.registerValueProvider(new BaseStatValueProvider('save-fallback', 'Fallback', 1, ['damage'], 'attack'));
+  hero.registerBoundEventConfig({
+    statType: 'health',
+    boundConfig: StatBoundCalculator.createStatBasedBoundConfig('health', 'maxHealth')
+  });
+
+  console.log('\n1. Writing the entity:');
+  const json = JSON.stringify(hero.toJSON(registry), null, 2);
+  console.log(json);
+
+  console.log('\n2. Restoring the entity:');
+  const restored = Entity.fromJSON(json, registry);
+  console.log(`   Attack before: ${hero.getStat('attack')}, after: ${restored.getStat('attack')}`);
+  console.log(`   Gear in mainHand: ${restored.getEquippedGear('mainHand')?.name}`);
+  console.log(`   Blessing expires at: ${restored.getEffectTiming('save-blessing')?.expiresAt}`);
+  console.log(`   Damage value: ${restored.requestValue('damage')?.value}`);
+
+  console.log('\n3. Reading an invalid document:');
+  try {
+    Entity.fromJSON({ ...hero.toJSON(registry), baseStats: { health: 'full' } as any }, registry);
+  } catch (error) {
+    if (error instanceof SerializationError) {
+      console.log(`   ${error.message}`);
+    }
+  }
+
+  console.log('\n✅ Entity Serialization Demonstration Complete!');
+}
@@ -0,0 +1,74 @@
+import {
+  AdditiveEffect,
+  PercentageEffect,
+  MultiplicativeEffect
+} from '../core/effects';
+import { EntityRegistry } from '../core/EntityRegistry';
+import { StatPipeline } from '../core/StatPipeline';
+import { createSimulationContext } from '../core/SimulationContext';
+import { EventType, StackPolicy } from '../core/types';
+
+/**
+ * Effect Stacking Demonstration
+ *
+ * Effects with a stacking rule gain stacks when re-applied instead of being
+ * replaced. Each stack adds to the effect's impact.
+ */
+export function runStackingExamples(): void {
+  console.log('\n📚 Effect Stacking Demonstration');
+  console.log('='.repeat(60));
+
+  const registry = new EntityRegistry(createSimulationContext());
+  registry.context.eventSystem.on(EventType.EFFECT_STACK_CHANGED, (event) => {
+    const { effectId, previousStackCount, stackCount, reason, droppedStacks } = event.data;
+    const dropped = droppedStacks > 0 ? `, ${droppedStacks} dropped` : '';
+    console.log(`   📚 ${effectId}: ${previousStackCount} → ${stackCount} (${reason}${dropped})`);
+  });
+
+  const warrior = registry.createEntity('stacking-warrior', { health: 100, attack: 20, speed: 10, armor: 5 });
+  const start = Date.now();
+
+  console.log('\n1. Independent stacks (Bleed, max 3, each lasts 3s):');
+  const bleed = new AdditiveEffect('stacking-bleed', 'Bleed', 'health', -5, true, 0, ['debuff'],
+    { policy: StackPolicy.INDEPENDENT, maxStacks: 3 });
+  for (let hit = 0; hit < 4; hit++) {
+    warrior.addEffect(bleed, 3000);
+  }
+  console.log(`   Stacks: ${warrior.getStackCount('stacking-bleed')}, Health: ${warrior.getStat('health')}`);
+  console.log(StatPipeline.formatExplanation(warrior.explainStat('health')));
+
+  console.log('\n2. Refreshing stacks (Rage, +10% attack per stack, max 5):');
+  const rage = new PercentageEffect('stacking-rage', 'Rage', 'attack', 0.1, true, 0, ['buff'],
+    { policy: StackPolicy.REFRESH, maxStacks: 5 });
+  for (let hit = 0; hit < 6; hit++) {
+    warrior.addEffect(rage, 5000);
+  }
+  console.log(`   Stacks: ${warrior.getStackCount('stacking-rage')}, Attack: ${warrior.getStat('attack')}`);
+
+  console.log('\n3. Extending the duration (Iron Skin, +2 armor per stack):');
+  const ironSkin = new AdditiveEffect('stacking-iron-skin', 'Iron Skin', 'armor', 2, true, 0, ['buff'],
+    { policy: StackPolicy.EXTEND });
+  warrior.addEffect(ironSkin, 2000);
+  warrior.addEffect(ironSkin, 2000);
+  const ironSkinTiming = warrior.getEffectTiming('stacking-iron-skin')!;
+  console.log(`   Armor: ${warrior.getStat('armor')}, lasts ~${Math.round((ironSkinTiming.expiresAt! - start) / 1000)}s`);
+
+  console.log('\n4. Replace only when stronger (Slow):');
+  const slowRule = { policy: StackPolicy.REPLACE_IF_STRONGER };
+  warrior.addEffect(new MultiplicativeEffect('stacking-slow', 'Slow (x0.8)', 'speed', 0.8, true, 0, ['debuff'], slowRule));
+  warrior.addEffect(new MultiplicativeEffect('stacking-slow', 'Slow (x0.9)', 'speed', 0.9, true, 0, ['debuff'], slowRule));
+  console.log(`   Weaker slow ignored, Speed: ${warrior.getStat('speed')}`);
+  warrior.addEffect(new MultiplicativeEffect('stacking-slow', 'Slow (x0.5)', 'speed', 0.5, true, 0, ['debuff'], slowRule));
+  console.log(`   Stronger slow replaced it, Speed: ${warrior.getStat('speed')}`);
+
+  console.log('\n5. Stacks expiring one at a time:');
+  warrior.addEffect(bleed, 6000);
+  console.log(`   Bleed stacks: ${warrior.getStackCount('stacking-bleed')}`);
+  const removed = warrior.checkExpiredEffects(start + 4500);
+  console.log(`   After 4.5s: ${warrior.getStackCount('stacking-bleed')} bleed stack, removed: ${removed.join(', ')}`);
+  console.log(`   Health: ${warrior.getStat('health')}, Attack: ${warrior.getStat('attack')}, Armor: ${warrior.getStat('armor')}`);
+
+  registry.dispose();
+
+  console.log('\n✅ Effect Stacking Demonstration Complete!');
+}
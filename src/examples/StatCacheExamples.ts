@@ -0,0 +1,82 @@
+import { AdditiveEffect, ConditionalEffect } from '../core/effects';
+import { EntityRegistry } from '../core/EntityRegistry';
+import { ManualClock } from '../core/Clock';
+import { createSimulationContext } from '../core/SimulationContext';
+import { StatDependencyGraph } from '../core/StatDependencyGraph';
+import { EffectDefinitionLoader } from '../core/EffectDefinitions';
+
+/**
+ * Stat Cache Demonstration
+ *
+ * Calculated stats are cached until base stats, the effect set or a stat an
+ * effect reads changes. Time-dependent effects expire the cache when the
+ * clock moves. Only the stats affected by a change are recalculated.
+ */
+export function runStatCacheExamples(): void {
+  console.log('\n🧠 Stat Cache Demonstration');
+  console.log('='.repeat(60));
+
+  const clock = new ManualClock();
+  const registry = new EntityRegistry(createSimulationContext({ clock }));
+  const knight = registry.createEntity('cache-knight', { health: 100, attack: 20, defense: 10 });
+
+  knight.addEffect(new AdditiveEffect('cache-sword', 'Sword', 'attack', 15));
+  knight.addEffect(new ConditionalEffect(
+    'cache-last-stand',
+    'Last Stand',
+    (context) => (context.baseStats.health ?? 0) < 50,
+    new AdditiveEffect('cache-last-stand-bonus', 'Last Stand Bonus', 'defense', 20),
+    true,
+    0,
+    [],
+    undefined,
+    ['health'] // Only a health change can switch it on or off
+  ));
+  knight.addEffect(new ConditionalEffect(
+    'cache-dawn',
+    'Blessing of Dawn',
+    (context) => context.timestamp % 24000 < 12000, // Daytime
+    new AdditiveEffect('cache-dawn-bonus', 'Dawn Bonus', 'attack', 5),
+    true,
+    0,
+    [],
+    undefined,
+    [],
+    true // Re-checked whenever the clock moves
+  ));
+
+  console.log('\n1. Reads are served from the cache until something changes:');
+  console.log(`   Attack: ${knight.getStat('attack')}, Defense: ${knight.getStat('defense')}`);
+
+  console.log('\n2. Changing a stat the condition reads:');
+  knight.setBaseStat('health', 40);
+  console.log(`   Defense: ${knight.getStat('defense')}`);
+
+  console.log('\n3. Time passing re-checks only time-dependent effects:');
+  clock.advance(12000);
+  console.log(`   Attack at night: ${knight.getStat('attack')}`);
+
+  console.log('\n4. Forcing a recalculation for outside dependencies:');
+  knight.invalidateStats();
+  console.log(`   Attack: ${knight.getStat('attack')}`);
+
+  console.log('\n5. Derived stats follow the stats they read:');
+  knight.setBaseStat('strength', 10);
+  knight.addEffect(EffectDefinitionLoader.loadEffect({
+    id: 'cache-might',
+    name: 'Might',
+    impact: { type: 'stat_based', stat: 'strength', multiplier: 2 },
+    target: { type: 'single', stat: 'attack' },
+    application: { type: 'additive' }
+  }));
+  const graph = StatDependencyGraph.fromEffects(knight.getEffects());
+  console.log(`   attack is calculated from: ${graph.getDependencies('attack').join(', ')}`);
+  console.log(`   A strength change recalculates: ${Array.from(graph.getAffectedStats(['strength'])).join(', ')}`);
+  console.log(`   Attack: ${knight.getStat('attack')}`);
+  knight.setBaseStat('strength', 15);
+  console.log(`   Attack after training: ${knight.getStat('attack')}`);
+
+  registry.dispose();
+
+  console.log('\n✅ Stat Cache Demonstration Complete!');
+}
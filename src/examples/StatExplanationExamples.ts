@@ -0,0 +1,53 @@
+import { Entity } from '../core/Entity';
+import {
+  AdditiveEffect,
+  PercentageEffect,
+  MultiplicativeEffect,
+  ConditionalEffect
+} from '../core/effects';
+import { ActiveEffectUtils } from '../core/ActiveEffects';
+import { StatPipeline } from '../core/StatPipeline';
+
+/**
+ * Stat Explanation Demonstration
+ *
+ * `explainStat` answers "why is attack 137?" with every step of the
+ * calculation, including gear passive effects and skipped effects.
+ */
+export function runStatExplanationExamples(): void {
+  console.log('\n🔍 Stat Explanation Demonstration');
+  console.log('='.repeat(60));
+
+  const paladin = new Entity('explain-paladin', { health: 80, maxHealth: 100, attack: 50 });
+
+  paladin.equipGear(ActiveEffectUtils.createGear(
+    'explain-hammer',
+    'Warhammer',
+    'weapon',
+    5,
+    ['damage'],
+    (purpose, context) => context.currentStats.get('attack') ?? 0,
+    [new AdditiveEffect('explain-hammer-weight', 'Heavy Head', 'attack', 20)],
+    'mainHand'
+  ));
+  paladin.addEffect(new PercentageEffect('explain-blessing', 'Blessing', 'attack', 0.1));
+  paladin.addEffect(new PercentageEffect('explain-zeal', 'Zeal', 'attack', 0.05));
+  paladin.addEffect(new MultiplicativeEffect('explain-crusade', 'Crusade', 'attack', 1.5));
+  paladin.addEffect(new ConditionalEffect(
+    'explain-last-stand',
+    'Last Stand',
+    (context) => (context.currentStats.get('health') ?? 0) < 20,
+    new AdditiveEffect('explain-last-stand-bonus', 'Last Stand Bonus', 'attack', 30)
+  ));
+
+  console.log('\n1. Why is attack ' + paladin.getStat('attack') + '?');
+  const explanation = paladin.explainStat('attack');
+  console.log(StatPipeline.formatExplanation(explanation));
+
+  console.log('\n2. Raw trace entries:');
+  for (const entry of explanation.entries) {
+    console.log(`   ${entry.effectId}: ${entry.status}, stage=${entry.stage ?? 'unstaged'}, source=${entry.source?.gearId ?? 'entity'}`);
+  }
+
+  console.log('\n✅ Stat Explanation Demonstration Complete!');
+}
@@ -0,0 +1,84 @@
+import { Entity } from '../core/Entity';
+import { AdditiveEffect } from '../core/effects';
+import { ComposedEffectBuilder } from '../core/ComposedEffect';
+import {
+  ExpressionApplicable,
+  ExpressionImpact,
+  SingleStatTarget,
+  AdditiveApplication
+} from '../core/EffectComponents';
+import { StatBoundCalculator } from '../core/StatBoundCalculator';
+import { StatExpression, StatExpressionError } from '../core/StatExpression';
+import { ExpressionApplicator } from '../core/EffectApplicator';
+import { EntityRegistry } from '../core/EntityRegistry';
+import { createSimulationContext } from '../core/SimulationContext';
+
+/**
+ * Stat Expression Demonstration
+ *
+ * Balance formulas written as text are parsed and type checked once, then
+ * used wherever a closure was required before.
+ */
+export function runStatExpressionExamples(): void {
+  console.log('\n🧮 Stat Expression Demonstration');
+  console.log('='.repeat(60));
+
+  const stats = new Map([['health', 20], ['maxHealth', 100], ['strength', 12], ['level', 5]]);
+
+  console.log('\n1. Evaluating expressions:');
+  const cap = StatExpression.compile('min(maxHealth, strength * 2 + level)');
+  const critical = StatExpression.compile('health / maxHealth < 0.25');
+  console.log(`   ${cap} = ${cap.evaluate(stats)} (reads ${cap.statReferences.join(', ')})`);
+  console.log(`   ${critical} = ${critical.evaluate(stats)}`);
+
+  console.log('\n2. Expressions as effect components:');
+  const rage = new ComposedEffectBuilder('expr-rage', 'Desperate Rage')
+    .withStatTypes(['attack'])
+    .withApplicability(new ExpressionApplicable('health / maxHealth < 0.25'))
+    .withImpact(new ExpressionImpact('strength * 0.5 + level'))
+    .withTarget(new SingleStatTarget('attack'))
+    .withApplication(new AdditiveApplication())
+    .build();
+
+  const warrior = new Entity('expr-warrior', { health: 20, maxHealth: 100, strength: 12, level: 5, attack: 10 });
+  warrior.addEffect(rage);
+  console.log(`   Attack with rage: ${warrior.getStat('attack')}`);
+
+  console.log('\n3. Expression bounds (serializable):');
+  const bounds = StatBoundCalculator.createExpressionBoundConfig('0', 'maxHealth + level * 10');
+  const result = StatBoundCalculator.calculateBounds('health', bounds, warrior.getCurrentStats());
+  console.log(`   ${StatBoundCalculator.formatBoundResult(result)}`);
+  console.log(`   Source: ${JSON.stringify(StatBoundCalculator.describeBoundFunction(bounds.max as any))}`);
+
+  console.log('\n4. Applicator driven by an expression:');
+  const registry = new EntityRegistry(createSimulationContext());
+  registry.context.effectApplicatorManager.registerApplicator(new ExpressionApplicator(
+    'expr-second-wind',
+    'Second Wind',
+    [new AdditiveEffect('expr-second-wind-regen', 'Second Wind', 'regen', 5)],
+    [],
+    'health < maxHealth * 0.3 and level >= 3'
+  ));
+  const scout = registry.createEntity('expr-scout', { health: 80, maxHealth: 100, level: 4, regen: 1 });
+  scout.setStat('health', 25);
+  console.log(`   Regen after dropping to 25 health: ${scout.getStat('regen')}`);
+  registry.dispose();
+
+  console.log('\n5. Rejected expressions:');
+  const invalid: Array<[string, string[] | undefined]> = [
+    ['strength * 2 +', undefined],
+    ['health < 0.25 + true', undefined],
+    ['min(maxHealth, stamina)', ['health', 'maxHealth']]
+  ];
+  for (const [source, knownStats] of invalid) {
+    try {
+      StatExpression.compile(source, { knownStats });
+    } catch (error) {
+      if (error instanceof StatExpressionError) {
+        console.log(`   "${source}": ${error.reason} at position ${error.position}`);
+      }
+    }
+  }
+
+  console.log('\n✅ Stat Expression Demonstration Complete!');
+}
@@ -0,0 +1,51 @@
+import { Entity } from '../core/Entity';
+import {
+  AdditiveEffect,
+  PercentageEffect,
+  MultiplicativeEffect,
+  SetValueEffect,
+  ClampEffect
+} from '../core/effects';
+import { createSimulationContext } from '../core/SimulationContext';
+import { ModifierStage } from '../core/types';
+
+/**
+ * Stat Pipeline Demonstration
+ *
+ * Built-in effects declare a stage, so the result no longer depends on the
+ * priority numbers they were given.
+ */
+export function runStatPipelineExamples(): void {
+  console.log('\n🏭 Stat Pipeline Demonstration');
+  console.log('='.repeat(60));
+
+  console.log('\n1. Stages instead of priorities (base attack 100):');
+  const knight = new Entity('pipeline-knight', { attack: 100 });
+  // Priorities deliberately scrambled: the stages decide the order
+  knight.addEffect(new PercentageEffect('pipeline-banner', 'Banner (+20%)', 'attack', 0.2, true, 5));
+  knight.addEffect(new PercentageEffect('pipeline-aura', 'Aura (+30%)', 'attack', 0.3, true, 1));
+  knight.addEffect(new AdditiveEffect('pipeline-sword', 'Sword (+20)', 'attack', 20, true, 9));
+  knight.addEffect(new MultiplicativeEffect('pipeline-frenzy', 'Frenzy (x1.5)', 'attack', 1.5, true, 0));
+  console.log(`   (100 + 20) x (1 + 0.2 + 0.3) x 1.5 = ${knight.getStat('attack')}`);
+
+  console.log('\n2. Overrides and clamps:');
+  knight.addEffect(new ClampEffect('pipeline-cap', 'Attack Cap', 'attack', 0, 200));
+  console.log(`   Clamped to 200: ${knight.getStat('attack')}`);
+  knight.addEffect(new SetValueEffect('pipeline-petrified', 'Petrified', 'attack', 1));
+  console.log(`   Overridden to 1: ${knight.getStat('attack')}`);
+
+  console.log('\n3. Per-stat stage order:');
+  const context = createSimulationContext();
+  // For this game, flat bonuses to speed are added after multipliers
+  context.statPipeline.setStages('speed', [
+    ModifierStage.MULTIPLICATIVE,
+    ModifierStage.BASE_ADD,
+    ModifierStage.FINAL_CLAMP
+  ]);
+  const rogue = new Entity('pipeline-rogue', { speed: 10 }, context);
+  rogue.addEffect(new AdditiveEffect('pipeline-boots', 'Boots (+5)', 'speed', 5));
+  rogue.addEffect(new MultiplicativeEffect('pipeline-haste', 'Haste (x2)', 'speed', 2));
+  console.log(`   10 x 2 + 5 = ${rogue.getStat('speed')}`);
+
+  console.log('\n✅ Stat Pipeline Demonstration Complete!');
+}
@@ -0,0 +1,60 @@
+import { AdditiveEffect, PercentageEffect } from '../core/effects';
+import { StatSchema, StatSchemaError } from '../core/StatSchema';
+import { EntityRegistry } from '../core/EntityRegistry';
+import { createSimulationContext } from '../core/SimulationContext';
+
+/**
+ * Stat Schema Demonstration
+ *
+ * A stat schema declares each stat's default, range, integer or float type,
+ * rounding and display name. Entities validate their stats against it and
+ * flag stat names it doesn't declare.
+ */
+export function runStatSchemaExamples(): void {
+  console.log('\n📐 Stat Schema Demonstration');
+  console.log('='.repeat(60));
+
+  const schema = new StatSchema({ unknownStats: 'error' })
+    .define('health', { displayName: 'Health', type: 'integer', defaultValue: 100, min: 0, max: 500 })
+    .define('attack', { displayName: 'Attack Power', type: 'integer', defaultValue: 10, min: 0, rounding: 'floor' })
+    .define('critChance', { displayName: 'Critical Chance', defaultValue: 0.05, min: 0, max: 1, rounding: 'round', decimals: 3 });
+  const registry = new EntityRegistry(createSimulationContext({ statSchema: schema }));
+
+  console.log('\n1. Defaults for stats an entity doesn\'t set:');
+  const knight = registry.createEntity('schema-knight', { attack: 14 });
+  for (const statType of schema.getStatTypes()) {
+    console.log(`   ${schema.getDisplayName(statType)}: ${knight.getStat(statType)}`);
+  }
+
+  console.log('\n2. Rounding and clamping calculated values:');
+  knight.addEffect(new PercentageEffect('schema-might', 'Might', 'attack', 0.15));
+  knight.addEffect(new AdditiveEffect('schema-vigor', 'Vigor', 'health', 450));
+  knight.addEffect(new AdditiveEffect('schema-precision', 'Precision', 'critChance', 0.01234));
+  console.log(`   Attack Power: 14 + 15% = ${knight.getStat('attack')} (floored)`);
+  console.log(`   Health: 100 + 450 = ${knight.getStat('health')} (capped at 500)`);
+  console.log(`   Critical Chance: 0.05 + 0.01234 = ${knight.getStat('critChance')} (3 decimals)`);
+
+  console.log('\n3. Validating base stats:');
+  try {
+    registry.createEntity('schema-broken', { health: -20, attack: 7.5 });
+  } catch (error) {
+    if (!(error instanceof StatSchemaError)) throw error;
+    error.issues.forEach(issue => console.log(`   ${issue.statType} ${issue.message}`));
+  }
+
+  console.log('\n4. State adjustments are clamped instead of rejected:');
+  knight.setStat('health', -35.6);
+  console.log(`   Health after a heavy hit: ${knight.baseStats.health}`);
+
+  console.log('\n5. Flagging unknown stat names:');
+  try {
+    knight.getStat('helth');
+  } catch (error) {
+    if (!(error instanceof StatSchemaError)) throw error;
+    console.log(`   ${error.message.replace(/\n\s*/g, ' ')}`);
+  }
+
+  registry.dispose();
+
+  console.log('\n✅ Stat Schema Demonstration Complete!');
+}
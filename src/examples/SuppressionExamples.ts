@@ -0,0 +1,72 @@
+import {
+  AdditiveEffect,
+  PercentageEffect,
+  CancellationEffect,
+  ImmunityEffect
+} from '../core/effects';
+import { ActiveEffectUtils, GenericGear } from '../core/ActiveEffects';
+import { StatPipeline } from '../core/StatPipeline';
+import { EntityRegistry } from '../core/EntityRegistry';
+import { createSimulationContext } from '../core/SimulationContext';
+import { EventType, EffectTags } from '../core/types';
+
+/**
+ * Effect Suppression Demonstration
+ *
+ * Cancellation and immunity effects suppress other effects by id, tag or
+ * stat type. Suppressed effects stay on the entity but are skipped.
+ */
+export function runSuppressionExamples(): void {
+  console.log('\n🚫 Effect Suppression Demonstration');
+  console.log('='.repeat(60));
+
+  const registry = new EntityRegistry(createSimulationContext());
+  const events = registry.context.eventSystem;
+  events.on(EventType.EFFECT_SUPPRESSED, (event) => {
+    console.log(`   🔇 ${event.data.effectId} suppressed by ${event.data.suppressedBy}`);
+  });
+  events.on(EventType.EFFECT_UNSUPPRESSED, (event) => {
+    console.log(`   🔊 ${event.data.effectId} no longer suppressed`);
+  });
+
+  const cleric = registry.createEntity('suppress-cleric', { health: 100, attack: 20, defense: 10 });
+  cleric.addEffect(new PercentageEffect('suppress-curse', 'Curse of Weakness', 'attack', -0.5));
+  cleric.addEffect(new AdditiveEffect('suppress-venom', 'Venom', 'health', -30, true, 0, [EffectTags.POISON, EffectTags.DEBUFF]));
+  cleric.addEffect(ActiveEffectUtils.createActiveEffect(
+    'suppress-thorns',
+    'Thorns',
+    ['defense'],
+    ['reflect'],
+    () => 15
+  ));
+  console.log(`\n   Attack: ${cleric.getStat('attack')}, Health: ${cleric.getStat('health')}, Reflect: ${cleric.requestValue('reflect')?.value}`);
+
+  console.log('\n1. Cancelling the curse by id:');
+  cleric.addEffect(new CancellationEffect('suppress-remove-curse', 'Remove Curse', ['suppress-curse']));
+  console.log(`   Attack: ${cleric.getStat('attack')}`);
+
+  console.log('\n2. Immunity to poison by tag:');
+  cleric.addEffect(new ImmunityEffect('suppress-antidote', 'Antidote', ['poison']));
+  console.log(`   Health: ${cleric.getStat('health')}`);
+  console.log(StatPipeline.formatExplanation(cleric.explainStat('health')));
+
+  console.log('\n3. Silencing everything that touches defense (value requests too):');
+  cleric.addEffect(new CancellationEffect('suppress-silence', 'Silence', [], 0, [], ['defense']));
+  console.log(`   Reflect: ${cleric.requestValue('reflect')?.value ?? 'none'}`);
+
+  console.log('\n4. Removing the antidote:');
+  cleric.removeEffect('suppress-antidote');
+  console.log(`   Health: ${cleric.getStat('health')}`);
+
+  console.log('\n5. Disarming: cancelling gear passive effects by the implied gear tag:');
+  const mace = new GenericGear('suppress-mace', 'Blessed Mace', 'weapon', 1, [], () => undefined,
+    [new AdditiveEffect('suppress-mace-attack', 'Mace Attack', 'attack', 8)], 'mainHand');
+  cleric.equipGear(mace);
+  console.log(`   Tags: ${cleric.getEffectTags('suppress-mace-attack').join(', ')}, Attack: ${cleric.getStat('attack')}`);
+  cleric.addEffect(new CancellationEffect('suppress-disarm', 'Disarm', [], 0, [EffectTags.GEAR]));
+  console.log(`   Attack: ${cleric.getStat('attack')}`);
+
+  registry.dispose();
+
+  console.log('\n✅ Effect Suppression Demonstration Complete!');
+}
@@ -0,0 +1,77 @@
+import { AdditiveEffect } from '../core/effects';
+import { EntityRegistry } from '../core/EntityRegistry';
+import { createSimulationContext } from '../core/SimulationContext';
+import { EventType } from '../core/types';
+
+/**
+ * Batched Changes Demonstration
+ *
+ * `entity.batch` applies several changes as one: events are held back and
+ * consolidated, bound events are checked once against the final state, and
+ * a failure rolls every change back.
+ */
+export function runTransactionExamples(): void {
+  console.log('\n📦 Batched Changes Demonstration');
+  console.log('='.repeat(60));
+
+  const context = createSimulationContext();
+  const registry = new EntityRegistry(context);
+  const knight = registry.createEntity('batch-knight', { maxHealth: 100, maxStamina: 50, armor: 10 });
+  knight.registerResource({ statType: 'health', maxStatType: 'maxHealth' });
+  knight.registerResource({ statType: 'stamina', maxStatType: 'maxStamina' });
+
+  const events: string[] = [];
+  Object.values(EventType).forEach(eventType => context.eventSystem.on(eventType, (event) => {
+    if (event.data.entityId !== knight.id) return;
+    const detail = event.type === EventType.STAT_CHANGED ? ` ${event.data.statType} ${event.data.previousValue} → ${event.data.value}`
+      : event.type === EventType.BOUND_STATE_CHANGED ? ` ${event.data.statType} ${event.data.previousState} → ${event.data.currentState}`
+      : event.type === EventType.EFFECT_ADDED ? ` ${event.data.effect.name}` : '';
+    events.push(`${event.type}${detail}`);
+  }));
+  const flush = (label: string) => {
+    console.log(`   ${label}: ${events.length} events`);
+    events.filter(event => !event.startsWith(EventType.BOUND_RATIO_CHANGED) && !event.startsWith(EventType.BOUND_THRESHOLD_CROSSED))
+      .forEach(event => console.log(`     ${event}`));
+    events.length = 0;
+  };
+
+  console.log('\n1. Without a batch, every step emits events:');
+  knight.adjustResource('health', -30);
+  knight.adjustResource('health', -30);
+  knight.adjustResource('health', 40);
+  flush('Three health changes');
+
+  console.log('\n2. The same changes in a batch:');
+  knight.batch(() => {
+    knight.adjustResource('health', -30);
+    knight.adjustResource('health', -30);
+    knight.adjustResource('health', 40);
+    knight.adjustResource('stamina', -45);
+    knight.addEffect(new AdditiveEffect('batch-shield-wall', 'Shield Wall', 'armor', 15));
+  });
+  flush('One batch');
+
+  console.log('\n3. Rolling back on error:');
+  try {
+    knight.batch(() => {
+      knight.adjustResource('health', -70);
+      knight.removeEffect('batch-shield-wall');
+      throw new Error('Parry failed validation');
+    });
+  } catch (error) {
+    console.log(`   ${(error as Error).message}`);
+  }
+  flush('After rollback');
+  console.log(`   Health ${knight.getStat('health')}, armor ${knight.getStat('armor')}`);
+
+  console.log('\n4. Explicit transactions:');
+  knight.beginTransaction();
+  knight.adjustResource('stamina', 45);
+  console.log(`   Inside the transaction: stamina ${knight.getStat('stamina')}, ${events.length} events so far`);
+  knight.rollbackTransaction();
+  console.log(`   Rolled back: stamina ${knight.getStat('stamina')}`);
+
+  registry.dispose();
+
+  console.log('\n✅ Batched Changes Demonstration Complete!');
+}
@@ -1,19 +1,75 @@
 // Pure barrel: export only core API (no example code)
-export { Entity } from './core/Entity';
+export { Entity, EntityState } from './core/Entity';
+export {
+  EntityHistory,
+  EntityCommand,
+  SerializedCommand,
+  HistoryDocument,
+  HISTORY_DOCUMENT_SCHEMA,
+  HISTORY_DOCUMENT_VERSION,
+  validateHistoryDocument
+} from './core/EntityHistory';
+export { EntityRegistry, EntityRegistryOptions } from './core/EntityRegistry';
+export {
+  SimulationContext,
+  defaultSimulationContext,
+  createSimulationContext
+} from './core/SimulationContext';
+export { Clock, RealTimeClock, ManualClock, TickClock, realTimeClock } from './core/Clock';
+export { PeriodicEffect, PeriodicEffectScheduler, periodicEffectScheduler } from './core/PeriodicEffects';
 export { 
   AdditiveEffect, 
   MultiplicativeEffect, 
   PercentageEffect, 
+  ClampEffect,
   ConditionalEffect,
+  CancellationEffect,
+  ImmunityEffect,
+  matchesSuppressionRule,
   ComplexEffect,
   BaseEffect 
 } from './core/effects';
 export { eventSystem, EventSystem } from './core/EventSystem';
+export { StatPipeline, statPipeline, DEFAULT_MODIFIER_STAGES } from './core/StatPipeline';
+export { StatDependencyGraph } from './core/StatDependencyGraph';
+export { DerivedStatSet, DerivedStatCycleError, DerivedStatDefinition, DerivedStatFormula } from './core/DerivedStats';
+export {
+  StatSchema,
+  StatSchemaError,
+  StatDefinition,
+  StatSchemaIssue,
+  StatRounding,
+  UnknownStatPolicy
+} from './core/StatSchema';
+export {
+  ArchetypeRegistry,
+  ArchetypeDefinition,
+  ArchetypeLayer,
+  ArchetypeDerivedStat,
+  ResolvedArchetype,
+  SpawnOptions
+} from './core/Archetypes';
 export { FrameManager } from './core/FrameManager';
+export { FrameTimeline, TimelineFrame, StatSample } from './core/FrameTimeline';
+export { compareFrames, createFramePatch, applyFramePatch } from './core/FrameDiff';
+export {
+  SerializedFrame,
+  FrameDocument,
+  FRAME_DOCUMENT_SCHEMA,
+  FRAME_DOCUMENT_VERSION,
+  FRAME_CSV_COLUMNS,
+  createFrameDocument,
+  validateFrameDocument,
+  writeFramesCSV,
+  writeFramesNDJSON,
+  readFramesCSV,
+  readFramesNDJSON
+} from './core/FrameExport';
 export { 
   OptimizedFrameContainer, 
   OptimizedFrameView, 
-  FrameFactory 
+  FrameFactory,
+  DEFAULT_KEYFRAME_INTERVAL
 } from './core/OptimizedFrameSystem';
 export { 
   effectApplicatorManager,
@@ -22,7 +78,8 @@ export {
   StatThresholdApplicator,
   PercentageThresholdApplicator,
   CustomEventApplicator,
-  CooldownEffectApplicator
+  CooldownEffectApplicator,
+  ExpressionApplicator
 } from './core/EffectApplicator';
 export {
   RNGGenerator,
@@ -60,6 +117,32 @@ export {
 } from './core/InteractionSystem';
 export { GearEffectApplicator, GearEffectApplicatorUtils } from './core/GearEffectApplicators';
 export { StatBoundCalculator } from './core/StatBoundCalculator';
+export {
+  StatExpression,
+  StatExpressionError,
+  StatExpressionOptions,
+  ExpressionType,
+  ExpressionValue
+} from './core/StatExpression';
+export {
+  SerializationRegistry,
+  SerializationCodec,
+  SerializationError,
+  EntityDocument,
+  SerializedEffect,
+  SerializedEffectTiming,
+  SerializedGear,
+  SerializedValueProvider,
+  SerializedStatBound,
+  SerializedBoundEventConfig,
+  SerializedResource,
+  ENTITY_DOCUMENT_SCHEMA,
+  ENTITY_DOCUMENT_VERSION,
+  ENTITY_JSON_SCHEMA,
+  createReferenceCodec,
+  defaultSerializationRegistry,
+  validateEntityDocument
+} from './core/Serialization';
 export { 
   BoundStateApplicator, 
   BoundThresholdApplicator, 
@@ -72,5 +155,20 @@ export {
 export { 
   EffectFactory 
 } from './core/EffectFactory';
+export {
+  EffectDefinitionLoader,
+  EffectDefinitionError,
+  DefinedEffect,
+  EffectDefinition,
+  EffectDefinitionDocument,
+  EffectDefinitionIssue,
+  EffectDefinitionOptions,
+  ApplicabilityDefinition,
+  ImpactDefinition,
+  TargetDefinition,
+  ApplicationDefinition,
+  BoundDefinition,
+  ComparisonOperator
+} from './core/EffectDefinitions';
 export * from './core/EffectComponents';
 export * from './core/types';